@@ -0,0 +1,35 @@
+import { requestContext } from '../../server/audit.js';
+import { authenticate, login, logout, refresh } from '../../server/auth.js';
+import { createPool } from '../../server/db.js';
+import { sendError } from '../../server/errors.js';
+
+const pool = createPool();
+
+export default async function handler(req, res) {
+  const { action } = req.query;
+
+  try {
+    if (action === 'login' && req.method === 'POST') {
+      return res.status(200).json(await login(pool, req.body, requestContext(req)));
+    }
+
+    if (action === 'refresh' && req.method === 'POST') {
+      return res.status(200).json(await refresh(pool, req.body));
+    }
+
+    if (action === 'session' && req.method === 'GET') {
+      const user = await authenticate(pool, req);
+      return res.status(200).json({ user });
+    }
+
+    if (action === 'logout' && req.method === 'POST') {
+      await authenticate(pool, req);
+      await logout(pool, req.accessToken, requestContext(req));
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(404).json({ error: `Rota não encontrada: ${action}` });
+  } catch (error) {
+    return sendError(res, error);
+  }
+}
@@ -0,0 +1,22 @@
+import { authenticate } from '../../server/auth.js';
+import { requireAction } from '../../server/authorization.js';
+import { createPool } from '../../server/db.js';
+import { sendError } from '../../server/errors.js';
+import { lossesReport } from '../../server/reports.js';
+
+const pool = createPool();
+
+export default async function handler(req, res) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    await authenticate(pool, req);
+    requireAction(req.user, 'reports.view');
+    return res.status(200).json(await lossesReport(pool, req.query));
+  } catch (error) {
+    return sendError(res, error);
+  }
+}
@@ -0,0 +1,24 @@
+import { requestContext } from '../../server/audit.js';
+import { authenticate } from '../../server/auth.js';
+import { requireAction } from '../../server/authorization.js';
+import { createPool } from '../../server/db.js';
+import { sendError } from '../../server/errors.js';
+import { createSale } from '../../server/sales.js';
+
+const pool = createPool();
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    await authenticate(pool, req);
+    requireAction(req.user, 'sales.create');
+    const sale = await createSale(pool, { ...req.body, user_id: req.user.id }, requestContext(req));
+    return res.status(201).json(sale);
+  } catch (error) {
+    return sendError(res, error);
+  }
+}
@@ -0,0 +1,31 @@
+import { requestContext } from '../../server/audit.js';
+import { authenticate } from '../../server/auth.js';
+import { requireAction } from '../../server/authorization.js';
+import { createPool } from '../../server/db.js';
+import { sendError } from '../../server/errors.js';
+import { runStocktakeAction, stocktakeActionPermission } from '../../server/stocktakes.js';
+
+const pool = createPool();
+
+export default async function handler(req, res) {
+  const { action } = req.query;
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    await authenticate(pool, req);
+    requireAction(req.user, stocktakeActionPermission(action));
+    const stocktake = await runStocktakeAction(
+      pool,
+      action,
+      { ...req.body, user_id: req.user.id },
+      requestContext(req)
+    );
+    return res.status(200).json(stocktake);
+  } catch (error) {
+    return sendError(res, error);
+  }
+}
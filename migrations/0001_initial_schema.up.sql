@@ -1,14 +1,34 @@
--- Schema do Banco de Dados Neon para Market PI
--- Execute este script na sua instância do Neon
+-- Schema inicial do sistema (antigo neon-schema.sql).
+-- Escrita de forma idempotente para poder ser aplicada em bancos já criados
+-- pelos scripts antigos (neon-schema.sql ou database-schema.sql).
 
--- Criar enum para tipos de movimento
-CREATE TYPE movement_type AS ENUM ('entrada', 'saida', 'ajuste', 'inventario');
+-- Tipos enum
+DO $$
+BEGIN
+  CREATE TYPE movement_type AS ENUM ('entrada', 'saida', 'ajuste', 'inventario');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE TYPE user_role AS ENUM ('admin', 'gestor');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
 
--- Criar enum para roles de usuários
-CREATE TYPE user_role AS ENUM ('admin', 'gestor');
+-- Bancos criados pelo database-schema.sql guardavam os usuários em "users"
+DO $$
+BEGIN
+  IF to_regclass('public.users') IS NOT NULL AND to_regclass('public.profiles') IS NULL THEN
+    ALTER TABLE users RENAME TO profiles;
+    ALTER TABLE profiles RENAME COLUMN password TO password_hash;
+    ALTER TABLE profiles ALTER COLUMN password_hash DROP NOT NULL;
+    ALTER TABLE profiles ADD COLUMN email VARCHAR(255) UNIQUE;
+    DROP TRIGGER IF EXISTS update_users_updated_at ON profiles;
+  END IF;
+END $$;
 
 -- Tabela de perfis de usuários
-CREATE TABLE profiles (
+CREATE TABLE IF NOT EXISTS profiles (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   full_name VARCHAR(255) NOT NULL,
   email VARCHAR(255) UNIQUE,
@@ -19,8 +39,20 @@ CREATE TABLE profiles (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
 );
 
+-- Sessões de autenticação (tokens opacos, armazenados como hash SHA-256)
+CREATE TABLE IF NOT EXISTS sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  access_token_hash VARCHAR(64) NOT NULL UNIQUE,
+  refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,
+  access_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  refresh_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
 -- Tabela de categorias
-CREATE TABLE categories (
+CREATE TABLE IF NOT EXISTS categories (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   name VARCHAR(255) NOT NULL UNIQUE,
   description TEXT,
@@ -29,7 +61,7 @@ CREATE TABLE categories (
 );
 
 -- Tabela de fornecedores
-CREATE TABLE suppliers (
+CREATE TABLE IF NOT EXISTS suppliers (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   name VARCHAR(255) NOT NULL UNIQUE,
   contact_name VARCHAR(255),
@@ -41,7 +73,7 @@ CREATE TABLE suppliers (
 );
 
 -- Tabela de produtos
-CREATE TABLE products (
+CREATE TABLE IF NOT EXISTS products (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   name VARCHAR(255) NOT NULL,
   qr_code VARCHAR(255) NOT NULL UNIQUE,
@@ -63,7 +95,7 @@ CREATE TABLE products (
 );
 
 -- Tabela de movimentações de estoque
-CREATE TABLE stock_movements (
+CREATE TABLE IF NOT EXISTS stock_movements (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   product_id UUID NOT NULL REFERENCES products(id),
   user_id UUID NOT NULL REFERENCES profiles(id),
@@ -76,7 +108,7 @@ CREATE TABLE stock_movements (
 );
 
 -- Tabela de logs de auditoria
-CREATE TABLE audit_logs (
+CREATE TABLE IF NOT EXISTS audit_logs (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID REFERENCES profiles(id),
   action VARCHAR(50) NOT NULL,
@@ -86,15 +118,16 @@ CREATE TABLE audit_logs (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
 );
 
--- Criar índices para melhor performance
-CREATE INDEX idx_products_category_id ON products(category_id);
-CREATE INDEX idx_products_supplier_id ON products(supplier_id);
-CREATE INDEX idx_products_qr_code ON products(qr_code);
-CREATE INDEX idx_stock_movements_product_id ON stock_movements(product_id);
-CREATE INDEX idx_stock_movements_user_id ON stock_movements(user_id);
-CREATE INDEX idx_stock_movements_created_at ON stock_movements(created_at);
-CREATE INDEX idx_audit_logs_user_id ON audit_logs(user_id);
-CREATE INDEX idx_audit_logs_created_at ON audit_logs(created_at);
+-- Índices
+CREATE INDEX IF NOT EXISTS idx_products_category_id ON products(category_id);
+CREATE INDEX IF NOT EXISTS idx_products_supplier_id ON products(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_products_qr_code ON products(qr_code);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product_id ON stock_movements(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_user_id ON stock_movements(user_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_created_at ON stock_movements(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON audit_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON audit_logs(created_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
 
 -- Função para atualizar updated_at automaticamente
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -106,14 +139,18 @@ END;
 $$ language 'plpgsql';
 
 -- Triggers para atualizar updated_at
+DROP TRIGGER IF EXISTS update_profiles_updated_at ON profiles;
 CREATE TRIGGER update_profiles_updated_at BEFORE UPDATE ON profiles
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_categories_updated_at ON categories;
 CREATE TRIGGER update_categories_updated_at BEFORE UPDATE ON categories
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_suppliers_updated_at ON suppliers;
 CREATE TRIGGER update_suppliers_updated_at BEFORE UPDATE ON suppliers
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_products_updated_at ON products;
 CREATE TRIGGER update_products_updated_at BEFORE UPDATE ON products
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,31 @@
+DROP INDEX IF EXISTS idx_audit_logs_action;
+DROP INDEX IF EXISTS idx_audit_logs_table_name;
+DROP INDEX IF EXISTS idx_stock_movements_type;
+DROP INDEX IF EXISTS idx_products_barcode;
+DROP INDEX IF EXISTS idx_products_status;
+
+ALTER TABLE products
+  DROP CONSTRAINT IF EXISTS products_supplier_id_fkey,
+  ADD CONSTRAINT products_supplier_id_fkey
+    FOREIGN KEY (supplier_id) REFERENCES suppliers(id);
+ALTER TABLE products
+  DROP CONSTRAINT IF EXISTS products_category_id_fkey,
+  ADD CONSTRAINT products_category_id_fkey
+    FOREIGN KEY (category_id) REFERENCES categories(id);
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS products_status_check;
+
+ALTER TABLE products
+  ALTER COLUMN cost_price DROP NOT NULL,
+  ALTER COLUMN sale_price DROP NOT NULL,
+  ALTER COLUMN current_stock DROP NOT NULL,
+  ALTER COLUMN minimum_stock DROP NOT NULL,
+  ALTER COLUMN status DROP NOT NULL;
+ALTER TABLE profiles ALTER COLUMN role DROP NOT NULL;
+
+ALTER TABLE audit_logs
+  DROP COLUMN IF EXISTS user_agent,
+  DROP COLUMN IF EXISTS ip_address;
+
+DROP TRIGGER IF EXISTS trigger_update_product_stock ON stock_movements;
+DROP FUNCTION IF EXISTS update_product_stock();
@@ -0,0 +1,63 @@
+-- Traz para o schema único o que só existia no antigo database-schema.sql
+
+-- products.current_stock acompanha o new_stock de cada movimentação
+-- (POST /api/movements depende deste trigger)
+CREATE OR REPLACE FUNCTION update_product_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE products
+  SET current_stock = NEW.new_stock,
+      updated_at = now()
+  WHERE id = NEW.product_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_product_stock ON stock_movements;
+CREATE TRIGGER trigger_update_product_stock
+AFTER INSERT ON stock_movements
+FOR EACH ROW
+EXECUTE FUNCTION update_product_stock();
+
+-- Origem da requisição nos logs de auditoria
+ALTER TABLE audit_logs
+  ADD COLUMN IF NOT EXISTS ip_address INET,
+  ADD COLUMN IF NOT EXISTS user_agent TEXT;
+
+-- Colunas com valor padrão deixam de aceitar NULL
+UPDATE profiles SET role = 'gestor' WHERE role IS NULL;
+UPDATE products SET
+  cost_price = COALESCE(cost_price, 0),
+  sale_price = COALESCE(sale_price, 0),
+  current_stock = COALESCE(current_stock, 0),
+  minimum_stock = COALESCE(minimum_stock, 0),
+  status = COALESCE(status, 'ativo')
+WHERE cost_price IS NULL OR sale_price IS NULL OR current_stock IS NULL
+   OR minimum_stock IS NULL OR status IS NULL;
+
+ALTER TABLE profiles ALTER COLUMN role SET NOT NULL;
+ALTER TABLE products
+  ALTER COLUMN cost_price SET NOT NULL,
+  ALTER COLUMN sale_price SET NOT NULL,
+  ALTER COLUMN current_stock SET NOT NULL,
+  ALTER COLUMN minimum_stock SET NOT NULL,
+  ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS products_status_check;
+ALTER TABLE products ADD CONSTRAINT products_status_check CHECK (status IN ('ativo', 'inativo'));
+
+-- Excluir categoria/fornecedor desvincula os produtos em vez de falhar
+ALTER TABLE products
+  DROP CONSTRAINT IF EXISTS products_category_id_fkey,
+  ADD CONSTRAINT products_category_id_fkey
+    FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL;
+ALTER TABLE products
+  DROP CONSTRAINT IF EXISTS products_supplier_id_fkey,
+  ADD CONSTRAINT products_supplier_id_fkey
+    FOREIGN KEY (supplier_id) REFERENCES suppliers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_products_status ON products(status);
+CREATE INDEX IF NOT EXISTS idx_products_barcode ON products(barcode);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_type ON stock_movements(type);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_table_name ON audit_logs(table_name);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action);
@@ -0,0 +1,30 @@
+CREATE OR REPLACE FUNCTION update_product_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE products
+  SET current_stock = NEW.new_stock,
+      updated_at = now()
+  WHERE id = NEW.product_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- products.location volta como o nome do local com maior saldo
+ALTER TABLE products ADD COLUMN IF NOT EXISTS location VARCHAR(255);
+
+UPDATE products p
+SET location = (
+  SELECT l.name
+  FROM stock_balances b
+  JOIN locations l ON l.id = b.location_id
+  WHERE b.product_id = p.id AND b.quantity > 0
+  ORDER BY b.quantity DESC, l.name
+  LIMIT 1
+);
+
+DROP INDEX IF EXISTS idx_stock_movements_location;
+ALTER TABLE stock_movements DROP COLUMN IF EXISTS location_id;
+
+DROP TABLE IF EXISTS stock_balances;
+DROP TABLE IF EXISTS locations;
+DROP TABLE IF EXISTS warehouses;
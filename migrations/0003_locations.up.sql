@@ -0,0 +1,103 @@
+-- Estoque por local: depósitos (lojas, centros de distribuição) e seus locais
+-- (corredores, prateleiras). O saldo de cada produto passa a ser guardado por
+-- local, e products.current_stock vira o total derivado desses saldos.
+
+CREATE TABLE IF NOT EXISTS warehouses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL UNIQUE,
+  address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (warehouse_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS stock_balances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES locations(id),
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (product_id, location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_locations_warehouse ON locations(warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_stock_balances_location ON stock_balances(location_id);
+
+DROP TRIGGER IF EXISTS update_warehouses_updated_at ON warehouses;
+CREATE TRIGGER update_warehouses_updated_at BEFORE UPDATE ON warehouses
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_locations_updated_at ON locations;
+CREATE TRIGGER update_locations_updated_at BEFORE UPDATE ON locations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- O estoque existente vai para um depósito padrão. O texto livre de
+-- products.location vira um local desse depósito; produtos sem localização
+-- ficam no local "Geral".
+INSERT INTO warehouses (name) VALUES ('Loja principal');
+
+INSERT INTO locations (warehouse_id, name)
+SELECT w.id, 'Geral' FROM warehouses w WHERE w.name = 'Loja principal';
+
+INSERT INTO locations (warehouse_id, name)
+SELECT DISTINCT w.id, trim(p.location)
+FROM products p
+JOIN warehouses w ON w.name = 'Loja principal'
+WHERE trim(COALESCE(p.location, '')) NOT IN ('', 'Geral');
+
+CREATE TEMPORARY TABLE product_default_location ON COMMIT DROP AS
+SELECT p.id AS product_id, l.id AS location_id
+FROM products p
+JOIN warehouses w ON w.name = 'Loja principal'
+JOIN locations l ON l.warehouse_id = w.id
+ AND l.name = COALESCE(NULLIF(trim(p.location), ''), 'Geral');
+
+INSERT INTO stock_balances (product_id, location_id, quantity)
+SELECT d.product_id, d.location_id, p.current_stock
+FROM product_default_location d
+JOIN products p ON p.id = d.product_id
+WHERE p.current_stock > 0;
+
+UPDATE products SET current_stock = 0 WHERE current_stock < 0;
+
+-- Cada movimentação pertence a um local; o histórico fica no local do produto
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES locations(id);
+
+UPDATE stock_movements m
+SET location_id = d.location_id
+FROM product_default_location d
+WHERE m.product_id = d.product_id AND m.location_id IS NULL;
+
+ALTER TABLE stock_movements ALTER COLUMN location_id SET NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_stock_movements_location ON stock_movements(location_id);
+
+ALTER TABLE products DROP COLUMN IF EXISTS location;
+
+-- previous_stock/new_stock passam a ser o saldo do local da movimentação.
+-- O trigger grava o saldo do local e recalcula o total do produto.
+CREATE OR REPLACE FUNCTION update_product_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO stock_balances (product_id, location_id, quantity)
+  VALUES (NEW.product_id, NEW.location_id, NEW.new_stock)
+  ON CONFLICT (product_id, location_id)
+  DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now();
+
+  UPDATE products
+  SET current_stock = (
+        SELECT COALESCE(SUM(quantity), 0) FROM stock_balances WHERE product_id = NEW.product_id
+      ),
+      updated_at = now()
+  WHERE id = NEW.product_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS idx_stock_movements_transfer;
+ALTER TABLE stock_movements DROP COLUMN IF EXISTS transfer_id;
+
+DROP TABLE IF EXISTS stock_transfer_items;
+DROP TABLE IF EXISTS stock_transfers;
+DROP TYPE IF EXISTS transfer_status;
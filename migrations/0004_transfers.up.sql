@@ -0,0 +1,40 @@
+-- Transferências de estoque entre locais (prateleiras ou filiais).
+-- O envio gera uma saída na origem e cada recebimento uma entrada no destino;
+-- as movimentações apontam para a transferência em stock_movements.transfer_id.
+
+CREATE TYPE transfer_status AS ENUM ('rascunho', 'em_transito', 'recebida');
+
+CREATE TABLE stock_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  origin_location_id UUID NOT NULL REFERENCES locations(id),
+  destination_location_id UUID NOT NULL REFERENCES locations(id),
+  status transfer_status NOT NULL DEFAULT 'rascunho',
+  notes TEXT,
+  created_by UUID REFERENCES profiles(id),
+  dispatched_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT stock_transfers_distinct_locations CHECK (origin_location_id <> destination_location_id)
+);
+
+CREATE TABLE stock_transfer_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_id UUID NOT NULL REFERENCES stock_transfers(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  received_quantity INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (transfer_id, product_id),
+  CONSTRAINT stock_transfer_items_received_check CHECK (received_quantity BETWEEN 0 AND quantity)
+);
+
+CREATE INDEX idx_stock_transfers_status ON stock_transfers(status);
+CREATE INDEX idx_stock_transfers_created_at ON stock_transfers(created_at DESC);
+CREATE INDEX idx_stock_transfer_items_transfer ON stock_transfer_items(transfer_id);
+
+CREATE TRIGGER update_stock_transfers_updated_at BEFORE UPDATE ON stock_transfers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE stock_movements ADD COLUMN transfer_id UUID REFERENCES stock_transfers(id);
+CREATE INDEX idx_stock_movements_transfer ON stock_movements(transfer_id);
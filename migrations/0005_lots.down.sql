@@ -0,0 +1,18 @@
+-- products volta a guardar um único lote: o próximo a vencer
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS batch_number VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS expiration_date DATE;
+
+UPDATE products p
+SET batch_number = l.lot_number,
+    expiration_date = l.expiration_date
+FROM (
+  SELECT DISTINCT ON (product_id) product_id, lot_number, expiration_date
+  FROM lots
+  WHERE quantity > 0
+  ORDER BY product_id, expiration_date NULLS LAST, created_at
+) l
+WHERE l.product_id = p.id;
+
+DROP TABLE IF EXISTS stock_movement_lots;
+DROP TABLE IF EXISTS lots;
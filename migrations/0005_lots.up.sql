@@ -0,0 +1,44 @@
+-- Lotes com validade própria. Cada lote pertence a um produto em um local, e a
+-- soma dos lotes do local acompanha stock_balances.quantity. As movimentações
+-- registram em stock_movement_lots quanto entrou ou saiu de cada lote.
+
+CREATE TABLE lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES locations(id),
+  lot_number VARCHAR(50),
+  expiration_date DATE,
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Um lote por número/validade em cada local (NULLs contam como iguais)
+CREATE UNIQUE INDEX idx_lots_identity ON lots (
+  product_id, location_id, COALESCE(lot_number, ''), COALESCE(expiration_date, 'infinity'::date)
+);
+CREATE INDEX idx_lots_expiration ON lots(expiration_date) WHERE quantity > 0;
+
+CREATE TRIGGER update_lots_updated_at BEFORE UPDATE ON lots
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE stock_movement_lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  movement_id UUID NOT NULL REFERENCES stock_movements(id) ON DELETE CASCADE,
+  lot_id UUID NOT NULL REFERENCES lots(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0)
+);
+
+CREATE INDEX idx_stock_movement_lots_movement ON stock_movement_lots(movement_id);
+CREATE INDEX idx_stock_movement_lots_lot ON stock_movement_lots(lot_id);
+
+-- O saldo atual de cada local vira um lote com o lote/validade do produto
+INSERT INTO lots (product_id, location_id, lot_number, expiration_date, quantity)
+SELECT b.product_id, b.location_id, NULLIF(trim(p.batch_number), ''), p.expiration_date, b.quantity
+FROM stock_balances b
+JOIN products p ON p.id = b.product_id
+WHERE b.quantity > 0;
+
+ALTER TABLE products
+  DROP COLUMN IF EXISTS batch_number,
+  DROP COLUMN IF EXISTS expiration_date;
@@ -0,0 +1,6 @@
+-- Janela de alerta de vencimento por categoria: lotes que vencem dentro dela
+-- aparecem na central de vencimentos. Produtos sem categoria usam 30 dias.
+
+ALTER TABLE categories
+  ADD COLUMN expiration_warning_days INTEGER NOT NULL DEFAULT 30
+  CHECK (expiration_warning_days BETWEEN 1 AND 365);
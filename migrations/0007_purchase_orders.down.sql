@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS idx_stock_movements_purchase_order;
+ALTER TABLE stock_movements DROP COLUMN IF EXISTS purchase_order_id;
+
+DROP TABLE IF EXISTS purchase_order_items;
+DROP TABLE IF EXISTS purchase_orders;
+DROP TYPE IF EXISTS purchase_order_status;
@@ -0,0 +1,45 @@
+-- Pedidos de compra a fornecedores. O rascunho é enviado ao fornecedor e
+-- cada recebimento gera entradas no local escolhido, apontando para o pedido
+-- em stock_movements.purchase_order_id, e atualiza o custo do produto.
+
+CREATE TYPE purchase_order_status AS ENUM (
+  'rascunho', 'enviado', 'parcialmente_recebido', 'recebido', 'cancelado'
+);
+
+CREATE TABLE purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  number INTEGER GENERATED ALWAYS AS IDENTITY UNIQUE,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id),
+  status purchase_order_status NOT NULL DEFAULT 'rascunho',
+  expected_date DATE,
+  notes TEXT,
+  created_by UUID REFERENCES profiles(id),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  received_quantity INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (order_id, product_id),
+  CONSTRAINT purchase_order_items_received_check CHECK (received_quantity BETWEEN 0 AND quantity)
+);
+
+CREATE INDEX idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX idx_purchase_orders_supplier ON purchase_orders(supplier_id);
+CREATE INDEX idx_purchase_orders_created_at ON purchase_orders(created_at DESC);
+CREATE INDEX idx_purchase_order_items_order ON purchase_order_items(order_id);
+
+CREATE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE stock_movements ADD COLUMN purchase_order_id UUID REFERENCES purchase_orders(id);
+CREATE INDEX idx_stock_movements_purchase_order ON stock_movements(purchase_order_id);
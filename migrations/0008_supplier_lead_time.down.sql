@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_stock_movements_product_type_created;
+ALTER TABLE suppliers DROP COLUMN IF EXISTS lead_time_days;
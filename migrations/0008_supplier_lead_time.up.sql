@@ -0,0 +1,10 @@
+-- Prazo de entrega de cada fornecedor, em dias corridos. Usado pelas sugestões
+-- de reposição para cobrir o consumo até a mercadoria chegar.
+
+ALTER TABLE suppliers
+  ADD COLUMN lead_time_days INTEGER NOT NULL DEFAULT 7
+  CHECK (lead_time_days BETWEEN 0 AND 365);
+
+-- Saídas por produto e data, consultadas no cálculo do consumo médio
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product_type_created
+  ON stock_movements(product_id, type, created_at);
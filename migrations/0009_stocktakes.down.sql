@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS idx_stock_movements_stocktake;
+ALTER TABLE stock_movements DROP COLUMN IF EXISTS stocktake_id;
+
+DROP TABLE IF EXISTS stocktake_items;
+DROP TABLE IF EXISTS stocktakes;
+DROP TYPE IF EXISTS stocktake_status;
@@ -0,0 +1,47 @@
+-- Sessões de inventário (contagem física) de um local, opcionalmente restritas
+-- a uma categoria. A contagem é cega: os itens guardam apenas o que foi contado.
+-- Na aprovação cada item contado vira uma movimentação 'inventario', apontando
+-- para a sessão em stock_movements.stocktake_id.
+
+CREATE TYPE stocktake_status AS ENUM ('em_contagem', 'aprovado', 'cancelado');
+
+CREATE TABLE stocktakes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  number INTEGER GENERATED ALWAYS AS IDENTITY UNIQUE,
+  location_id UUID NOT NULL REFERENCES locations(id),
+  category_id UUID REFERENCES categories(id),
+  status stocktake_status NOT NULL DEFAULT 'em_contagem',
+  notes TEXT,
+  created_by UUID REFERENCES profiles(id),
+  approved_by UUID REFERENCES profiles(id),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- counted_quantity nulo = produto do escopo ainda não contado
+CREATE TABLE stocktake_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stocktake_id UUID NOT NULL REFERENCES stocktakes(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  counted_quantity INTEGER CHECK (counted_quantity >= 0),
+  counted_by UUID REFERENCES profiles(id),
+  counted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (stocktake_id, product_id)
+);
+
+CREATE INDEX idx_stocktakes_status ON stocktakes(status);
+CREATE INDEX idx_stocktakes_created_at ON stocktakes(created_at DESC);
+CREATE INDEX idx_stocktake_items_stocktake ON stocktake_items(stocktake_id);
+
+-- Uma contagem aberta por local, para que duas equipes não contem o mesmo estoque
+CREATE UNIQUE INDEX idx_stocktakes_open_location ON stocktakes(location_id)
+  WHERE status = 'em_contagem';
+
+CREATE TRIGGER update_stocktakes_updated_at BEFORE UPDATE ON stocktakes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE stock_movements ADD COLUMN stocktake_id UUID REFERENCES stocktakes(id);
+CREATE INDEX idx_stock_movements_stocktake ON stock_movements(stocktake_id);
@@ -0,0 +1,5 @@
+DROP INDEX IF EXISTS idx_stock_movements_reason;
+ALTER TABLE stock_movements DROP COLUMN IF EXISTS unit_cost;
+ALTER TABLE stock_movements DROP COLUMN IF EXISTS reason_id;
+
+DROP TABLE IF EXISTS movement_reasons;
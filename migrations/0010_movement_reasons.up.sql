@@ -0,0 +1,57 @@
+-- Catálogo de motivos por tipo de movimentação. Saídas e ajustes exigem um
+-- motivo; os marcados com is_loss entram no relatório de perdas, valorizados
+-- pelo custo gravado em stock_movements.unit_cost no momento da movimentação.
+
+CREATE TABLE movement_reasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  movement_type movement_type NOT NULL,
+  code VARCHAR(30) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  is_loss BOOLEAN NOT NULL DEFAULT false,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (movement_type, code)
+);
+
+CREATE TRIGGER update_movement_reasons_updated_at BEFORE UPDATE ON movement_reasons
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO movement_reasons (movement_type, code, name, is_loss) VALUES
+  ('entrada', 'compra', 'Compra', false),
+  ('entrada', 'devolucao_cliente', 'Devolução de cliente', false),
+  ('entrada', 'bonificacao', 'Bonificação do fornecedor', false),
+  ('saida', 'venda', 'Venda', false),
+  ('saida', 'devolucao_fornecedor', 'Devolução ao fornecedor', false),
+  ('saida', 'consumo_interno', 'Consumo interno', true),
+  ('saida', 'quebra', 'Avaria / quebra', true),
+  ('saida', 'furto', 'Furto / roubo', true),
+  ('saida', 'vencimento', 'Produto vencido', true),
+  ('saida', 'descarte_preventivo', 'Descarte preventivo (próximo ao vencimento)', true),
+  ('saida', 'doacao', 'Doação', true),
+  ('ajuste', 'correcao', 'Correção de lançamento', false),
+  ('ajuste', 'quebra', 'Avaria / quebra', true),
+  ('ajuste', 'furto', 'Furto / roubo', true),
+  ('ajuste', 'vencimento', 'Produto vencido', true),
+  ('ajuste', 'extravio', 'Extravio', true),
+  ('inventario', 'contagem', 'Contagem física', false);
+
+ALTER TABLE stock_movements ADD COLUMN reason_id UUID REFERENCES movement_reasons(id);
+ALTER TABLE stock_movements ADD COLUMN unit_cost DECIMAL(10,2);
+CREATE INDEX idx_stock_movements_reason ON stock_movements(reason_id);
+
+-- Histórico: custo atual do produto e motivos reconhecíveis pelo texto livre
+UPDATE stock_movements sm SET unit_cost = p.cost_price FROM products p WHERE p.id = sm.product_id;
+
+UPDATE stock_movements sm SET reason_id = r.id
+FROM movement_reasons r
+WHERE sm.type = 'saida' AND r.movement_type = 'saida' AND (
+  (r.code = 'vencimento' AND sm.reason = 'Perda: Produto vencido') OR
+  (r.code = 'descarte_preventivo' AND sm.reason = 'Perda: Descarte preventivo (próximo ao vencimento)') OR
+  (r.code = 'quebra' AND sm.reason = 'Perda: Avaria') OR
+  (r.code = 'doacao' AND sm.reason = 'Perda: Doação')
+);
+
+UPDATE stock_movements sm SET reason_id = r.id
+FROM movement_reasons r
+WHERE sm.purchase_order_id IS NOT NULL AND r.movement_type = 'entrada' AND r.code = 'compra';
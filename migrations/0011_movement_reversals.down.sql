@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS idx_stock_movements_reversal_of;
+ALTER TABLE stock_movements DROP COLUMN IF EXISTS reversal_of;
+
+UPDATE stock_movements SET reason_id = NULL
+WHERE reason_id IN (SELECT id FROM movement_reasons WHERE code = 'estorno');
+DELETE FROM movement_reasons WHERE code = 'estorno';
@@ -0,0 +1,12 @@
+-- Estorno: contramovimentação ligada à original por reversal_of. O índice
+-- único impede estornar a mesma movimentação duas vezes, mesmo em requisições
+-- simultâneas.
+
+ALTER TABLE stock_movements ADD COLUMN reversal_of UUID REFERENCES stock_movements(id);
+CREATE UNIQUE INDEX idx_stock_movements_reversal_of
+  ON stock_movements(reversal_of) WHERE reversal_of IS NOT NULL;
+
+INSERT INTO movement_reasons (movement_type, code, name, is_loss) VALUES
+  ('entrada', 'estorno', 'Estorno de saída', false),
+  ('saida', 'estorno', 'Estorno de entrada', false)
+ON CONFLICT (movement_type, code) DO NOTHING;
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS movement_approvals;
+DROP TABLE IF EXISTS approval_settings;
+DROP TYPE IF EXISTS approval_status;
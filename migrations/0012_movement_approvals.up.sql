@@ -0,0 +1,50 @@
+-- Aprovação de ajustes grandes. Ajustes e inventários lançados por quem não
+-- aprova e que passam de um dos limites de approval_settings viram uma
+-- solicitação pendente; o estoque só muda quando um administrador aprova,
+-- gerando a movimentação (movement_id).
+
+CREATE TYPE approval_status AS ENUM ('pendente', 'aprovado', 'rejeitado');
+
+-- Linha única; limite nulo = critério desligado
+CREATE TABLE approval_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quantity_threshold INTEGER CHECK (quantity_threshold > 0),
+  value_threshold DECIMAL(10,2) CHECK (value_threshold > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TRIGGER update_approval_settings_updated_at BEFORE UPDATE ON approval_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO approval_settings (quantity_threshold, value_threshold) VALUES (100, 1000);
+
+-- quantity é o estoque final pedido (ajuste/inventario); previous_stock e
+-- unit_cost são os do momento da solicitação, para dimensionar a diferença
+CREATE TABLE movement_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id),
+  location_id UUID NOT NULL REFERENCES locations(id),
+  type movement_type NOT NULL CHECK (type IN ('ajuste', 'inventario')),
+  quantity INTEGER NOT NULL CHECK (quantity >= 0),
+  previous_stock INTEGER NOT NULL,
+  unit_cost DECIMAL(10,2),
+  reason_id UUID REFERENCES movement_reasons(id),
+  reason TEXT,
+  lot_number VARCHAR(50),
+  expiration_date DATE,
+  lots JSONB,
+  status approval_status NOT NULL DEFAULT 'pendente',
+  requested_by UUID NOT NULL REFERENCES profiles(id),
+  reviewed_by UUID REFERENCES profiles(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comment TEXT,
+  movement_id UUID REFERENCES stock_movements(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TRIGGER update_movement_approvals_updated_at BEFORE UPDATE ON movement_approvals
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX idx_movement_approvals_status ON movement_approvals(status, created_at DESC);
@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS idx_stock_movements_sale;
+ALTER TABLE stock_movements DROP COLUMN IF EXISTS sale_id;
+
+DROP TABLE IF EXISTS sale_items;
+DROP TABLE IF EXISTS sales;
+DROP TYPE IF EXISTS payment_method;
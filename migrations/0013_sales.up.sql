@@ -0,0 +1,35 @@
+-- Vendas do caixa (modo PDV do scanner). Cada venda grava o documento com os
+-- itens ao preço de venda do momento e uma saída por item no local do caixa,
+-- apontando para a venda em stock_movements.sale_id.
+
+CREATE TYPE payment_method AS ENUM ('dinheiro', 'cartao_debito', 'cartao_credito', 'pix');
+
+CREATE TABLE sales (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  number INTEGER GENERATED ALWAYS AS IDENTITY UNIQUE,
+  location_id UUID NOT NULL REFERENCES locations(id),
+  payment_method payment_method NOT NULL,
+  total DECIMAL(12,2) NOT NULL CHECK (total >= 0),
+  -- Valor entregue pelo cliente, só em dinheiro; o troco é a diferença para o total
+  amount_paid DECIMAL(12,2) CHECK (amount_paid >= total),
+  notes TEXT,
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE sale_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10,2) NOT NULL CHECK (unit_price >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (sale_id, product_id)
+);
+
+CREATE INDEX idx_sales_created_at ON sales(created_at DESC);
+CREATE INDEX idx_sales_location ON sales(location_id);
+CREATE INDEX idx_sale_items_sale ON sale_items(sale_id);
+
+ALTER TABLE stock_movements ADD COLUMN sale_id UUID REFERENCES sales(id);
+CREATE INDEX idx_stock_movements_sale ON stock_movements(sale_id);
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_products_supplier_code;
+ALTER TABLE products DROP COLUMN IF EXISTS supplier_code;
@@ -0,0 +1,5 @@
+-- Código do produto no catálogo do fornecedor (o que vem impresso na caixa ou
+-- na nota), usado junto com qr_code e barcode na busca por código lido.
+
+ALTER TABLE products ADD COLUMN supplier_code VARCHAR(50);
+CREATE INDEX idx_products_supplier_code ON products(supplier_code);
@@ -0,0 +1,3 @@
+UPDATE stock_movements SET reason_id = NULL
+WHERE reason_id IN (SELECT id FROM movement_reasons WHERE movement_type = 'saida' AND code = 'extravio');
+DELETE FROM movement_reasons WHERE movement_type = 'saida' AND code = 'extravio';
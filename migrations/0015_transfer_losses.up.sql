@@ -0,0 +1,6 @@
+-- Transferência encerrada com faltas: o que não chegou sai do destino como
+-- extravio, um motivo de perda, para aparecer no relatório de perdas.
+
+INSERT INTO movement_reasons (movement_type, code, name, is_loss) VALUES
+  ('saida', 'extravio', 'Extravio', true)
+ON CONFLICT (movement_type, code) DO NOTHING;
@@ -0,0 +1,330 @@
+// Gera src/integrations/supabase/types.ts a partir do schema do Postgres.
+// Somente tabelas e colunas expostas pela API (server/registry.js) entram no tipo.
+// Uso: npm run gen:types
+import { Pool } from 'pg';
+import dotenv from 'dotenv';
+import { writeFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { schema } from '../server/registry.js';
+
+export const OUTPUT = fileURLToPath(new URL('../src/integrations/supabase/types.ts', import.meta.url));
+
+const TS_TYPES = {
+  bool: 'boolean',
+  int2: 'number',
+  int4: 'number',
+  int8: 'number',
+  float4: 'number',
+  float8: 'number',
+  // O pool do servidor converte NUMERIC para number (createPool em server/db.js)
+  numeric: 'number',
+  json: 'Json',
+  jsonb: 'Json',
+};
+
+export async function introspect(pool) {
+  const columns = await pool.query(
+    `SELECT table_name, column_name, udt_name, is_nullable, column_default, is_identity
+     FROM information_schema.columns
+     WHERE table_schema = 'public'
+     ORDER BY table_name, column_name`
+  );
+  const enums = await pool.query(
+    `SELECT t.typname AS name, e.enumlabel AS value
+     FROM pg_type t
+     JOIN pg_enum e ON e.enumtypid = t.oid
+     JOIN pg_namespace n ON n.oid = t.typnamespace
+     WHERE n.nspname = 'public'
+     ORDER BY t.typname, e.enumsortorder`
+  );
+  const foreignKeys = await pool.query(
+    `SELECT c.conname AS name, src.relname AS table_name,
+            array_agg(sa.attname::text ORDER BY k.ord) AS columns,
+            dst.relname AS referenced_table,
+            array_agg(da.attname::text ORDER BY k.ord) AS referenced_columns
+     FROM pg_constraint c
+     JOIN pg_class src ON src.oid = c.conrelid
+     JOIN pg_class dst ON dst.oid = c.confrelid
+     JOIN pg_namespace n ON n.oid = c.connamespace
+     CROSS JOIN LATERAL unnest(c.conkey, c.confkey) WITH ORDINALITY AS k(src_attnum, dst_attnum, ord)
+     JOIN pg_attribute sa ON sa.attrelid = c.conrelid AND sa.attnum = k.src_attnum
+     JOIN pg_attribute da ON da.attrelid = c.confrelid AND da.attnum = k.dst_attnum
+     WHERE c.contype = 'f' AND n.nspname = 'public'
+     GROUP BY c.conname, src.relname, dst.relname
+     ORDER BY src.relname, c.conname`
+  );
+
+  return { columns: columns.rows, enums: enums.rows, foreignKeys: foreignKeys.rows };
+}
+
+function tsType(column, enumNames) {
+  const isArray = column.udt_name.startsWith('_');
+  const udt = isArray ? column.udt_name.slice(1) : column.udt_name;
+  const base = enumNames.has(udt)
+    ? `Database["public"]["Enums"]["${udt}"]`
+    : TS_TYPES[udt] || 'string';
+  return isArray ? `${base}[]` : base;
+}
+
+// Confere o registro da API contra o banco; divergências são só avisos
+function checkRegistry(columnsByTable) {
+  const warnings = [];
+  for (const [table, def] of Object.entries(schema)) {
+    const dbColumns = columnsByTable.get(table);
+    if (!dbColumns) {
+      warnings.push(`Tabela ${table} está no registro mas não existe no banco`);
+      continue;
+    }
+    const names = dbColumns.map(c => c.column_name);
+    for (const column of def.columns) {
+      if (!names.includes(column)) warnings.push(`Coluna ${table}.${column} não existe no banco`);
+    }
+    for (const column of names) {
+      if (!def.columns.includes(column)) warnings.push(`Coluna ${table}.${column} não está no registro`);
+    }
+  }
+  return warnings;
+}
+
+export function render({ columns, enums, foreignKeys }) {
+  const enumValues = new Map();
+  for (const { name, value } of enums) {
+    if (!enumValues.has(name)) enumValues.set(name, []);
+    enumValues.get(name).push(value);
+  }
+  const enumNames = new Set(enumValues.keys());
+
+  const columnsByTable = new Map();
+  for (const column of columns) {
+    if (!columnsByTable.has(column.table_name)) columnsByTable.set(column.table_name, []);
+    columnsByTable.get(column.table_name).push(column);
+  }
+
+  const tables = Object.keys(schema).filter(t => columnsByTable.has(t)).sort();
+  const lines = [];
+
+  for (const table of tables) {
+    const visible = columnsByTable.get(table).filter(
+      c => schema[table].columns.includes(c.column_name) && !schema[table].hidden.includes(c.column_name)
+    );
+    const field = (c, optional) => {
+      const type = tsType(c, enumNames) + (c.is_nullable === 'YES' ? ' | null' : '');
+      return `          ${c.column_name}${optional ? '?' : ''}: ${type}`;
+    };
+    const hasDefault = c => c.is_nullable === 'YES' || c.column_default !== null || c.is_identity === 'YES';
+
+    lines.push(`      ${table}: {`);
+    lines.push('        Row: {', ...visible.map(c => field(c, false)), '        }');
+    lines.push('        Insert: {', ...visible.map(c => field(c, hasDefault(c))), '        }');
+    lines.push('        Update: {', ...visible.map(c => field(c, true)), '        }');
+
+    const relationships = foreignKeys.filter(fk => fk.table_name === table && tables.includes(fk.referenced_table));
+    if (relationships.length === 0) {
+      lines.push('        Relationships: []');
+    } else {
+      lines.push('        Relationships: [');
+      for (const fk of relationships) {
+        const list = values => `[${values.map(v => `"${v}"`).join(', ')}]`;
+        lines.push(
+          '          {',
+          `            foreignKeyName: "${fk.name}"`,
+          `            columns: ${list(fk.columns)}`,
+          '            isOneToOne: false',
+          `            referencedRelation: "${fk.referenced_table}"`,
+          `            referencedColumns: ${list(fk.referenced_columns)}`,
+          '          },'
+        );
+      }
+      lines.push('        ]');
+    }
+    lines.push('      }');
+  }
+
+  const enumTypes = [...enumValues].map(
+    ([name, values]) => `      ${name}: ${values.map(v => `"${v}"`).join(' | ')}`
+  );
+  const enumConstants = [...enumValues].map(
+    ([name, values]) => `      ${name}: [${values.map(v => `"${v}"`).join(', ')}],`
+  );
+
+  const source = `// Gerado por scripts/generate-types.js a partir do banco. Não edite à mão:
+// rode \`npm run gen:types\` após alterar o schema ou server/registry.js.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+${lines.join('\n')}
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      [_ in never]: never
+    }
+    Enums: {
+${enumTypes.join('\n')}
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {
+${enumConstants.join('\n')}
+    },
+  },
+} as const
+`;
+
+  return { source, warnings: checkRegistry(columnsByTable) };
+}
+
+// Executado via npm run gen:types (não ao ser importado)
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  dotenv.config();
+
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+    ssl: { rejectUnauthorized: false },
+  });
+
+  try {
+    const { source, warnings } = render(await introspect(pool));
+    warnings.forEach(w => console.warn(`Aviso: ${w}`));
+    await writeFile(OUTPUT, source);
+    console.log(`Tipos gerados em ${OUTPUT}`);
+  } catch (error) {
+    console.error('Erro ao gerar tipos:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
@@ -0,0 +1,36 @@
+// Converte senhas gravadas em texto puro em profiles.password_hash para bcrypt.
+// Uso: npm run hash-passwords
+import { Pool } from 'pg';
+import dotenv from 'dotenv';
+import { hashPassword, isPasswordHash } from '../server/auth.js';
+
+dotenv.config();
+
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+  ssl: { rejectUnauthorized: false },
+});
+
+try {
+  const { rows } = await pool.query(
+    'SELECT id, username, password_hash FROM profiles WHERE password_hash IS NOT NULL'
+  );
+
+  let updated = 0;
+  for (const row of rows) {
+    if (isPasswordHash(row.password_hash)) continue;
+    await pool.query('UPDATE profiles SET password_hash = $1 WHERE id = $2', [
+      await hashPassword(row.password_hash),
+      row.id,
+    ]);
+    console.log(`Senha convertida: ${row.username}`);
+    updated++;
+  }
+
+  console.log(`${updated} senha(s) convertida(s)`);
+} catch (error) {
+  console.error('Erro ao converter senhas:', error);
+  process.exitCode = 1;
+} finally {
+  await pool.end();
+}
@@ -0,0 +1,207 @@
+// Executa as migrações versionadas de migrations/ e registra as aplicadas em schema_migrations.
+// Uso:
+//   npm run migrate                      aplica todas as migrações pendentes
+//   npm run migrate -- up --to 0003      aplica as pendentes até a versão 0003
+//   npm run migrate -- down [n]          desfaz as n últimas migrações (padrão: 1)
+//   npm run migrate -- status            lista migrações aplicadas e pendentes
+//   npm run migrate -- diff              compara o banco com migrations/, server/registry.js e types.ts
+// Com --dry-run, up e down apenas mostram o SQL que seria executado.
+import { Pool } from 'pg';
+import dotenv from 'dotenv';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { OUTPUT as TYPES_FILE, introspect, render } from './generate-types.js';
+
+const MIGRATIONS_DIR = fileURLToPath(new URL('../migrations/', import.meta.url));
+const FILE_PATTERN = /^(\d{4})_(\w+)\.(up|down)\.sql$/;
+
+// Lê migrations/ e agrupa os arquivos NNNN_nome.up.sql / NNNN_nome.down.sql por versão
+export async function loadMigrations(dir = MIGRATIONS_DIR) {
+  const byVersion = new Map();
+
+  for (const file of (await readdir(dir)).sort()) {
+    const m = file.match(FILE_PATTERN);
+    if (!m) continue;
+
+    const [, version, name, direction] = m;
+    const migration = byVersion.get(version) || { version, name, up: null, down: null };
+    if (migration.name !== name) {
+      throw new Error(`Versão ${version} usada por duas migrações: ${migration.name} e ${name}`);
+    }
+    migration[direction] = path.join(dir, file);
+    byVersion.set(version, migration);
+  }
+
+  for (const migration of byVersion.values()) {
+    if (!migration.up) throw new Error(`Migração ${migration.version}_${migration.name} sem arquivo .up.sql`);
+  }
+  return [...byVersion.values()];
+}
+
+async function ensureMigrationsTable(pool) {
+  await pool.query(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+       version VARCHAR(4) PRIMARY KEY,
+       name VARCHAR(255) NOT NULL,
+       applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+     )`
+  );
+}
+
+export async function appliedVersions(pool) {
+  await ensureMigrationsTable(pool);
+  const { rows } = await pool.query('SELECT version, name, applied_at FROM schema_migrations ORDER BY version');
+  return rows;
+}
+
+// Cada migração roda na sua própria transação, junto com o registro da versão
+async function runMigration(pool, migration, direction, dryRun) {
+  const file = migration[direction];
+  if (!file) {
+    throw new Error(`Migração ${migration.version}_${migration.name} não tem arquivo .down.sql`);
+  }
+  const sql = await readFile(file, 'utf8');
+  const label = `${migration.version}_${migration.name} (${direction})`;
+
+  if (dryRun) {
+    console.log(`-- ${label}\n${sql.trim()}\n`);
+    return;
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(sql);
+    if (direction === 'up') {
+      await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [
+        migration.version,
+        migration.name,
+      ]);
+    } else {
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+    }
+    await client.query('COMMIT');
+    console.log(`Aplicada: ${label}`);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw new Error(`Falha em ${label}: ${error.message}`);
+  } finally {
+    client.release();
+  }
+}
+
+export async function up(pool, { to = null, dryRun = false } = {}) {
+  const applied = new Set((await appliedVersions(pool)).map(r => r.version));
+  const pending = (await loadMigrations()).filter(
+    m => !applied.has(m.version) && (to === null || m.version <= to)
+  );
+
+  if (pending.length === 0) console.log('Nenhuma migração pendente');
+  for (const migration of pending) {
+    await runMigration(pool, migration, 'up', dryRun);
+  }
+  return pending;
+}
+
+export async function down(pool, { steps = 1, dryRun = false } = {}) {
+  const migrations = new Map((await loadMigrations()).map(m => [m.version, m]));
+  const toRevert = (await appliedVersions(pool)).reverse().slice(0, steps);
+
+  if (toRevert.length === 0) console.log('Nenhuma migração aplicada');
+  for (const { version, name } of toRevert) {
+    const migration = migrations.get(version);
+    if (!migration) throw new Error(`Migração ${version}_${name} não encontrada em migrations/`);
+    await runMigration(pool, migration, 'down', dryRun);
+  }
+  return toRevert;
+}
+
+export async function status(pool) {
+  const applied = new Map((await appliedVersions(pool)).map(r => [r.version, r]));
+  for (const migration of await loadMigrations()) {
+    const row = applied.get(migration.version);
+    const state = row ? `aplicada em ${row.applied_at.toISOString()}` : 'pendente';
+    console.log(`${migration.version}_${migration.name}: ${state}`);
+  }
+}
+
+// Diferenças entre o banco e o que o código espera. Retorna a lista de problemas.
+export async function diff(pool) {
+  const problems = [];
+  const migrations = await loadMigrations();
+  const applied = await appliedVersions(pool);
+  const known = new Set(migrations.map(m => m.version));
+  const appliedSet = new Set(applied.map(r => r.version));
+
+  for (const migration of migrations) {
+    if (!appliedSet.has(migration.version)) {
+      problems.push(`Migração pendente: ${migration.version}_${migration.name}`);
+    }
+  }
+  for (const row of applied) {
+    if (!known.has(row.version)) {
+      problems.push(`Migração aplicada no banco mas ausente em migrations/: ${row.version}_${row.name}`);
+    }
+  }
+
+  // Registro da API (server/registry.js) contra as colunas reais
+  const { source, warnings } = render(await introspect(pool));
+  problems.push(...warnings);
+
+  // types.ts precisa refletir o banco atual
+  const current = await readFile(TYPES_FILE, 'utf8').catch(() => '');
+  if (current !== source) {
+    problems.push('src/integrations/supabase/types.ts está desatualizado: rode npm run gen:types');
+  }
+
+  return problems;
+}
+
+function parseArgs(argv) {
+  const [command = 'up', ...rest] = argv;
+  const options = { dryRun: rest.includes('--dry-run') };
+  const toIndex = rest.indexOf('--to');
+  if (toIndex !== -1) options.to = rest[toIndex + 1];
+  const steps = rest.find(arg => /^\d+$/.test(arg));
+  if (steps) options.steps = Number(steps);
+  return { command, options };
+}
+
+// Executado via npm run migrate (não ao ser importado)
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  dotenv.config();
+
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+    ssl: { rejectUnauthorized: false },
+  });
+
+  const { command, options } = parseArgs(process.argv.slice(2));
+
+  try {
+    if (command === 'up') {
+      await up(pool, options);
+    } else if (command === 'down') {
+      await down(pool, options);
+    } else if (command === 'status') {
+      await status(pool);
+    } else if (command === 'diff') {
+      const problems = await diff(pool);
+      if (problems.length === 0) {
+        console.log('Banco, migrações, registro da API e types.ts estão em sincronia');
+      } else {
+        problems.forEach(p => console.log(`- ${p}`));
+        process.exitCode = 1;
+      }
+    } else {
+      console.error(`Comando desconhecido: ${command} (use up, down, status ou diff)`);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Erro ao executar migrações:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
@@ -1,10 +1,23 @@
 import express from 'express';
 import cors from 'cors';
-import { Pool } from 'pg';
 import path from 'path';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
+import { runApprovalAction } from './server/approvals.js';
+import { requestContext } from './server/audit.js';
+import { authenticate, login, logout, refresh } from './server/auth.js';
+import { OPERATION_BY_METHOD, authorize, hasAction, requireAction } from './server/authorization.js';
+import { createPool } from './server/db.js';
+import { sendError } from './server/errors.js';
+import { createMovement, reverseMovement } from './server/movements.js';
+import { runPurchaseAction } from './server/purchases.js';
+import { reorderSuggestions } from './server/replenishment.js';
+import { lossesReport } from './server/reports.js';
+import { createSale } from './server/sales.js';
+import { runStocktakeAction, stocktakeActionPermission } from './server/stocktakes.js';
+import { runTransferAction } from './server/transfers.js';
+import { deleteRows, insertRows, selectRows, setContentRange, updateRows } from './server/rest.js';
 
 dotenv.config();
 
@@ -21,89 +34,59 @@ const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
-app.use(cors());
+app.use(cors({ exposedHeaders: ['Content-Range'] }));
 app.use(express.json());
 
 // Database connection
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-});
+const pool = createPool();
 
 // Test database connection
 pool.query('SELECT NOW()')
   .then(() => console.log('Database connected successfully'))
   .catch(err => console.error('Database connection error:', err));
 
-// Helper function to parse filters
-const parseFilter = (raw) => {
-  if (typeof raw !== 'string') return { op: 'eq', value: raw };
-  const m = raw.match(/^(\w+)\.(.*)$/);
-  if (m) return { op: m[1], value: m[2] };
-  return { op: 'eq', value: raw };
-};
-
-// Mapeamento de relacionamentos (foreign keys)
-const relationships = {
-  products: {
-    categories: { foreignKey: 'category_id', targetTable: 'categories' },
-    suppliers: { foreignKey: 'supplier_id', targetTable: 'suppliers' },
-  },
-  stock_movements: {
-    products: { foreignKey: 'product_id', targetTable: 'products' },
-    profiles: { foreignKey: 'user_id', targetTable: 'profiles' },
-  },
-  audit_logs: {
-    profiles: { foreignKey: 'user_id', targetTable: 'profiles' },
-  },
-};
-
-// Parser para o select do Supabase (ex: "*, categories (id, name)")
-function parseSupabaseSelect(selectStr, table) {
-  const relations = [];
-  const mainColumns = [];
-
-  // Remove whitespace excessivo
-  const cleaned = selectStr.replace(/\s+/g, ' ').trim();
-
-  // Regex para encontrar relações: nome_tabela (colunas)
-  const relationRegex = /(\w+)\s*\(([^)]+)\)/g;
-  let match;
-  let lastIndex = 0;
-  let tempStr = cleaned;
-
-  while ((match = relationRegex.exec(cleaned)) !== null) {
-    const relationName = match[1];
-    const relationColumns = match[2].split(',').map(c => c.trim());
-
-    if (relationships[table] && relationships[table][relationName]) {
-      relations.push({
-        name: relationName,
-        columns: relationColumns,
-        ...relationships[table][relationName],
-      });
-    }
+// Servir arquivos de upload
+app.use('/uploads', express.static(uploadsDir));
 
-    // Remove a relação da string para pegar as colunas principais
-    tempStr = tempStr.replace(match[0], '');
+// Auth routes - DEVE vir antes das rotas genéricas
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    res.json(await login(pool, req.body, requestContext(req)));
+  } catch (error) {
+    sendError(res, error);
   }
+});
 
-  // Pega as colunas principais (o que sobrou)
-  const mainColsStr = tempStr.replace(/,\s*,/g, ',').replace(/^,|,$/g, '').trim();
-  if (mainColsStr) {
-    mainColsStr.split(',').forEach(col => {
-      const trimmed = col.trim();
-      if (trimmed && trimmed !== '') {
-        mainColumns.push(trimmed);
-      }
-    });
+app.post('/api/auth/refresh', async (req, res) => {
+  try {
+    res.json(await refresh(pool, req.body));
+  } catch (error) {
+    sendError(res, error);
   }
+});
 
-  return { mainColumns, relations };
-}
+// Todas as rotas abaixo exigem um access token válido
+app.use('/api', async (req, res, next) => {
+  try {
+    await authenticate(pool, req);
+    next();
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-// Servir arquivos de upload
-app.use('/uploads', express.static(uploadsDir));
+app.get('/api/auth/session', (req, res) => {
+  res.json({ user: req.user });
+});
+
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    await logout(pool, req.accessToken, requestContext(req));
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
 // Upload de imagens (base64) - DEVE vir antes das rotas genéricas
 app.post('/api/upload', express.json({ limit: '10mb' }), async (req, res) => {
@@ -135,191 +118,168 @@ app.post('/api/upload', express.json({ limit: '10mb' }), async (req, res) => {
   }
 });
 
-// Auth routes - DEVE vir antes das rotas genéricas
-app.post('/api/auth/login', async (req, res) => {
-  const { username, password } = req.body;
+// Movimentação de estoque atômica - estoque anterior/novo calculados no servidor
+app.post('/api/movements', async (req, res) => {
+  try {
+    requireAction(req.user, 'movements.create');
+    const movement = await createMovement(pool, { ...req.body, user_id: req.user.id }, requestContext(req), {
+      canApprove: hasAction(req.user, 'movements.approve'),
+    });
+    // 202: ajuste acima dos limites, aguardando aprovação
+    res.status(movement.status === 'pendente' ? 202 : 201).json(movement);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Estorno: contramovimentação ligada à original (id no corpo)
+app.post('/api/movements/reverse', async (req, res) => {
+  try {
+    requireAction(req.user, 'movements.create');
+    const movement = await reverseMovement(pool, { ...req.body, user_id: req.user.id }, requestContext(req));
+    res.status(201).json(movement);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Aprovação de ajustes pendentes: approve e reject
+app.post('/api/movement-approvals/:action', async (req, res) => {
   try {
-    const result = await pool.query(
-      'SELECT * FROM profiles WHERE username = $1 AND password_hash = $2',
-      [username, password]
+    requireAction(req.user, 'movements.approve');
+    const approval = await runApprovalAction(
+      pool,
+      req.params.action,
+      { ...req.body, user_id: req.user.id },
+      requestContext(req)
     );
-    if (result.rows.length === 0) {
-      return res.status(401).json({ error: 'Credenciais inválidas' });
-    }
-    const user = result.rows[0];
-    const session = { access_token: `token_${Date.now()}`, user_id: user.id };
-    res.json({ session, user });
+    res.json(approval);
   } catch (error) {
-    console.error(error);
-    res.status(500).json({ error: String(error) });
+    sendError(res, error);
   }
 });
 
-// Generic API Routes (tables)
-app.get('/api/:table', async (req, res) => {
-  const { table } = req.params;
+// Fechamento de venda do caixa: documento da venda e uma saída por item
+app.post('/api/sales/checkout', async (req, res) => {
   try {
-    const selectRaw = req.query.select || '*';
-    const { mainColumns, relations } = parseSupabaseSelect(selectRaw, table);
-
-    const params = [];
-    let idx = 1;
-    const where = [];
-    let orderClause = '';
-    let limitClause = '';
-
-    for (const key of Object.keys(req.query)) {
-      if (key === 'select' || key === 'count') continue;
-      if (key === 'order') {
-        const orderParts = req.query[key].split('.');
-        const orderCol = orderParts[0];
-        const orderDir = orderParts[1] === 'desc' ? 'DESC' : 'ASC';
-        orderClause = ` ORDER BY ${table}.${orderCol} ${orderDir}`;
-        continue;
-      }
-      if (key === 'limit') {
-        limitClause = ` LIMIT ${parseInt(req.query[key])}`;
-        continue;
-      }
-      const { op, value } = parseFilter(req.query[key]);
-      if (op === 'eq') {
-        where.push(`${table}.${key} = $${idx++}`);
-        params.push(value);
-      } else if (op === 'neq') {
-        where.push(`${table}.${key} != $${idx++}`);
-        params.push(value);
-      } else if (op === 'lte') {
-        where.push(`${table}.${key} <= $${idx++}`);
-        params.push(value);
-      } else if (op === 'gte') {
-        where.push(`${table}.${key} >= $${idx++}`);
-        params.push(value);
-      } else if (op === 'gt') {
-        where.push(`${table}.${key} > $${idx++}`);
-        params.push(value);
-      } else if (op === 'lt') {
-        where.push(`${table}.${key} < $${idx++}`);
-        params.push(value);
-      } else if (op === 'is') {
-        if (value === 'null') {
-          where.push(`${table}.${key} IS NULL`);
-        } else {
-          where.push(`${table}.${key} IS NOT NULL`);
-        }
-      } else if (op === 'not') {
-        // Handle not.eq.value format
-        const notParts = value.split('.');
-        if (notParts.length >= 2) {
-          const notOp = notParts[0];
-          const notValue = notParts.slice(1).join('.');
-          if (notOp === 'eq') {
-            where.push(`${table}.${key} != $${idx++}`);
-            params.push(notValue);
-          } else if (notOp === 'is' && notValue === 'null') {
-            where.push(`${table}.${key} IS NOT NULL`);
-          }
-        }
-      }
-    }
+    requireAction(req.user, 'sales.create');
+    const sale = await createSale(pool, { ...req.body, user_id: req.user.id }, requestContext(req));
+    res.status(201).json(sale);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    // Construir SELECT com as colunas principais
-    let selectClause = mainColumns.length > 0
-      ? mainColumns.map(c => c === '*' ? `${table}.*` : `${table}.${c}`).join(', ')
-      : `${table}.*`;
-
-    // Adicionar colunas das relações como JSON
-    const joins = [];
-    relations.forEach(rel => {
-      const relCols = rel.columns.map(c => `'${c}', ${rel.targetTable}.${c}`).join(', ');
-      selectClause += `, json_build_object(${relCols}) as ${rel.name}`;
-      joins.push(`LEFT JOIN ${rel.targetTable} ON ${table}.${rel.foreignKey} = ${rel.targetTable}.id`);
-    });
+// Transferências entre locais: save, dispatch, receive e discard
+app.post('/api/transfers/:action', async (req, res) => {
+  try {
+    requireAction(req.user, 'transfers.manage');
+    const transfer = await runTransferAction(
+      pool,
+      req.params.action,
+      { ...req.body, user_id: req.user.id },
+      requestContext(req)
+    );
+    res.json(transfer);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Sugestões de reposição por fornecedor, a partir do consumo recente
+app.get('/api/reorder-suggestions', async (req, res) => {
+  try {
+    requireAction(req.user, 'purchases.manage');
+    res.json(await reorderSuggestions(pool, req.query));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Relatório de perdas por motivo, categoria e mês
+app.get('/api/reports/losses', async (req, res) => {
+  try {
+    requireAction(req.user, 'reports.view');
+    res.json(await lossesReport(pool, req.query));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Pedidos de compra: save, send, receive e cancel
+app.post('/api/purchase-orders/:action', async (req, res) => {
+  try {
+    requireAction(req.user, 'purchases.manage');
+    const order = await runPurchaseAction(
+      pool,
+      req.params.action,
+      { ...req.body, user_id: req.user.id },
+      requestContext(req)
+    );
+    res.json(order);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    const q = `SELECT ${selectClause} FROM ${table} ${joins.join(' ')}${where.length ? ' WHERE ' + where.join(' AND ') : ''}${orderClause}${limitClause}`;
+// Inventário (contagem física): start, count, approve e cancel
+app.post('/api/stocktakes/:action', async (req, res) => {
+  try {
+    requireAction(req.user, stocktakeActionPermission(req.params.action));
+    const stocktake = await runStocktakeAction(
+      pool,
+      req.params.action,
+      { ...req.body, user_id: req.user.id },
+      requestContext(req)
+    );
+    res.json(stocktake);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Generic API Routes (tables) - restritas ao registro em server/registry.js
+// e às permissões do papel do usuário (src/lib/permissions.js)
+app.use('/api/:table', (req, res, next) => {
+  try {
+    authorize(req.user, req.params.table, OPERATION_BY_METHOD[req.method]);
+    next();
+  } catch (error) {
+    sendError(res, error);
+  }
+});
 
-    const result = await pool.query(q, params);
+app.get('/api/:table', async (req, res) => {
+  try {
+    const result = await selectRows(pool, req.params.table, req.query, req.user);
+    setContentRange(res, result);
     res.json(result.rows);
   } catch (error) {
-    console.error(error);
-    res.status(500).json({ error: String(error) });
+    sendError(res, error);
   }
 });
 
 app.post('/api/:table', async (req, res) => {
-  const { table } = req.params;
   try {
-    const body = req.body;
-    const rows = Array.isArray(body) ? body : [body];
-    const inserted = [];
-    for (const row of rows) {
-      const cols = Object.keys(row);
-      const vals = Object.values(row);
-      const placeholders = vals.map((_, i) => `$${i + 1}`).join(', ');
-      const q = `INSERT INTO ${table} (${cols.join(',')}) VALUES (${placeholders}) RETURNING *`;
-      const r = await pool.query(q, vals);
-      inserted.push(r.rows[0]);
-    }
-    res.json(inserted.length === 1 ? inserted[0] : inserted);
+    res.json(await insertRows(pool, req.params.table, req.body, requestContext(req)));
   } catch (error) {
-    console.error(error);
-    res.status(500).json({ error: String(error) });
+    sendError(res, error);
   }
 });
 
 app.patch('/api/:table', async (req, res) => {
-  const { table } = req.params;
   try {
-    const body = req.body || {};
-    const filterKeys = Object.keys(req.query).filter(k => k !== 'select');
-    if (filterKeys.length === 0) return res.status(400).json({ error: 'Missing filter for update' });
-
-    const setCols = Object.keys(body);
-    if (setCols.length === 0) return res.status(400).json({ error: 'Missing body for update' });
-
-    const params = [];
-    let idx = 1;
-    const setClause = setCols.map((c) => `${c} = $${idx++}`).join(', ');
-    params.push(...setCols.map(c => body[c]));
-
-    const where = [];
-    for (const key of filterKeys) {
-      const { op, value } = parseFilter(req.query[key]);
-      if (op === 'eq') {
-        where.push(`${key} = $${idx++}`);
-        params.push(value);
-      }
-    }
-
-    const q = `UPDATE ${table} SET ${setClause} WHERE ${where.join(' AND ')} RETURNING *`;
-    const r = await pool.query(q, params);
-    res.json(r.rows);
+    res.json(await updateRows(pool, req.params.table, req.query, req.body, requestContext(req)));
   } catch (error) {
-    console.error(error);
-    res.status(500).json({ error: String(error) });
+    sendError(res, error);
   }
 });
 
 app.delete('/api/:table', async (req, res) => {
-  const { table } = req.params;
   try {
-    const filterKeys = Object.keys(req.query).filter(k => k !== 'select');
-    if (filterKeys.length === 0) return res.status(400).json({ error: 'Missing filter for delete' });
-    const params = [];
-    let idx = 1;
-    const where = [];
-    for (const key of filterKeys) {
-      const { op, value } = parseFilter(req.query[key]);
-      if (op === 'eq') {
-        where.push(`${key} = $${idx++}`);
-        params.push(value);
-      }
-    }
-    const q = `DELETE FROM ${table} WHERE ${where.join(' AND ')} RETURNING *`;
-    const r = await pool.query(q, params);
-    res.json(r.rows);
+    res.json(await deleteRows(pool, req.params.table, req.query, requestContext(req)));
   } catch (error) {
-    console.error(error);
-    res.status(500).json({ error: String(error) });
+    sendError(res, error);
   }
 });
 
@@ -0,0 +1,107 @@
+import { diffRows, recordAudit } from './audit.js';
+import { withTransaction } from './db.js';
+import { HttpError } from './errors.js';
+import { insertMovement } from './movements.js';
+import { parseWith } from './validation.js';
+import { approvalRejectionSchema, approvalReviewSchema } from '../src/lib/schemas.js';
+
+async function lockPendingApproval(client, id) {
+  if (!id) throw new HttpError(400, 'id é obrigatório');
+
+  const { rows } = await client.query('SELECT * FROM movement_approvals WHERE id = $1 FOR UPDATE', [id]);
+  if (rows.length === 0) {
+    throw new HttpError(404, 'Solicitação não encontrada');
+  }
+  if (rows[0].status !== 'pendente') {
+    throw new HttpError(409, 'Esta solicitação já foi revisada');
+  }
+  return rows[0];
+}
+
+async function reviewApproval(client, context, approval, changes) {
+  const columns = Object.keys(changes);
+  const assignments = columns.map((column, index) => `${column} = $${index + 2}`);
+  const { rows } = await client.query(
+    `UPDATE movement_approvals SET ${assignments.join(', ')} WHERE id = $1 RETURNING *`,
+    [approval.id, ...columns.map(column => changes[column])]
+  );
+
+  await recordAudit(client, context, {
+    action: 'update',
+    table: 'movement_approvals',
+    recordId: approval.id,
+    changes: diffRows(approval, rows[0]),
+  });
+  return rows[0];
+}
+
+// Aprova: grava a movimentação pedida em nome de quem a solicitou. O estoque
+// final pedido vale contra o saldo atual do local, que pode ter mudado desde a
+// solicitação.
+export async function approveMovement(pool, input, context) {
+  const { id, user_id } = input || {};
+  const { comment } = parseWith(approvalReviewSchema, { comment: input?.comment });
+
+  return withTransaction(pool, async client => {
+    const approval = await lockPendingApproval(client, id);
+    // Como texto, para a data do lote não passar por fuso horário
+    const { rows: [{ expiration_date }] } = await client.query(
+      'SELECT expiration_date::text AS expiration_date FROM movement_approvals WHERE id = $1',
+      [approval.id]
+    );
+
+    const movement = await insertMovement(
+      client,
+      {
+        product_id: approval.product_id,
+        location_id: approval.location_id,
+        user_id: approval.requested_by,
+        type: approval.type,
+        quantity: approval.quantity,
+        reason_id: approval.reason_id,
+        reason: approval.reason,
+        lot_number: approval.lot_number,
+        expiration_date,
+        lots: approval.lots,
+      },
+      context
+    );
+
+    const approved = await reviewApproval(client, context, approval, {
+      status: 'aprovado',
+      reviewed_by: user_id || null,
+      reviewed_at: new Date(),
+      review_comment: comment || null,
+      movement_id: movement.id,
+    });
+    return { ...approved, movement };
+  });
+}
+
+// Rejeita sem mexer no estoque; o comentário explica a decisão a quem pediu
+export async function rejectMovement(pool, input, context) {
+  const { id, user_id } = input || {};
+  const { comment } = parseWith(approvalRejectionSchema, { comment: input?.comment });
+
+  return withTransaction(pool, async client => {
+    const approval = await lockPendingApproval(client, id);
+    return reviewApproval(client, context, approval, {
+      status: 'rejeitado',
+      reviewed_by: user_id || null,
+      reviewed_at: new Date(),
+      review_comment: comment,
+    });
+  });
+}
+
+// Ponto de entrada de POST /api/movement-approvals/:action
+export function runApprovalAction(pool, action, input, context) {
+  switch (action) {
+    case 'approve':
+      return approveMovement(pool, input, context);
+    case 'reject':
+      return rejectMovement(pool, input, context);
+    default:
+      throw new HttpError(404, `Ação de aprovação desconhecida: ${action}`);
+  }
+}
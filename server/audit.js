@@ -0,0 +1,59 @@
+import net from 'net';
+
+// Campos mantidos pelo banco que não entram no diff
+const IGNORED_FIELDS = ['created_at', 'updated_at'];
+
+function clientIp(req) {
+  const forwarded = String(req.headers['x-forwarded-for'] || '').split(',')[0].trim();
+  const ip = forwarded || req.socket?.remoteAddress || '';
+  // Só grava valores aceitos pela coluna INET
+  return net.isIP(ip) ? ip : null;
+}
+
+// Quem fez a requisição e de onde; gravado junto com cada evento de auditoria
+export function requestContext(req) {
+  return {
+    user_id: req.user?.id || null,
+    ip_address: clientIp(req),
+    user_agent: req.headers['user-agent'] || null,
+  };
+}
+
+const normalize = value => (value instanceof Date ? value.toISOString() : value ?? null);
+
+// Diferença campo a campo: { campo: { before, after } }.
+// Em inserções before é null; em exclusões after é null.
+export function diffRows(before, after) {
+  const changes = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+    const oldValue = before ? normalize(before[field]) : null;
+    const newValue = after ? normalize(after[field]) : null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { before: oldValue, after: newValue };
+    }
+  }
+  return changes;
+}
+
+// Grava um evento em audit_logs. Recebe o client da transação da escrita,
+// para que o registro e a alteração sejam confirmados (ou desfeitos) juntos.
+export async function recordAudit(db, context, { action, table, recordId = null, changes = null }) {
+  if (!context) return;
+
+  await db.query(
+    `INSERT INTO audit_logs (user_id, action, table_name, record_id, changes, ip_address, user_agent)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      context.user_id,
+      action,
+      table,
+      recordId,
+      changes ? JSON.stringify(changes) : null,
+      context.ip_address,
+      context.user_agent,
+    ]
+  );
+}
@@ -0,0 +1,153 @@
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { recordAudit } from './audit.js';
+import { HttpError } from './errors.js';
+
+const BCRYPT_ROUNDS = 10;
+
+// Validade dos tokens (em segundos)
+export const ACCESS_TOKEN_TTL = 60 * 60;
+export const REFRESH_TOKEN_TTL = 60 * 60 * 24 * 7;
+
+const USER_COLUMNS = 'profiles.id, profiles.full_name, profiles.email, profiles.username, profiles.role';
+
+export function hashPassword(password) {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+export function isPasswordHash(value) {
+  return typeof value === 'string' && /^\$2[aby]\$\d{2}\$/.test(value);
+}
+
+// Tokens são opacos; o banco guarda apenas o hash SHA-256
+function generateToken() {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function expiresAt(ttl) {
+  return new Date(Date.now() + ttl * 1000);
+}
+
+// Cria (ou rotaciona) os tokens de uma sessão
+async function issueTokens(pool, sessionId, userId) {
+  const accessToken = generateToken();
+  const refreshToken = generateToken();
+  const accessExpiresAt = expiresAt(ACCESS_TOKEN_TTL);
+  const refreshExpiresAt = expiresAt(REFRESH_TOKEN_TTL);
+
+  if (sessionId) {
+    await pool.query(
+      `UPDATE sessions
+       SET access_token_hash = $1, refresh_token_hash = $2, access_expires_at = $3, refresh_expires_at = $4
+       WHERE id = $5`,
+      [hashToken(accessToken), hashToken(refreshToken), accessExpiresAt, refreshExpiresAt, sessionId]
+    );
+  } else {
+    await pool.query(
+      `INSERT INTO sessions (user_id, access_token_hash, refresh_token_hash, access_expires_at, refresh_expires_at)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [userId, hashToken(accessToken), hashToken(refreshToken), accessExpiresAt, refreshExpiresAt]
+    );
+  }
+
+  return {
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    expires_at: accessExpiresAt.toISOString(),
+    user_id: userId,
+  };
+}
+
+export async function login(pool, { username, password } = {}, context) {
+  if (!username || !password) {
+    throw new HttpError(400, 'Usuário e senha são obrigatórios');
+  }
+
+  const result = await pool.query(
+    `SELECT ${USER_COLUMNS}, profiles.password_hash FROM profiles WHERE username = $1`,
+    [username]
+  );
+  const row = result.rows[0];
+
+  // Senhas ainda não convertidas (texto puro) nunca são aceitas
+  const valid = row && isPasswordHash(row.password_hash)
+    && await bcrypt.compare(password, row.password_hash);
+  if (!valid) {
+    throw new HttpError(401, 'Credenciais inválidas');
+  }
+
+  const { password_hash, ...user } = row;
+  const session = await issueTokens(pool, null, user.id);
+  await recordAudit(pool, context && { ...context, user_id: user.id }, {
+    action: 'login',
+    table: 'profiles',
+    recordId: user.id,
+  });
+  return { session, user };
+}
+
+export async function refresh(pool, { refresh_token } = {}) {
+  if (!refresh_token) throw new HttpError(400, 'refresh_token é obrigatório');
+
+  const result = await pool.query(
+    `SELECT sessions.id AS session_id, ${USER_COLUMNS}
+     FROM sessions JOIN profiles ON profiles.id = sessions.user_id
+     WHERE sessions.refresh_token_hash = $1
+       AND sessions.revoked_at IS NULL
+       AND sessions.refresh_expires_at > now()`,
+    [hashToken(refresh_token)]
+  );
+  if (result.rows.length === 0) {
+    throw new HttpError(401, 'Sessão expirada');
+  }
+
+  const { session_id, ...user } = result.rows[0];
+  const session = await issueTokens(pool, session_id, user.id);
+  return { session, user };
+}
+
+export async function logout(pool, accessToken, context) {
+  const result = await pool.query(
+    'UPDATE sessions SET revoked_at = now() WHERE access_token_hash = $1 AND revoked_at IS NULL RETURNING user_id',
+    [hashToken(accessToken)]
+  );
+  if (result.rows.length > 0) {
+    await recordAudit(pool, context, {
+      action: 'logout',
+      table: 'profiles',
+      recordId: result.rows[0].user_id,
+    });
+  }
+}
+
+function bearerToken(req) {
+  const header = req.headers.authorization || '';
+  const m = header.match(/^Bearer\s+(.+)$/i);
+  return m ? m[1] : null;
+}
+
+// Resolve o usuário da requisição a partir do header Authorization
+export async function authenticate(pool, req) {
+  const token = bearerToken(req);
+  if (!token) throw new HttpError(401, 'Não autenticado');
+
+  const result = await pool.query(
+    `SELECT ${USER_COLUMNS}
+     FROM sessions JOIN profiles ON profiles.id = sessions.user_id
+     WHERE sessions.access_token_hash = $1
+       AND sessions.revoked_at IS NULL
+       AND sessions.access_expires_at > now()`,
+    [hashToken(token)]
+  );
+  if (result.rows.length === 0) {
+    throw new HttpError(401, 'Sessão expirada');
+  }
+
+  req.user = result.rows[0];
+  req.accessToken = token;
+  return req.user;
+}
@@ -0,0 +1,28 @@
+import { HttpError } from './errors.js';
+import { resolveTable } from './registry.js';
+import { can, canPerform } from '../src/lib/permissions.js';
+
+export const OPERATION_BY_METHOD = {
+  GET: 'select',
+  POST: 'insert',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+// Verifica se a tabela expõe a operação e se o papel do usuário autenticado a permite
+export function authorize(user, table, operation) {
+  resolveTable(table, operation);
+  if (!can(user?.role, table, operation)) {
+    throw new HttpError(403, `Sem permissão para ${operation} em ${table}`);
+  }
+}
+
+export function hasAction(user, action) {
+  return canPerform(user?.role, action);
+}
+
+export function requireAction(user, action) {
+  if (!hasAction(user, action)) {
+    throw new HttpError(403, `Sem permissão para ${action}`);
+  }
+}
@@ -0,0 +1,36 @@
+import pg from 'pg';
+
+// NUMERIC (preços, custos, totais) chega como number, igual aos valores
+// embutidos via json_build_object e ao tipo gerado por scripts/generate-types.js.
+// DECIMAL(10,2) cabe num double sem perda.
+const types = {
+  getTypeParser: (oid, format) =>
+    oid === pg.types.builtins.NUMERIC ? parseFloat : pg.types.getTypeParser(oid, format),
+};
+
+// Pool do Postgres usado pelo server.js e pelas funções em api/
+export function createPool() {
+  return new pg.Pool({
+    connectionString: process.env.DATABASE_URL,
+    ssl: { rejectUnauthorized: false },
+    types,
+  });
+}
+
+// Executa fn(client) em uma transação com uma conexão dedicada do pool.
+// Qualquer erro desfaz tudo o que foi feito em fn.
+export async function withTransaction(pool, fn) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
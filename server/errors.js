@@ -0,0 +1,54 @@
+// Erros HTTP compartilhados entre server.js e as funções em api/
+
+export class HttpError extends Error {
+  constructor(status, message, details) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+// Coluna citada no detalhe do Postgres ("Key (name)=(x) already exists.")
+function detailColumn(error) {
+  const m = String(error.detail || '').match(/^Key \((\w+)\)/);
+  return m ? m[1] : undefined;
+}
+
+// Converte violações de constraint do Postgres em erros por campo,
+// em vez de devolver a mensagem crua do banco
+export function fromDatabaseError(error) {
+  const field = error.column || detailColumn(error);
+  const details = message => (field ? [{ field, message }] : undefined);
+
+  switch (error.code) {
+    case '23505':
+      return new HttpError(409, 'Registro duplicado', details('Já existe um registro com este valor'));
+    case '23503':
+      return error.detail?.includes('is still referenced')
+        ? new HttpError(409, 'Registro em uso por outros dados')
+        : new HttpError(400, 'Referência inválida', details('Registro relacionado não encontrado'));
+    case '23502':
+      return new HttpError(400, 'Dados inválidos', details('Campo obrigatório'));
+    case '23514':
+    case '22P02':
+    case '22001':
+    case '22003':
+    case '22007':
+      return new HttpError(400, 'Dados inválidos', details('Valor inválido'));
+    default:
+      return null;
+  }
+}
+
+// Responde com o status do HttpError ou 500 para erros inesperados
+export function sendError(res, error) {
+  error = fromDatabaseError(error) || error;
+  if (error instanceof HttpError) {
+    const body = { error: error.message };
+    if (error.details !== undefined) body.details = error.details;
+    return res.status(error.status).json(body);
+  }
+  console.error(error);
+  return res.status(500).json({ error: 'Erro interno do servidor' });
+}
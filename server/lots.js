@@ -0,0 +1,115 @@
+import { HttpError } from './errors.js';
+
+// Lotes com saldo do produto no local, na ordem FEFO (first expired, first out):
+// primeiro o que vence antes, lotes sem validade por último
+async function availableLots(client, productId, locationId) {
+  const { rows } = await client.query(
+    `SELECT id, lot_number, expiration_date::text AS expiration_date, quantity
+     FROM lots
+     WHERE product_id = $1 AND location_id = $2 AND quantity > 0
+     ORDER BY expiration_date NULLS LAST, created_at
+     FOR UPDATE`,
+    [productId, locationId]
+  );
+  return rows;
+}
+
+function pickFefo(lots, quantity) {
+  const picks = [];
+  let remaining = quantity;
+  for (const lot of lots) {
+    if (remaining === 0) break;
+    const take = Math.min(lot.quantity, remaining);
+    picks.push({ lot, quantity: take });
+    remaining -= take;
+  }
+
+  if (remaining > 0) {
+    throw new HttpError(409, 'Saldo dos lotes insuficiente', [
+      { field: 'quantity', message: `Faltam ${remaining} unidade(s) nos lotes deste local` },
+    ]);
+  }
+  return picks;
+}
+
+// Escolha manual de lotes: precisa cobrir exatamente a quantidade que sai.
+// Linhas repetidas do mesmo lote são somadas antes de conferir o saldo.
+function pickManual(lots, requested, quantity) {
+  const byId = new Map(lots.map(lot => [lot.id, lot]));
+  const totals = new Map();
+  for (const { lot_id, quantity: take } of requested) {
+    totals.set(lot_id, (totals.get(lot_id) || 0) + take);
+  }
+  const picks = [];
+
+  for (const [lot_id, take] of totals) {
+    const lot = byId.get(lot_id);
+    if (!lot) {
+      throw new HttpError(400, 'Lote inválido', [
+        { field: 'lots', message: 'Lote não encontrado ou sem saldo neste local' },
+      ]);
+    }
+    if (take > lot.quantity) {
+      throw new HttpError(409, 'Quantidade maior que o saldo do lote', [
+        { field: 'lots', message: `Lote ${lot.lot_number || 'sem número'}: saldo ${lot.quantity}` },
+      ]);
+    }
+    picks.push({ lot, quantity: take });
+  }
+
+  const total = picks.reduce((acc, pick) => acc + pick.quantity, 0);
+  if (total !== quantity) {
+    throw new HttpError(400, 'Quantidade dos lotes não confere', [
+      { field: 'lots', message: `Os lotes somam ${total}, mas a movimentação é de ${quantity}` },
+    ]);
+  }
+  return picks;
+}
+
+// Soma a quantidade ao lote com o mesmo número e validade, criando-o se preciso
+async function addToLot(client, movement, { lot_number, expiration_date, quantity }) {
+  const { rows } = await client.query(
+    `INSERT INTO lots (product_id, location_id, lot_number, expiration_date, quantity)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (product_id, location_id, (COALESCE(lot_number, '')), (COALESCE(expiration_date, 'infinity'::date)))
+     DO UPDATE SET quantity = lots.quantity + EXCLUDED.quantity
+     RETURNING id`,
+    [movement.product_id, movement.location_id, lot_number || null, expiration_date || null, quantity]
+  );
+  return rows[0].id;
+}
+
+async function recordMovementLot(client, movementId, lotId, quantity) {
+  await client.query(
+    'INSERT INTO stock_movement_lots (movement_id, lot_id, quantity) VALUES ($1, $2, $3)',
+    [movementId, lotId, quantity]
+  );
+}
+
+// Aplica aos lotes a variação de saldo de uma movimentação já inserida.
+// Aumentos entram no lote informado (ou em movement.incoming_lots, usado pelas
+// transferências); reduções saem por FEFO ou pelos lotes escolhidos em movement.lots.
+export async function applyLots(client, movement, movementId, delta) {
+  if (delta > 0) {
+    const incoming = movement.incoming_lots || [
+      { lot_number: movement.lot_number, expiration_date: movement.expiration_date, quantity: delta },
+    ];
+    for (const entry of incoming) {
+      const lotId = await addToLot(client, movement, entry);
+      await recordMovementLot(client, movementId, lotId, entry.quantity);
+    }
+    return;
+  }
+
+  if (delta < 0) {
+    const lots = await availableLots(client, movement.product_id, movement.location_id);
+    const picks = movement.lots?.length
+      ? pickManual(lots, movement.lots, -delta)
+      : pickFefo(lots, -delta);
+
+    for (const { lot, quantity } of picks) {
+      await client.query('UPDATE lots SET quantity = quantity - $2 WHERE id = $1', [lot.id, quantity]);
+      await recordMovementLot(client, movementId, lot.id, quantity);
+    }
+  }
+}
@@ -0,0 +1,293 @@
+import { diffRows, recordAudit } from './audit.js';
+import { withTransaction } from './db.js';
+import { HttpError } from './errors.js';
+import { applyLots } from './lots.js';
+import { parseWith } from './validation.js';
+import { movementReversalSchema, movementSchema } from '../src/lib/schemas.js';
+
+export const MOVEMENT_TYPES = ['entrada', 'saida', 'ajuste', 'inventario'];
+
+// Calcula o novo estoque a partir do tipo de movimentação.
+// Em ajuste/inventario a quantidade representa o estoque final contado.
+export function computeNewStock(type, previousStock, quantity) {
+  switch (type) {
+    case 'entrada':
+      return previousStock + quantity;
+    case 'saida':
+      return previousStock - quantity;
+    case 'ajuste':
+    case 'inventario':
+      return quantity;
+    default:
+      throw new HttpError(400, `Tipo de movimentação inválido: ${type}`);
+  }
+}
+
+function parseMovementInput(input) {
+  const { user_id } = input || {};
+  if (!user_id) throw new HttpError(400, 'user_id é obrigatório');
+
+  // Mesmas regras do formulário de movimentação
+  const {
+    product_id, location_id, type, quantity, reason_id, reason, lot_number, expiration_date, lots,
+  } = parseWith(movementSchema, input || {});
+  return {
+    product_id,
+    location_id,
+    user_id,
+    type,
+    quantity,
+    reason_id: reason_id || null,
+    reason: reason || null,
+    lot_number: lot_number || null,
+    expiration_date: expiration_date || null,
+    lots: lots || null,
+  };
+}
+
+// Saldo do produto no local. Deve ser chamado com a linha do produto já
+// travada, o que serializa as movimentações concorrentes do mesmo produto.
+async function locationBalance(client, productId, locationId) {
+  const location = await client.query('SELECT id FROM locations WHERE id = $1', [locationId]);
+  if (location.rows.length === 0) {
+    throw new HttpError(404, 'Local não encontrado');
+  }
+
+  const balance = await client.query(
+    'SELECT quantity FROM stock_balances WHERE product_id = $1 AND location_id = $2',
+    [productId, locationId]
+  );
+  return Number(balance.rows[0]?.quantity) || 0;
+}
+
+// Motivo padrão das movimentações geradas pelo sistema (compras, inventário).
+// Se o código foi desativado no catálogo, a movimentação fica sem motivo.
+export async function findReasonId(client, type, code) {
+  const { rows } = await client.query(
+    'SELECT id FROM movement_reasons WHERE movement_type = $1 AND code = $2 AND active',
+    [type, code]
+  );
+  return rows[0]?.id || null;
+}
+
+// O motivo precisa existir, estar ativo e ser do mesmo tipo da movimentação
+async function assertReason(client, movement) {
+  const { rows } = await client.query(
+    'SELECT movement_type, active FROM movement_reasons WHERE id = $1',
+    [movement.reason_id]
+  );
+  const reason = rows[0];
+  if (!reason || !reason.active || reason.movement_type !== movement.type) {
+    throw new HttpError(400, 'Motivo inválido para este tipo de movimentação', [
+      { field: 'reason_id', message: 'Selecione um motivo ativo deste tipo' },
+    ]);
+  }
+}
+
+// Registra uma movimentação travando a linha do produto, de modo que
+// operações concorrentes no mesmo produto sejam serializadas.
+// previous_stock/new_stock são o saldo do local e unit_cost o custo do produto
+// (ou o informado, como no recebimento de compras); o trigger update_product_stock
+// grava o saldo em stock_balances e recalcula products.current_stock.
+// Os lotes do local são atualizados junto (server/lots.js).
+// Roda dentro da transação do chamador (ex: as várias linhas de uma transferência).
+export async function insertMovement(client, movement, context, { errorField = 'quantity' } = {}) {
+  const productResult = await client.query(
+    'SELECT id, name, cost_price FROM products WHERE id = $1 FOR UPDATE',
+    [movement.product_id]
+  );
+  if (productResult.rows.length === 0) {
+    throw new HttpError(404, 'Produto não encontrado');
+  }
+
+  if (movement.reason_id) {
+    await assertReason(client, movement);
+  }
+
+  const previousStock = await locationBalance(client, movement.product_id, movement.location_id);
+  const newStock = computeNewStock(movement.type, previousStock, movement.quantity);
+
+  if (newStock < 0) {
+    throw new HttpError(409, 'Quantidade de saída maior que estoque disponível', [
+      {
+        field: errorField,
+        message: errorField === 'quantity'
+          ? `Estoque disponível no local: ${previousStock}`
+          : `${productResult.rows[0].name}: estoque disponível no local: ${previousStock}`,
+      },
+    ]);
+  }
+
+  const inserted = await client.query(
+    `INSERT INTO stock_movements
+       (product_id, location_id, user_id, type, quantity, previous_stock, new_stock, reason,
+        reason_id, unit_cost, transfer_id, purchase_order_id, stocktake_id, sale_id, reversal_of)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15) RETURNING *`,
+    [
+      movement.product_id,
+      movement.location_id,
+      movement.user_id,
+      movement.type,
+      movement.quantity,
+      previousStock,
+      newStock,
+      movement.reason,
+      movement.reason_id || null,
+      movement.unit_cost ?? productResult.rows[0].cost_price,
+      movement.transfer_id || null,
+      movement.purchase_order_id || null,
+      movement.stocktake_id || null,
+      movement.sale_id || null,
+      movement.reversal_of || null,
+    ]
+  );
+
+  await applyLots(client, movement, inserted.rows[0].id, newStock - previousStock);
+
+  await recordAudit(client, context, {
+    action: 'create',
+    table: 'stock_movements',
+    recordId: inserted.rows[0].id,
+    changes: diffRows(null, inserted.rows[0]),
+  });
+
+  return inserted.rows[0];
+}
+
+// Ajustes e inventários que mudam o saldo do local além de um dos limites de
+// approval_settings (em unidades ou em valor a custo) não movimentam o estoque:
+// viram uma solicitação pendente, aprovada ou rejeitada em server/approvals.js.
+// Retorna a solicitação criada, ou null se a movimentação pode seguir.
+async function holdForApproval(client, movement, context) {
+  if (movement.type !== 'ajuste' && movement.type !== 'inventario') return null;
+
+  const { rows: [settings] } = await client.query(
+    'SELECT quantity_threshold, value_threshold FROM approval_settings LIMIT 1'
+  );
+  if (!settings || (settings.quantity_threshold === null && settings.value_threshold === null)) {
+    return null;
+  }
+
+  const { rows: [product] } = await client.query(
+    'SELECT id, cost_price FROM products WHERE id = $1',
+    [movement.product_id]
+  );
+  if (!product) {
+    throw new HttpError(404, 'Produto não encontrado');
+  }
+  if (movement.reason_id) {
+    await assertReason(client, movement);
+  }
+
+  const previousStock = await locationBalance(client, movement.product_id, movement.location_id);
+  const change = Math.abs(movement.quantity - previousStock);
+  const exceeds =
+    (settings.quantity_threshold !== null && change > settings.quantity_threshold) ||
+    (settings.value_threshold !== null && change * Number(product.cost_price) > Number(settings.value_threshold));
+  if (!exceeds) return null;
+
+  const { rows: [approval] } = await client.query(
+    `INSERT INTO movement_approvals
+       (product_id, location_id, type, quantity, previous_stock, unit_cost, reason_id, reason,
+        lot_number, expiration_date, lots, requested_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12) RETURNING *`,
+    [
+      movement.product_id,
+      movement.location_id,
+      movement.type,
+      movement.quantity,
+      previousStock,
+      product.cost_price,
+      movement.reason_id,
+      movement.reason,
+      movement.lot_number,
+      movement.expiration_date,
+      movement.lots ? JSON.stringify(movement.lots) : null,
+      movement.user_id,
+    ]
+  );
+
+  await recordAudit(client, context, {
+    action: 'create',
+    table: 'movement_approvals',
+    recordId: approval.id,
+    changes: diffRows(null, approval),
+  });
+
+  return approval;
+}
+
+// Quem não pode aprovar (canApprove) passa pelos limites de aprovação; nesse
+// caso o retorno pode ser a solicitação pendente em vez da movimentação.
+export async function createMovement(pool, input, context, { canApprove = false } = {}) {
+  const movement = parseMovementInput(input);
+  return withTransaction(pool, async client => {
+    const approval = canApprove ? null : await holdForApproval(client, movement, context);
+    return approval || insertMovement(client, movement, context);
+  });
+}
+
+// Estorna uma movimentação com a operação inversa no mesmo local: o que entrou
+// sai (dos mesmos lotes) e o que saiu volta (aos mesmos lotes), ao custo da
+// original. Movimentações de transferências, compras, inventários e vendas
+// pertencem a um documento e não podem ser estornadas isoladamente.
+export async function reverseMovement(pool, input, context) {
+  const { user_id } = input || {};
+  if (!user_id) throw new HttpError(400, 'user_id é obrigatório');
+  const { id, reason } = parseWith(movementReversalSchema, input || {});
+
+  return withTransaction(pool, async client => {
+    const { rows } = await client.query('SELECT * FROM stock_movements WHERE id = $1 FOR UPDATE', [id]);
+    const original = rows[0];
+    if (!original) {
+      throw new HttpError(404, 'Movimentação não encontrada');
+    }
+    if (original.reversal_of) {
+      throw new HttpError(409, 'Um estorno não pode ser estornado');
+    }
+    if (original.transfer_id || original.purchase_order_id || original.stocktake_id || original.sale_id) {
+      throw new HttpError(
+        409,
+        'Movimentações de transferências, pedidos de compra, inventários e vendas não podem ser estornadas'
+      );
+    }
+
+    const existing = await client.query('SELECT id FROM stock_movements WHERE reversal_of = $1', [id]);
+    if (existing.rows.length > 0) {
+      throw new HttpError(409, 'Movimentação já estornada');
+    }
+
+    const delta = original.new_stock - original.previous_stock;
+    if (delta === 0) {
+      throw new HttpError(409, 'A movimentação não alterou o estoque; não há o que estornar');
+    }
+
+    const { rows: lots } = await client.query(
+      `SELECT ml.lot_id, ml.quantity, l.lot_number, l.expiration_date::text AS expiration_date
+       FROM stock_movement_lots ml
+       JOIN lots l ON l.id = ml.lot_id
+       WHERE ml.movement_id = $1`,
+      [id]
+    );
+
+    const type = delta > 0 ? 'saida' : 'entrada';
+    return insertMovement(client, {
+      product_id: original.product_id,
+      location_id: original.location_id,
+      user_id,
+      type,
+      quantity: Math.abs(delta),
+      reason_id: await findReasonId(client, type, 'estorno'),
+      reason: reason || null,
+      unit_cost: original.unit_cost,
+      reversal_of: original.id,
+      // Sem lotes registrados (movimentações antigas), vale o padrão: FEFO ou lote sem número
+      lots: delta > 0 && lots.length > 0
+        ? lots.map(lot => ({ lot_id: lot.lot_id, quantity: lot.quantity }))
+        : null,
+      incoming_lots: delta < 0 && lots.length > 0
+        ? lots.map(({ lot_number, expiration_date, quantity }) => ({ lot_number, expiration_date, quantity }))
+        : null,
+    }, context);
+  });
+}
@@ -0,0 +1,268 @@
+import { diffRows, recordAudit } from './audit.js';
+import { withTransaction } from './db.js';
+import { HttpError } from './errors.js';
+import { findReasonId, insertMovement } from './movements.js';
+import { parseWith } from './validation.js';
+import { purchaseOrderSchema, purchaseReceiptSchema } from '../src/lib/schemas.js';
+
+async function lockOrder(client, id) {
+  if (!id) throw new HttpError(400, 'id é obrigatório');
+
+  const { rows } = await client.query('SELECT * FROM purchase_orders WHERE id = $1 FOR UPDATE', [id]);
+  if (rows.length === 0) {
+    throw new HttpError(404, 'Pedido de compra não encontrado');
+  }
+  return rows[0];
+}
+
+function assertStatus(order, statuses, message) {
+  if (!statuses.includes(order.status)) {
+    throw new HttpError(409, message);
+  }
+}
+
+// Itens em ordem de produto, a mesma em que as linhas são travadas pelas movimentações
+async function orderItems(client, orderId) {
+  const { rows } = await client.query(
+    'SELECT * FROM purchase_order_items WHERE order_id = $1 ORDER BY product_id',
+    [orderId]
+  );
+  return rows;
+}
+
+async function assertSupplier(client, supplierId) {
+  const { rows } = await client.query('SELECT id FROM suppliers WHERE id = $1', [supplierId]);
+  if (rows.length === 0) {
+    throw new HttpError(404, 'Fornecedor não encontrado', [
+      { field: 'supplier_id', message: 'Fornecedor não encontrado' },
+    ]);
+  }
+}
+
+async function updateOrder(client, context, order, changes) {
+  const columns = Object.keys(changes);
+  const assignments = columns.map((column, index) => `${column} = $${index + 2}`);
+  const updated = await client.query(
+    `UPDATE purchase_orders SET ${assignments.join(', ')} WHERE id = $1 RETURNING *`,
+    [order.id, ...columns.map(column => changes[column])]
+  );
+
+  await recordAudit(client, context, {
+    action: 'update',
+    table: 'purchase_orders',
+    recordId: order.id,
+    changes: diffRows(order, updated.rows[0]),
+  });
+  return updated.rows[0];
+}
+
+const summarizeItems = items =>
+  items.map(({ product_id, quantity, unit_cost }) => ({ product_id, quantity, unit_cost: Number(unit_cost) }));
+
+// Cria um rascunho, ou substitui fornecedor/itens de um rascunho existente (input.id)
+export async function savePurchaseOrder(pool, input, context) {
+  const { id, user_id } = input || {};
+  const data = parseWith(purchaseOrderSchema, input || {});
+
+  return withTransaction(pool, async client => {
+    await assertSupplier(client, data.supplier_id);
+
+    let before = null;
+    let order;
+    if (id) {
+      before = await lockOrder(client, id);
+      assertStatus(before, ['rascunho'], 'Somente rascunhos podem ser editados');
+      before.items = summarizeItems(await orderItems(client, id));
+
+      const updated = await client.query(
+        `UPDATE purchase_orders SET supplier_id = $2, expected_date = $3, notes = $4
+         WHERE id = $1 RETURNING *`,
+        [id, data.supplier_id, data.expected_date || null, data.notes || null]
+      );
+      order = updated.rows[0];
+      await client.query('DELETE FROM purchase_order_items WHERE order_id = $1', [id]);
+    } else {
+      const inserted = await client.query(
+        `INSERT INTO purchase_orders (supplier_id, expected_date, notes, created_by)
+         VALUES ($1, $2, $3, $4) RETURNING *`,
+        [data.supplier_id, data.expected_date || null, data.notes || null, user_id || null]
+      );
+      order = inserted.rows[0];
+    }
+
+    const items = [];
+    for (const item of data.items) {
+      const inserted = await client.query(
+        `INSERT INTO purchase_order_items (order_id, product_id, quantity, unit_cost)
+         VALUES ($1, $2, $3, $4) RETURNING *`,
+        [order.id, item.product_id, item.quantity, item.unit_cost]
+      );
+      items.push(inserted.rows[0]);
+    }
+
+    await recordAudit(client, context, {
+      action: id ? 'update' : 'create',
+      table: 'purchase_orders',
+      recordId: order.id,
+      changes: diffRows(before, { ...order, items: summarizeItems(items) }),
+    });
+
+    return { ...order, items };
+  });
+}
+
+// Marca o rascunho como enviado ao fornecedor; o estoque só muda no recebimento
+export async function sendPurchaseOrder(pool, input, context) {
+  const { id } = input || {};
+
+  return withTransaction(pool, async client => {
+    const order = await lockOrder(client, id);
+    assertStatus(order, ['rascunho'], 'Somente rascunhos podem ser enviados');
+
+    const items = await orderItems(client, order.id);
+    if (items.length === 0) {
+      throw new HttpError(400, 'Pedido sem itens');
+    }
+
+    const updated = await updateOrder(client, context, order, { status: 'enviado', sent_at: new Date() });
+    return { ...updated, items };
+  });
+}
+
+// Recebe um pedido enviado, total ou parcialmente, no local informado. Cada linha
+// vira uma entrada (com lote e validade, se informados) e o custo do produto passa
+// a ser o custo desta compra. O pedido só é concluído quando todos os itens
+// chegam ou quando input.close encerra com faltas.
+export async function receivePurchaseOrder(pool, input, context) {
+  const { id, user_id } = input || {};
+  const receipt = parseWith(purchaseReceiptSchema, {
+    location_id: input?.location_id,
+    items: input?.items ?? [],
+    close: input?.close,
+  });
+
+  return withTransaction(pool, async client => {
+    const order = await lockOrder(client, id);
+    assertStatus(
+      order,
+      ['enviado', 'parcialmente_recebido'],
+      'Somente pedidos enviados podem ser recebidos'
+    );
+
+    const items = new Map((await orderItems(client, order.id)).map(item => [item.id, item]));
+    const reasonId = await findReasonId(client, 'entrada', 'compra');
+    let receivedAny = false;
+
+    for (const [index, line] of receipt.items.entries()) {
+      if (line.quantity === 0) continue;
+
+      const item = items.get(line.item_id);
+      if (!item) {
+        throw new HttpError(400, 'Item não pertence ao pedido', [
+          { field: `items.${index}.item_id`, message: 'Item inválido' },
+        ]);
+      }
+
+      const pending = item.quantity - item.received_quantity;
+      if (line.quantity > pending) {
+        throw new HttpError(409, 'Quantidade recebida maior que a pendente', [
+          { field: `items.${index}.quantity`, message: `Pendente: ${pending}` },
+        ]);
+      }
+
+      const unitCost = line.unit_cost ?? Number(item.unit_cost);
+      await insertMovement(
+        client,
+        {
+          product_id: item.product_id,
+          location_id: receipt.location_id,
+          user_id,
+          type: 'entrada',
+          quantity: line.quantity,
+          reason_id: reasonId,
+          reason: `Pedido de compra #${order.number}`,
+          unit_cost: unitCost,
+          purchase_order_id: order.id,
+          lot_number: line.lot_number || null,
+          expiration_date: line.expiration_date || null,
+        },
+        context
+      );
+
+      const product = await client.query('SELECT * FROM products WHERE id = $1', [item.product_id]);
+      if (Number(product.rows[0].cost_price) !== unitCost) {
+        const updatedProduct = await client.query(
+          'UPDATE products SET cost_price = $2 WHERE id = $1 RETURNING *',
+          [item.product_id, unitCost]
+        );
+        await recordAudit(client, context, {
+          action: 'update',
+          table: 'products',
+          recordId: item.product_id,
+          changes: diffRows(product.rows[0], updatedProduct.rows[0]),
+        });
+      }
+
+      const updated = await client.query(
+        `UPDATE purchase_order_items SET received_quantity = received_quantity + $2
+         WHERE id = $1 RETURNING *`,
+        [item.id, line.quantity]
+      );
+      await recordAudit(client, context, {
+        action: 'update',
+        table: 'purchase_order_items',
+        recordId: item.id,
+        changes: diffRows(item, updated.rows[0]),
+      });
+
+      items.set(item.id, updated.rows[0]);
+      receivedAny = true;
+    }
+
+    if (!receivedAny && !receipt.close) {
+      throw new HttpError(400, 'Informe a quantidade recebida de pelo menos um item');
+    }
+
+    const complete = [...items.values()].every(item => item.received_quantity === item.quantity);
+    const result = complete || receipt.close
+      ? await updateOrder(client, context, order, { status: 'recebido', received_at: new Date() })
+      : await updateOrder(client, context, order, { status: 'parcialmente_recebido' });
+
+    return { ...result, items: [...items.values()] };
+  });
+}
+
+// Cancela um pedido que ainda não recebeu nada
+export async function cancelPurchaseOrder(pool, input, context) {
+  const { id } = input || {};
+
+  return withTransaction(pool, async client => {
+    const order = await lockOrder(client, id);
+    assertStatus(
+      order,
+      ['rascunho', 'enviado'],
+      'Pedidos com recebimento não podem ser cancelados; encerre o recebimento'
+    );
+
+    const updated = await updateOrder(client, context, order, {
+      status: 'cancelado',
+      cancelled_at: new Date(),
+    });
+    return { ...updated, items: await orderItems(client, order.id) };
+  });
+}
+
+export async function runPurchaseAction(pool, action, input, context) {
+  switch (action) {
+    case 'save':
+      return savePurchaseOrder(pool, input, context);
+    case 'send':
+      return sendPurchaseOrder(pool, input, context);
+    case 'receive':
+      return receivePurchaseOrder(pool, input, context);
+    case 'cancel':
+      return cancelPurchaseOrder(pool, input, context);
+    default:
+      throw new HttpError(404, `Ação desconhecida: ${action}`);
+  }
+}
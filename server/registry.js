@@ -0,0 +1,314 @@
+import { HttpError } from './errors.js';
+
+// Registro das tabelas expostas pela API REST genérica.
+// Somente o que estiver descrito aqui pode ser lido ou escrito via /api/:table.
+//
+// - columns: colunas conhecidas da tabela
+// - hidden: colunas que nunca saem do servidor nem podem ser filtradas/escritas
+// - readOnly: colunas geradas pelo banco, ignoradas em insert/update
+// - operations: operações permitidas (select, insert, update, delete)
+// - roleColumns: por papel, as únicas colunas visíveis que ele pode ler ou filtrar
+// - relations: relações disponíveis no select (ex: "*, categories (id, name)")
+export const schema = {
+  profiles: {
+    columns: ['id', 'full_name', 'email', 'username', 'password_hash', 'role', 'created_at', 'updated_at'],
+    hidden: ['password_hash'],
+    readOnly: ['id', 'created_at', 'updated_at'],
+    operations: ['select', 'update'],
+    // Gestor só precisa do nome de quem registrou movimentações e aprovações
+    roleColumns: { gestor: ['id', 'full_name'] },
+    relations: {},
+  },
+  categories: {
+    columns: ['id', 'name', 'description', 'expiration_warning_days', 'created_at', 'updated_at'],
+    hidden: [],
+    readOnly: ['id', 'created_at', 'updated_at'],
+    operations: ['select', 'insert', 'update', 'delete'],
+    relations: {},
+  },
+  suppliers: {
+    columns: [
+      'id', 'name', 'contact_name', 'email', 'phone', 'address', 'lead_time_days', 'created_at', 'updated_at',
+    ],
+    hidden: [],
+    readOnly: ['id', 'created_at', 'updated_at'],
+    operations: ['select', 'insert', 'update', 'delete'],
+    relations: {},
+  },
+  products: {
+    columns: [
+      'id', 'name', 'qr_code', 'barcode', 'supplier_code', 'description', 'category_id', 'supplier_id',
+      'cost_price', 'sale_price', 'current_stock', 'minimum_stock', 'image_url', 'status',
+      'created_at', 'updated_at',
+    ],
+    hidden: [],
+    // current_stock é a soma de stock_balances, mantida pelo trigger das movimentações
+    readOnly: ['id', 'current_stock', 'created_at', 'updated_at'],
+    operations: ['select', 'insert', 'update', 'delete'],
+    relations: {
+      categories: { foreignKey: 'category_id', targetTable: 'categories' },
+      suppliers: { foreignKey: 'supplier_id', targetTable: 'suppliers' },
+    },
+  },
+  warehouses: {
+    columns: ['id', 'name', 'address', 'created_at', 'updated_at'],
+    hidden: [],
+    readOnly: ['id', 'created_at', 'updated_at'],
+    operations: ['select', 'insert', 'update', 'delete'],
+    relations: {},
+  },
+  locations: {
+    columns: ['id', 'warehouse_id', 'name', 'description', 'created_at', 'updated_at'],
+    hidden: [],
+    readOnly: ['id', 'created_at', 'updated_at'],
+    operations: ['select', 'insert', 'update', 'delete'],
+    relations: {
+      warehouses: { foreignKey: 'warehouse_id', targetTable: 'warehouses' },
+    },
+  },
+  // Saldos por local são mantidos pelo trigger das movimentações
+  stock_balances: {
+    columns: ['id', 'product_id', 'location_id', 'quantity', 'updated_at'],
+    hidden: [],
+    readOnly: ['id', 'product_id', 'location_id', 'quantity', 'updated_at'],
+    operations: ['select'],
+    relations: {
+      products: { foreignKey: 'product_id', targetTable: 'products' },
+      locations: { foreignKey: 'location_id', targetTable: 'locations' },
+    },
+  },
+  // Lotes são mantidos pelas movimentações (server/lots.js)
+  lots: {
+    columns: [
+      'id', 'product_id', 'location_id', 'lot_number', 'expiration_date', 'quantity', 'created_at', 'updated_at',
+    ],
+    hidden: [],
+    readOnly: ['id', 'product_id', 'location_id', 'lot_number', 'expiration_date', 'quantity', 'created_at', 'updated_at'],
+    operations: ['select'],
+    relations: {
+      products: { foreignKey: 'product_id', targetTable: 'products' },
+      locations: { foreignKey: 'location_id', targetTable: 'locations' },
+    },
+  },
+  stock_movement_lots: {
+    columns: ['id', 'movement_id', 'lot_id', 'quantity'],
+    hidden: [],
+    readOnly: ['id', 'movement_id', 'lot_id', 'quantity'],
+    operations: ['select'],
+    relations: {
+      stock_movements: { foreignKey: 'movement_id', targetTable: 'stock_movements' },
+      lots: { foreignKey: 'lot_id', targetTable: 'lots' },
+    },
+  },
+  // Movimentações só são criadas por POST /api/movements e /api/movements/reverse
+  stock_movements: {
+    columns: [
+      'id', 'product_id', 'location_id', 'user_id', 'type', 'quantity', 'previous_stock', 'new_stock',
+      'reason_id', 'reason', 'unit_cost', 'transfer_id', 'purchase_order_id', 'stocktake_id', 'sale_id',
+      'reversal_of', 'created_at',
+    ],
+    hidden: [],
+    readOnly: ['id', 'created_at'],
+    operations: ['select'],
+    relations: {
+      products: { foreignKey: 'product_id', targetTable: 'products' },
+      locations: { foreignKey: 'location_id', targetTable: 'locations' },
+      profiles: { foreignKey: 'user_id', targetTable: 'profiles' },
+      stock_transfers: { foreignKey: 'transfer_id', targetTable: 'stock_transfers' },
+      purchase_orders: { foreignKey: 'purchase_order_id', targetTable: 'purchase_orders' },
+      stocktakes: { foreignKey: 'stocktake_id', targetTable: 'stocktakes' },
+      sales: { foreignKey: 'sale_id', targetTable: 'sales' },
+      movement_reasons: { foreignKey: 'reason_id', targetTable: 'movement_reasons' },
+    },
+  },
+  // Solicitações de ajuste acima dos limites; revisadas por /api/movement-approvals
+  movement_approvals: {
+    columns: [
+      'id', 'product_id', 'location_id', 'type', 'quantity', 'previous_stock', 'unit_cost', 'reason_id',
+      'reason', 'lot_number', 'expiration_date', 'lots', 'status', 'requested_by', 'reviewed_by',
+      'reviewed_at', 'review_comment', 'movement_id', 'created_at', 'updated_at',
+    ],
+    hidden: [],
+    readOnly: ['id', 'created_at', 'updated_at'],
+    operations: ['select'],
+    relations: {
+      products: { foreignKey: 'product_id', targetTable: 'products' },
+      locations: { foreignKey: 'location_id', targetTable: 'locations' },
+      profiles: { foreignKey: 'requested_by', targetTable: 'profiles' },
+      movement_reasons: { foreignKey: 'reason_id', targetTable: 'movement_reasons' },
+    },
+  },
+  // Linha única com os limites de aprovação
+  approval_settings: {
+    columns: ['id', 'quantity_threshold', 'value_threshold', 'created_at', 'updated_at'],
+    hidden: [],
+    readOnly: ['id', 'created_at', 'updated_at'],
+    operations: ['select', 'update'],
+    relations: {},
+  },
+  // Catálogo de motivos; motivos em uso não podem ser excluídos, só desativados
+  movement_reasons: {
+    columns: ['id', 'movement_type', 'code', 'name', 'is_loss', 'active', 'created_at', 'updated_at'],
+    hidden: [],
+    readOnly: ['id', 'created_at', 'updated_at'],
+    operations: ['select', 'insert', 'update', 'delete'],
+    relations: {},
+  },
+  // Transferências só são alteradas por POST /api/transfers/:action
+  stock_transfers: {
+    columns: [
+      'id', 'origin_location_id', 'destination_location_id', 'status', 'notes', 'created_by',
+      'dispatched_at', 'received_at', 'created_at', 'updated_at',
+    ],
+    hidden: [],
+    readOnly: ['id', 'created_at', 'updated_at'],
+    operations: ['select'],
+    relations: {
+      profiles: { foreignKey: 'created_by', targetTable: 'profiles' },
+    },
+  },
+  stock_transfer_items: {
+    columns: ['id', 'transfer_id', 'product_id', 'quantity', 'received_quantity', 'created_at'],
+    hidden: [],
+    readOnly: ['id', 'created_at'],
+    operations: ['select'],
+    relations: {
+      stock_transfers: { foreignKey: 'transfer_id', targetTable: 'stock_transfers' },
+      products: { foreignKey: 'product_id', targetTable: 'products' },
+    },
+  },
+  // Pedidos de compra só mudam por POST /api/purchase-orders/:action
+  purchase_orders: {
+    columns: [
+      'id', 'number', 'supplier_id', 'status', 'expected_date', 'notes', 'created_by', 'sent_at',
+      'received_at', 'cancelled_at', 'created_at', 'updated_at',
+    ],
+    hidden: [],
+    readOnly: ['id', 'number', 'created_at', 'updated_at'],
+    operations: ['select'],
+    relations: {
+      suppliers: { foreignKey: 'supplier_id', targetTable: 'suppliers' },
+      profiles: { foreignKey: 'created_by', targetTable: 'profiles' },
+    },
+  },
+  purchase_order_items: {
+    columns: ['id', 'order_id', 'product_id', 'quantity', 'unit_cost', 'received_quantity', 'created_at'],
+    hidden: [],
+    readOnly: ['id', 'created_at'],
+    operations: ['select'],
+    relations: {
+      purchase_orders: { foreignKey: 'order_id', targetTable: 'purchase_orders' },
+      products: { foreignKey: 'product_id', targetTable: 'products' },
+    },
+  },
+  // Inventários só mudam por POST /api/stocktakes/:action
+  stocktakes: {
+    columns: [
+      'id', 'number', 'location_id', 'category_id', 'status', 'notes', 'created_by', 'approved_by',
+      'approved_at', 'cancelled_at', 'created_at', 'updated_at',
+    ],
+    hidden: [],
+    readOnly: ['id', 'number', 'created_at', 'updated_at'],
+    operations: ['select'],
+    relations: {
+      locations: { foreignKey: 'location_id', targetTable: 'locations' },
+      categories: { foreignKey: 'category_id', targetTable: 'categories' },
+      profiles: { foreignKey: 'created_by', targetTable: 'profiles' },
+    },
+  },
+  stocktake_items: {
+    columns: ['id', 'stocktake_id', 'product_id', 'counted_quantity', 'counted_by', 'counted_at', 'created_at'],
+    hidden: [],
+    readOnly: ['id', 'created_at'],
+    operations: ['select'],
+    relations: {
+      stocktakes: { foreignKey: 'stocktake_id', targetTable: 'stocktakes' },
+      products: { foreignKey: 'product_id', targetTable: 'products' },
+    },
+  },
+  // Vendas só são criadas por POST /api/sales/checkout
+  sales: {
+    columns: [
+      'id', 'number', 'location_id', 'payment_method', 'total', 'amount_paid', 'notes', 'created_by',
+      'created_at',
+    ],
+    hidden: [],
+    readOnly: ['id', 'number', 'created_at'],
+    operations: ['select'],
+    relations: {
+      locations: { foreignKey: 'location_id', targetTable: 'locations' },
+      profiles: { foreignKey: 'created_by', targetTable: 'profiles' },
+    },
+  },
+  sale_items: {
+    columns: ['id', 'sale_id', 'product_id', 'quantity', 'unit_price', 'created_at'],
+    hidden: [],
+    readOnly: ['id', 'created_at'],
+    operations: ['select'],
+    relations: {
+      sales: { foreignKey: 'sale_id', targetTable: 'sales' },
+      products: { foreignKey: 'product_id', targetTable: 'products' },
+    },
+  },
+  audit_logs: {
+    columns: ['id', 'user_id', 'action', 'table_name', 'record_id', 'changes', 'ip_address', 'user_agent', 'created_at'],
+    hidden: [],
+    readOnly: ['id', 'created_at'],
+    operations: ['select'],
+    relations: {
+      profiles: { foreignKey: 'user_id', targetTable: 'profiles' },
+    },
+  },
+};
+
+// Retorna a definição da tabela, validando se a operação é permitida
+export function resolveTable(table, operation) {
+  const def = Object.prototype.hasOwnProperty.call(schema, table) ? schema[table] : null;
+  if (!def) {
+    throw new HttpError(400, `Tabela não disponível: ${table}`);
+  }
+  if (!def.operations.includes(operation)) {
+    throw new HttpError(403, `Operação ${operation} não permitida em ${table}`);
+  }
+  return def;
+}
+
+// Colunas que podem ser devolvidas ao cliente (sem papel, todas as não ocultas)
+export function visibleColumns(table, role) {
+  const def = schema[table];
+  const allowed = role && def.roleColumns?.[role];
+  return def.columns.filter(c => !def.hidden.includes(c) && (!allowed || allowed.includes(c)));
+}
+
+// Garante que a coluna existe e é visível para o papel
+export function assertColumn(table, column, role) {
+  if (!visibleColumns(table, role).includes(column)) {
+    throw new HttpError(400, `Coluna inválida: ${table}.${column}`);
+  }
+  return column;
+}
+
+// Garante que todas as colunas de uma linha podem ser escritas
+export function assertWritable(table, row) {
+  const def = schema[table];
+  if (!row || typeof row !== 'object' || Array.isArray(row)) {
+    throw new HttpError(400, 'Corpo da requisição inválido');
+  }
+  for (const column of Object.keys(row)) {
+    assertColumn(table, column);
+    if (def.readOnly.includes(column)) {
+      throw new HttpError(400, `Coluna somente leitura: ${table}.${column}`);
+    }
+  }
+  return row;
+}
+
+// Resolve uma relação declarada para a tabela
+export function resolveRelation(table, name) {
+  const { relations } = schema[table];
+  const relation = Object.prototype.hasOwnProperty.call(relations, name) ? relations[name] : null;
+  if (!relation) {
+    throw new HttpError(400, `Relação inválida: ${table}.${name}`);
+  }
+  return relation;
+}
@@ -0,0 +1,108 @@
+import { parseWith } from './validation.js';
+import { replenishmentOptionsSchema } from '../src/lib/schemas.js';
+
+// Prazo usado para produtos sem fornecedor
+const DEFAULT_LEAD_TIME_DAYS = 7;
+
+// Consumo = saídas no período, sem as saídas de transferência (o estoque só
+// mudou de local) e sem estornos nem saídas estornadas. Pedidos de compra
+// abertos, inclusive rascunhos, contam como estoque a caminho para que a mesma
+// sugestão não vire dois pedidos.
+const SUGGESTIONS_QUERY = `
+  WITH consumption AS (
+    SELECT product_id, SUM(quantity)::int AS quantity
+    FROM stock_movements sm
+    WHERE type = 'saida'
+      AND transfer_id IS NULL
+      AND reversal_of IS NULL
+      AND NOT EXISTS (SELECT 1 FROM stock_movements rv WHERE rv.reversal_of = sm.id)
+      AND created_at >= now() - make_interval(days => $1)
+    GROUP BY product_id
+  ),
+  on_order AS (
+    SELECT i.product_id, SUM(i.quantity - i.received_quantity)::int AS quantity
+    FROM purchase_order_items i
+    JOIN purchase_orders o ON o.id = i.order_id
+    WHERE o.status IN ('rascunho', 'enviado', 'parcialmente_recebido')
+    GROUP BY i.product_id
+  )
+  SELECT p.id, p.name, p.supplier_id, s.name AS supplier_name, s.lead_time_days,
+         p.current_stock, p.minimum_stock, p.cost_price,
+         COALESCE(c.quantity, 0) AS consumed, COALESCE(o.quantity, 0) AS on_order
+  FROM products p
+  LEFT JOIN suppliers s ON s.id = p.supplier_id
+  LEFT JOIN consumption c ON c.product_id = p.id
+  LEFT JOIN on_order o ON o.product_id = p.id
+  WHERE p.status = 'ativo'
+  ORDER BY p.name
+`;
+
+// Sugestão para um produto, ou null se o estoque disponível cobre o prazo de entrega.
+//   estoque de segurança = consumo diário × dias de segurança (nunca abaixo do mínimo)
+//   ponto de pedido      = consumo diário × prazo do fornecedor + segurança
+//   quantidade           = consumo até a chegada + cobertura + segurança − (estoque + a caminho)
+function suggest(product, options) {
+  const dailyConsumption = product.consumed / options.history_days;
+  const leadTime = product.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS;
+  const safetyStock = Math.max(product.minimum_stock, Math.ceil(dailyConsumption * options.safety_days));
+  const reorderPoint = Math.ceil(dailyConsumption * leadTime) + safetyStock;
+  const available = product.current_stock + product.on_order;
+
+  if (available > reorderPoint || (dailyConsumption === 0 && available > product.minimum_stock)) {
+    return null;
+  }
+
+  const target = Math.ceil(dailyConsumption * (leadTime + options.coverage_days)) + safetyStock;
+  const quantity = Math.max(target - available, 1);
+  const costPrice = Number(product.cost_price);
+
+  return {
+    product_id: product.id,
+    name: product.name,
+    current_stock: product.current_stock,
+    on_order: product.on_order,
+    minimum_stock: product.minimum_stock,
+    daily_consumption: Math.round(dailyConsumption * 100) / 100,
+    days_of_stock: dailyConsumption > 0 ? Math.floor(available / dailyConsumption) : null,
+    safety_stock: safetyStock,
+    reorder_point: reorderPoint,
+    quantity,
+    unit_cost: costPrice,
+    total_cost: Math.round(quantity * costPrice * 100) / 100,
+  };
+}
+
+// Sugestões de compra agrupadas por fornecedor (supplier_id null = sem fornecedor)
+export async function reorderSuggestions(pool, query) {
+  const options = parseWith(replenishmentOptionsSchema, query || {});
+  const { rows } = await pool.query(SUGGESTIONS_QUERY, [options.history_days]);
+
+  const groups = new Map();
+  for (const product of rows) {
+    const suggestion = suggest(product, options);
+    if (!suggestion) continue;
+
+    const key = product.supplier_id || null;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        supplier_id: key,
+        supplier_name: product.supplier_name || null,
+        lead_time_days: product.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS,
+        items: [],
+        total_cost: 0,
+      });
+    }
+    const group = groups.get(key);
+    group.items.push(suggestion);
+    group.total_cost = Math.round((group.total_cost + suggestion.total_cost) * 100) / 100;
+  }
+
+  // Fornecedores em ordem alfabética, produtos sem fornecedor por último
+  const suppliers = [...groups.values()].sort((a, b) => {
+    if (!a.supplier_id) return 1;
+    if (!b.supplier_id) return -1;
+    return a.supplier_name.localeCompare(b.supplier_name);
+  });
+
+  return { options, suppliers };
+}
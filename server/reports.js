@@ -0,0 +1,75 @@
+import { parseWith } from './validation.js';
+import { lossReportFiltersSchema } from '../src/lib/schemas.js';
+
+// Período padrão quando o filtro não traz datas
+const DEFAULT_PERIOD_DAYS = 30;
+
+const isoDate = date => date.toISOString().slice(0, 10);
+
+// Perda = quanto o estoque caiu (previous_stock − new_stock), o que vale tanto
+// para saídas quanto para ajustes para baixo, a custo da época da movimentação.
+// Além dos motivos is_loss, entra a falta apurada em inventário (o saldo
+// contado abaixo do sistema), seja qual for o motivo: é a quebra sem causa
+// identificada. Movimentações estornadas não contam.
+const LOSSES_CTE = `
+  WITH losses AS (
+    SELECT sm.created_at, r.id AS reason_id,
+           COALESCE(r.name, 'Diferença de inventário') AS reason_name, sm.type AS movement_type,
+           c.id AS category_id, c.name AS category_name,
+           sm.previous_stock - sm.new_stock AS quantity,
+           (sm.previous_stock - sm.new_stock) * COALESCE(sm.unit_cost, p.cost_price) AS cost
+    FROM stock_movements sm
+    LEFT JOIN movement_reasons r ON r.id = sm.reason_id
+    JOIN products p ON p.id = sm.product_id
+    LEFT JOIN categories c ON c.id = p.category_id
+    WHERE sm.new_stock < sm.previous_stock
+      AND (r.is_loss OR sm.type = 'inventario')
+      AND NOT EXISTS (SELECT 1 FROM stock_movements rv WHERE rv.reversal_of = sm.id)
+      AND sm.created_at >= $1::date
+      AND sm.created_at < $2::date + 1
+      AND ($3::uuid IS NULL OR p.category_id = $3)
+  )
+`;
+
+const toGroup = row => ({ ...row, quantity: Number(row.quantity), cost: Number(row.cost) });
+
+// Perdas no período agrupadas por motivo, categoria e mês
+export async function lossesReport(pool, query) {
+  const filters = parseWith(lossReportFiltersSchema, query || {});
+  const dateTo = filters.date_to || isoDate(new Date());
+  const dateFrom =
+    filters.date_from || isoDate(new Date(Date.now() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000));
+  const params = [dateFrom, dateTo, filters.category_id || null];
+
+  const [byReason, byCategory, byMonth] = await Promise.all([
+    pool.query(
+      `${LOSSES_CTE}
+       SELECT reason_id, reason_name, movement_type, SUM(quantity) AS quantity, SUM(cost) AS cost
+       FROM losses GROUP BY reason_id, reason_name, movement_type ORDER BY SUM(cost) DESC`,
+      params
+    ),
+    pool.query(
+      `${LOSSES_CTE}
+       SELECT category_id, category_name, SUM(quantity) AS quantity, SUM(cost) AS cost
+       FROM losses GROUP BY category_id, category_name ORDER BY SUM(cost) DESC`,
+      params
+    ),
+    pool.query(
+      `${LOSSES_CTE}
+       SELECT to_char(date_trunc('month', created_at), 'YYYY-MM') AS month,
+              SUM(quantity) AS quantity, SUM(cost) AS cost
+       FROM losses GROUP BY 1 ORDER BY 1`,
+      params
+    ),
+  ]);
+
+  const reasons = byReason.rows.map(toGroup);
+  return {
+    filters: { date_from: dateFrom, date_to: dateTo, category_id: filters.category_id || null },
+    total_quantity: reasons.reduce((acc, row) => acc + row.quantity, 0),
+    total_cost: Math.round(reasons.reduce((acc, row) => acc + row.cost, 0) * 100) / 100,
+    by_reason: reasons,
+    by_category: byCategory.rows.map(toGroup),
+    by_month: byMonth.rows.map(toGroup),
+  };
+}
@@ -0,0 +1,385 @@
+import { diffRows, recordAudit } from './audit.js';
+import { authorize } from './authorization.js';
+import { withTransaction } from './db.js';
+import { HttpError } from './errors.js';
+import {
+  assertColumn,
+  assertWritable,
+  resolveRelation,
+  resolveTable,
+  schema,
+  visibleColumns,
+} from './registry.js';
+import { validateRow } from './validation.js';
+
+// Parâmetros de query que não são filtros
+const RESERVED_PARAMS = ['select', 'count', 'head', 'order', 'limit', 'offset'];
+
+// Helper function to parse filters
+export const parseFilter = (raw) => {
+  if (typeof raw !== 'string') return { op: 'eq', value: raw };
+  const m = raw.match(/^(\w+)\.(.*)$/);
+  if (m) return { op: m[1], value: m[2] };
+  return { op: 'eq', value: raw };
+};
+
+const COMPARISON_OPERATORS = {
+  eq: '=',
+  neq: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'LIKE',
+  ilike: 'ILIKE',
+};
+
+// Divide "a,b,(c,d),\"e,f\"" nas vírgulas de primeiro nível,
+// respeitando parênteses e valores entre aspas (onde \" e \\ são escapes)
+function splitTopLevel(str) {
+  const parts = [];
+  let depth = 0;
+  let quoted = false;
+  let escaped = false;
+  let current = '';
+
+  for (const char of str) {
+    if (escaped) {
+      escaped = false;
+      current += char;
+      continue;
+    }
+    if (quoted && char === '\\') escaped = true;
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(p => p !== '');
+}
+
+function unquote(value) {
+  return /^".*"$/.test(value) ? value.slice(1, -1).replace(/\\(["\\])/g, '$1') : value;
+}
+
+function unwrapList(value) {
+  const m = String(value).match(/^\((.*)\)$/);
+  if (!m) throw new HttpError(400, `Lista inválida: ${value}`);
+  return m[1];
+}
+
+// Resolve "coluna" ou "relacao.coluna" para o identificador SQL.
+// Relações usadas em filtros são registradas em `joins` para entrarem no FROM.
+function resolveFilterColumn(table, key, joins, role) {
+  const [first, second] = key.split('.');
+  if (second === undefined) {
+    return `${table}.${assertColumn(table, first, role)}`;
+  }
+  if (!joins) {
+    throw new HttpError(400, `Filtro por relação não suportado: ${key}`);
+  }
+  const relation = resolveRelation(table, first);
+  joins.add(first);
+  return `${relation.targetTable}.${assertColumn(relation.targetTable, second, role)}`;
+}
+
+// Converte o padrão da API para o LIKE do Postgres. Os demais escapes ("\%",
+// "\_", "\\") seguem como estão, já que o LIKE usa a mesma barra.
+function likePattern(value) {
+  return value.replace(/\\(.)|\*/g, (match, escaped) =>
+    escaped === undefined ? '%' : escaped === '*' ? '*' : match
+  );
+}
+
+// Monta uma condição SQL para "op.valor" aplicada a uma coluna já resolvida
+function buildCondition(column, op, value, params) {
+  if (COMPARISON_OPERATORS[op]) {
+    // Em like/ilike o curinga "*" equivale a "%"; "\*" é um asterisco literal
+    params.push(op === 'like' || op === 'ilike' ? likePattern(value) : value);
+    return `${column} ${COMPARISON_OPERATORS[op]} $${params.length}`;
+  }
+  if (op === 'in') {
+    params.push(splitTopLevel(unwrapList(value)).map(unquote));
+    return `${column} = ANY($${params.length})`;
+  }
+  if (op === 'is') {
+    return value === 'null' ? `${column} IS NULL` : `${column} IS NOT NULL`;
+  }
+  if (op === 'not') {
+    // Handle not.eq.value format
+    const { op: notOp, value: notValue } = parseFilter(value);
+    return `NOT (${buildCondition(column, notOp, notValue, params)})`;
+  }
+  throw new HttpError(400, `Operador não suportado: ${op}`);
+}
+
+// Condição "coluna.op.valor" usada dentro de or=(...)
+function buildOrPart(table, part, params, joins, role) {
+  const segments = part.split('.');
+  const isRelation =
+    segments.length > 3 && Object.prototype.hasOwnProperty.call(schema[table].relations, segments[0]);
+  const columnKey = isRelation ? segments.slice(0, 2).join('.') : segments[0];
+  const rest = segments.slice(isRelation ? 2 : 1).join('.');
+  const { op, value } = parseFilter(rest);
+  return buildCondition(resolveFilterColumn(table, columnKey, joins, role), op, unquote(value), params);
+}
+
+// Monta as condições WHERE a partir dos filtros da query string.
+// Filtros repetidos na mesma coluna (?price=gte.1&price=lte.9) são combinados com AND.
+// Com `role`, só valem as colunas que o papel pode ler (ver roleColumns no registro).
+function buildWhere(table, query, params, joins = null, role = undefined) {
+  const where = [];
+
+  for (const key of Object.keys(query)) {
+    if (RESERVED_PARAMS.includes(key)) continue;
+
+    for (const raw of [].concat(query[key])) {
+      if (key === 'or') {
+        const parts = splitTopLevel(unwrapList(raw));
+        if (parts.length === 0) throw new HttpError(400, 'Filtro or vazio');
+        where.push(`(${parts.map(part => buildOrPart(table, part, params, joins, role)).join(' OR ')})`);
+        continue;
+      }
+      const { op, value } = parseFilter(raw);
+      where.push(buildCondition(resolveFilterColumn(table, key, joins, role), op, value, params));
+    }
+  }
+
+  return where;
+}
+
+// Expande "*" para as colunas visíveis da tabela
+function expandColumns(table, columns, role) {
+  const expanded = [];
+  for (const column of columns) {
+    if (column === '*') {
+      expanded.push(...visibleColumns(table, role));
+    } else {
+      expanded.push(assertColumn(table, column, role));
+    }
+  }
+  return [...new Set(expanded)];
+}
+
+// Parser para o select do Supabase (ex: "*, categories (id, name)")
+export function parseSupabaseSelect(selectStr, table, role) {
+  const relations = [];
+  const mainColumns = [];
+
+  // Remove whitespace excessivo
+  const cleaned = selectStr.replace(/\s+/g, ' ').trim();
+
+  // Regex para encontrar relações: nome_tabela (colunas)
+  const relationRegex = /(\w+)\s*\(([^)]+)\)/g;
+  let match;
+  let tempStr = cleaned;
+
+  while ((match = relationRegex.exec(cleaned)) !== null) {
+    const relationName = match[1];
+    const relation = resolveRelation(table, relationName);
+    const relationColumns = match[2].split(',').map(c => c.trim()).filter(Boolean);
+
+    relations.push({
+      name: relationName,
+      columns: expandColumns(relation.targetTable, relationColumns, role),
+      ...relation,
+    });
+
+    // Remove a relação da string para pegar as colunas principais
+    tempStr = tempStr.replace(match[0], '');
+  }
+
+  // Pega as colunas principais (o que sobrou)
+  const mainColsStr = tempStr.replace(/,\s*,/g, ',').replace(/^,|,$/g, '').trim();
+  if (mainColsStr) {
+    mainColsStr.split(',').forEach(col => {
+      const trimmed = col.trim();
+      if (trimmed) {
+        mainColumns.push(trimmed);
+      }
+    });
+  }
+
+  return {
+    mainColumns: expandColumns(table, mainColumns.length > 0 ? mainColumns : ['*'], role),
+    relations,
+  };
+}
+
+function returningClause(table) {
+  return visibleColumns(table).join(', ');
+}
+
+function parseNonNegativeInt(value, name) {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new HttpError(400, `${name} inválido: ${value}`);
+  }
+  return parsed;
+}
+
+// Executa o select paginado. Com count=exact também calcula o total de linhas
+// que atendem aos filtros; com head=true apenas o total é consultado.
+// Relações embutidas ou filtradas exigem do usuário permissão de leitura na
+// tabela de destino, senão o embed exporia o que a tabela não expõe.
+export async function selectRows(pool, table, query, user) {
+  resolveTable(table, 'select');
+
+  const role = user?.role;
+  const { mainColumns, relations } = parseSupabaseSelect(query.select || '*', table, role);
+  const params = [];
+  const filterJoins = new Set();
+  const where = buildWhere(table, query, params, filterJoins, role);
+  for (const relation of [...relations, ...[...filterJoins].map(name => resolveRelation(table, name))]) {
+    authorize(user, relation.targetTable, 'select');
+  }
+  const whereClause = where.length ? ' WHERE ' + where.join(' AND ') : '';
+  const head = query.head === 'true';
+  const offset = query.offset !== undefined ? parseNonNegativeInt(query.offset, 'Offset') : 0;
+
+  const joinFor = (name) => {
+    const rel = resolveRelation(table, name);
+    return `LEFT JOIN ${rel.targetTable} ON ${table}.${rel.foreignKey} = ${rel.targetTable}.id`;
+  };
+
+  let count = null;
+  if (query.count === 'exact' || head) {
+    const countJoins = [...filterJoins].map(joinFor).join(' ');
+    const countResult = await pool.query(`SELECT count(*)::int AS count FROM ${table} ${countJoins}${whereClause}`, params);
+    count = countResult.rows[0].count;
+  }
+  if (head) {
+    return { rows: [], count, offset };
+  }
+
+  let selectClause = mainColumns.map(c => `${table}.${c}`).join(', ');
+
+  // Adicionar colunas das relações como JSON
+  const joinNames = new Set(filterJoins);
+  relations.forEach(rel => {
+    const relCols = rel.columns.map(c => `'${c}', ${rel.targetTable}.${c}`).join(', ');
+    selectClause += `, json_build_object(${relCols}) as ${rel.name}`;
+    joinNames.add(rel.name);
+  });
+  const joins = [...joinNames].map(joinFor);
+
+  let orderClause = '';
+  if (query.order) {
+    const [orderCol, orderDir] = String(query.order).split('.');
+    // id como desempate mantém a paginação estável
+    orderClause = ` ORDER BY ${table}.${assertColumn(table, orderCol, role)} ${orderDir === 'desc' ? 'DESC' : 'ASC'}, ${table}.id`;
+  }
+
+  let limitClause = '';
+  if (query.limit !== undefined) {
+    limitClause = ` LIMIT ${parseNonNegativeInt(query.limit, 'Limite')}`;
+  }
+  if (offset > 0) {
+    limitClause += ` OFFSET ${offset}`;
+  }
+
+  const q = `SELECT ${selectClause} FROM ${table} ${joins.join(' ')}${whereClause}${orderClause}${limitClause}`;
+  const result = await pool.query(q, params);
+  return { rows: result.rows, count, offset };
+}
+
+// Informa o intervalo devolvido e o total no formato "0-24/123" (como o PostgREST)
+export function setContentRange(res, { rows, count, offset }) {
+  const range = rows.length > 0 ? `${offset}-${offset + rows.length - 1}` : '*';
+  res.setHeader('Content-Range', `${range}/${count ?? '*'}`);
+}
+
+// Escritas rodam em transação e registram um evento de auditoria por linha
+// afetada (context = requestContext(req), ver server/audit.js)
+export async function insertRows(pool, table, body, context) {
+  resolveTable(table, 'insert');
+
+  const rows = (Array.isArray(body) ? body : [body]).map(row =>
+    validateRow(table, assertWritable(table, row))
+  );
+
+  const inserted = await withTransaction(pool, async client => {
+    const result = [];
+    for (const row of rows) {
+      const cols = Object.keys(row);
+      const vals = Object.values(row);
+      const placeholders = vals.map((_, i) => `$${i + 1}`).join(', ');
+      const q = `INSERT INTO ${table} (${cols.join(',')}) VALUES (${placeholders}) RETURNING ${returningClause(table)}`;
+      const r = await client.query(q, vals);
+      await recordAudit(client, context, {
+        action: 'create',
+        table,
+        recordId: r.rows[0].id,
+        changes: diffRows(null, r.rows[0]),
+      });
+      result.push(r.rows[0]);
+    }
+    return result;
+  });
+  return inserted.length === 1 ? inserted[0] : inserted;
+}
+
+export async function updateRows(pool, table, query, body, context) {
+  resolveTable(table, 'update');
+
+  const values = validateRow(table, assertWritable(table, body || {}), { partial: true });
+  const setCols = Object.keys(values);
+  if (setCols.length === 0) throw new HttpError(400, 'Missing body for update');
+
+  const whereParams = [];
+  const where = buildWhere(table, query, whereParams);
+  if (where.length === 0) throw new HttpError(400, 'Missing filter for update');
+
+  return withTransaction(pool, async client => {
+    // Trava as linhas afetadas para registrar o estado anterior
+    const before = await client.query(
+      `SELECT ${returningClause(table)} FROM ${table} WHERE ${where.join(' AND ')} FOR UPDATE`,
+      whereParams
+    );
+    if (before.rows.length === 0) return [];
+
+    const params = [...setCols.map(c => values[c]), before.rows.map(r => r.id)];
+    const setClause = setCols.map((c, i) => `${c} = $${i + 1}`).join(', ');
+    const q = `UPDATE ${table} SET ${setClause} WHERE id = ANY($${params.length}) RETURNING ${returningClause(table)}`;
+    const r = await client.query(q, params);
+
+    for (const row of r.rows) {
+      await recordAudit(client, context, {
+        action: 'update',
+        table,
+        recordId: row.id,
+        changes: diffRows(before.rows.find(b => b.id === row.id), row),
+      });
+    }
+    return r.rows;
+  });
+}
+
+export async function deleteRows(pool, table, query, context) {
+  resolveTable(table, 'delete');
+
+  const params = [];
+  const where = buildWhere(table, query, params);
+  if (where.length === 0) throw new HttpError(400, 'Missing filter for delete');
+
+  return withTransaction(pool, async client => {
+    const q = `DELETE FROM ${table} WHERE ${where.join(' AND ')} RETURNING ${returningClause(table)}`;
+    const r = await client.query(q, params);
+
+    for (const row of r.rows) {
+      await recordAudit(client, context, {
+        action: 'delete',
+        table,
+        recordId: row.id,
+        changes: diffRows(row, null),
+      });
+    }
+    return r.rows;
+  });
+}
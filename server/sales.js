@@ -0,0 +1,106 @@
+import { diffRows, recordAudit } from './audit.js';
+import { withTransaction } from './db.js';
+import { HttpError } from './errors.js';
+import { findReasonId, insertMovement } from './movements.js';
+import { parseWith } from './validation.js';
+import { saleSchema } from '../src/lib/schemas.js';
+
+// Fecha uma venda do caixa: grava a venda com os itens ao preço de venda atual
+// de cada produto e uma saída (motivo "venda") por item no local do caixa, tudo
+// na mesma transação. Falta de estoque em qualquer item desfaz a venda inteira.
+export async function createSale(pool, input, context) {
+  const { user_id } = input || {};
+  const data = parseWith(saleSchema, input || {});
+
+  if (data.payment_method !== 'dinheiro' && data.amount_paid != null) {
+    throw new HttpError(400, 'Valor recebido só se aplica a pagamentos em dinheiro', [
+      { field: 'amount_paid', message: 'Informe apenas para pagamento em dinheiro' },
+    ]);
+  }
+
+  // Em ordem de produto, a mesma em que as linhas são travadas pelas movimentações
+  const items = [...data.items].sort((a, b) => a.product_id.localeCompare(b.product_id));
+
+  return withTransaction(pool, async client => {
+    const { rows: products } = await client.query(
+      'SELECT id, name, sale_price FROM products WHERE id = ANY($1::uuid[])',
+      [items.map(item => item.product_id)]
+    );
+    const prices = new Map(products.map(product => [product.id, Number(product.sale_price)]));
+    for (const [index, item] of data.items.entries()) {
+      if (!prices.has(item.product_id)) {
+        throw new HttpError(404, 'Produto não encontrado', [
+          { field: `items.${index}.product_id`, message: 'Produto não encontrado' },
+        ]);
+      }
+    }
+
+    // Em centavos, para o total não acumular erro de ponto flutuante
+    const totalCents = items.reduce(
+      (acc, item) => acc + Math.round(prices.get(item.product_id) * 100) * item.quantity,
+      0
+    );
+    const total = totalCents / 100;
+    if (data.amount_paid != null && Math.round(data.amount_paid * 100) < totalCents) {
+      throw new HttpError(400, 'Valor recebido menor que o total da venda', [
+        { field: 'amount_paid', message: `Total: ${total.toFixed(2)}` },
+      ]);
+    }
+
+    const { rows: [sale] } = await client.query(
+      `INSERT INTO sales (location_id, payment_method, total, amount_paid, notes, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [
+        data.location_id,
+        data.payment_method,
+        total,
+        data.amount_paid ?? null,
+        data.notes || null,
+        user_id || null,
+      ]
+    );
+
+    const reasonId = await findReasonId(client, 'saida', 'venda');
+    const saleItems = [];
+    for (const item of items) {
+      await insertMovement(
+        client,
+        {
+          product_id: item.product_id,
+          location_id: data.location_id,
+          user_id,
+          type: 'saida',
+          quantity: item.quantity,
+          reason_id: reasonId,
+          reason: `Venda #${sale.number}`,
+          sale_id: sale.id,
+        },
+        context,
+        { errorField: 'items' }
+      );
+
+      const { rows: [saleItem] } = await client.query(
+        `INSERT INTO sale_items (sale_id, product_id, quantity, unit_price)
+         VALUES ($1, $2, $3, $4) RETURNING *`,
+        [sale.id, item.product_id, item.quantity, prices.get(item.product_id)]
+      );
+      saleItems.push(saleItem);
+    }
+
+    await recordAudit(client, context, {
+      action: 'create',
+      table: 'sales',
+      recordId: sale.id,
+      changes: diffRows(null, {
+        ...sale,
+        items: saleItems.map(({ product_id, quantity, unit_price }) => ({
+          product_id,
+          quantity,
+          unit_price: Number(unit_price),
+        })),
+      }),
+    });
+
+    return { ...sale, items: saleItems };
+  });
+}
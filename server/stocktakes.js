@@ -0,0 +1,234 @@
+import { diffRows, recordAudit } from './audit.js';
+import { withTransaction } from './db.js';
+import { HttpError } from './errors.js';
+import { findReasonId, insertMovement } from './movements.js';
+import { parseWith } from './validation.js';
+import {
+  stocktakeApprovalSchema,
+  stocktakeCountSchema,
+  stocktakeSchema,
+} from '../src/lib/schemas.js';
+
+async function lockStocktake(client, id) {
+  if (!id) throw new HttpError(400, 'id é obrigatório');
+
+  const { rows } = await client.query('SELECT * FROM stocktakes WHERE id = $1 FOR UPDATE', [id]);
+  if (rows.length === 0) {
+    throw new HttpError(404, 'Inventário não encontrado');
+  }
+  return rows[0];
+}
+
+function assertCounting(stocktake, message) {
+  if (stocktake.status !== 'em_contagem') {
+    throw new HttpError(409, message);
+  }
+}
+
+async function updateStocktake(client, context, stocktake, changes) {
+  const columns = Object.keys(changes);
+  const assignments = columns.map((column, index) => `${column} = $${index + 2}`);
+  const updated = await client.query(
+    `UPDATE stocktakes SET ${assignments.join(', ')} WHERE id = $1 RETURNING *`,
+    [stocktake.id, ...columns.map(column => changes[column])]
+  );
+
+  await recordAudit(client, context, {
+    action: 'update',
+    table: 'stocktakes',
+    recordId: stocktake.id,
+    changes: diffRows(stocktake, updated.rows[0]),
+  });
+  return updated.rows[0];
+}
+
+// Abre a contagem de um local com todos os produtos ativos do escopo
+export async function startStocktake(pool, input, context) {
+  const { user_id } = input || {};
+  const data = parseWith(stocktakeSchema, input || {});
+  const categoryId = data.category_id || null;
+
+  return withTransaction(pool, async client => {
+    const location = await client.query('SELECT id FROM locations WHERE id = $1', [data.location_id]);
+    if (location.rows.length === 0) {
+      throw new HttpError(404, 'Local não encontrado', [
+        { field: 'location_id', message: 'Local não encontrado' },
+      ]);
+    }
+
+    const open = await client.query(
+      "SELECT number FROM stocktakes WHERE location_id = $1 AND status = 'em_contagem'",
+      [data.location_id]
+    );
+    if (open.rows.length > 0) {
+      throw new HttpError(409, `O inventário #${open.rows[0].number} já está em contagem neste local`, [
+        { field: 'location_id', message: 'Já existe uma contagem aberta neste local' },
+      ]);
+    }
+
+    const products = await client.query(
+      "SELECT id FROM products WHERE status = 'ativo' AND ($1::uuid IS NULL OR category_id = $1)",
+      [categoryId]
+    );
+    if (products.rows.length === 0) {
+      throw new HttpError(400, 'Nenhum produto ativo no escopo do inventário', [
+        { field: 'category_id', message: 'Categoria sem produtos ativos' },
+      ]);
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO stocktakes (location_id, category_id, notes, created_by)
+       VALUES ($1, $2, $3, $4) RETURNING *`,
+      [data.location_id, categoryId, data.notes || null, user_id || null]
+    );
+    const stocktake = inserted.rows[0];
+
+    const items = await client.query(
+      `INSERT INTO stocktake_items (stocktake_id, product_id)
+       SELECT $1, unnest($2::uuid[]) RETURNING *`,
+      [stocktake.id, products.rows.map(product => product.id)]
+    );
+
+    await recordAudit(client, context, {
+      action: 'create',
+      table: 'stocktakes',
+      recordId: stocktake.id,
+      changes: diffRows(null, stocktake),
+    });
+
+    return { ...stocktake, items: items.rows };
+  });
+}
+
+// Registra uma leitura da contagem cega. A resposta não traz o saldo do sistema.
+export async function countStocktakeItem(pool, input, context) {
+  const { id, user_id } = input || {};
+  const count = parseWith(stocktakeCountSchema, {
+    product_id: input?.product_id,
+    quantity: input?.quantity,
+    mode: input?.mode,
+  });
+
+  return withTransaction(pool, async client => {
+    const stocktake = await lockStocktake(client, id);
+    assertCounting(stocktake, 'Este inventário não está mais em contagem');
+
+    const { rows } = await client.query(
+      'SELECT * FROM stocktake_items WHERE stocktake_id = $1 AND product_id = $2 FOR UPDATE',
+      [stocktake.id, count.product_id]
+    );
+    if (rows.length === 0) {
+      throw new HttpError(409, 'Produto fora do escopo deste inventário', [
+        { field: 'product_id', message: 'Produto fora do escopo' },
+      ]);
+    }
+
+    const item = rows[0];
+    const counted = count.mode === 'set'
+      ? count.quantity
+      : (item.counted_quantity ?? 0) + count.quantity;
+
+    const updated = await client.query(
+      `UPDATE stocktake_items
+       SET counted_quantity = $2, counted_by = $3, counted_at = now()
+       WHERE id = $1 RETURNING *`,
+      [item.id, counted, user_id || null]
+    );
+
+    await recordAudit(client, context, {
+      action: 'update',
+      table: 'stocktake_items',
+      recordId: item.id,
+      changes: diffRows(item, updated.rows[0]),
+    });
+
+    return updated.rows[0];
+  });
+}
+
+// Aprova a contagem: cada item contado vira um 'inventario' com o estoque
+// contado, tudo na mesma transação. A diferença é apurada contra o saldo do
+// local no momento da aprovação e fica em previous_stock/new_stock.
+export async function approveStocktake(pool, input, context) {
+  const { id, user_id } = input || {};
+  const approval = parseWith(stocktakeApprovalSchema, { zero_uncounted: input?.zero_uncounted });
+
+  return withTransaction(pool, async client => {
+    const stocktake = await lockStocktake(client, id);
+    assertCounting(stocktake, 'Somente inventários em contagem podem ser aprovados');
+
+    // Em ordem de produto, a mesma em que as linhas são travadas pelas movimentações
+    const { rows: items } = await client.query(
+      'SELECT * FROM stocktake_items WHERE stocktake_id = $1 ORDER BY product_id',
+      [stocktake.id]
+    );
+    const toPost = items.filter(item => item.counted_quantity !== null || approval.zero_uncounted);
+    if (toPost.length === 0) {
+      throw new HttpError(400, 'Nenhum produto foi contado');
+    }
+
+    const reasonId = await findReasonId(client, 'inventario', 'contagem');
+    const movements = [];
+    for (const item of toPost) {
+      movements.push(
+        await insertMovement(
+          client,
+          {
+            product_id: item.product_id,
+            location_id: stocktake.location_id,
+            user_id,
+            type: 'inventario',
+            quantity: item.counted_quantity ?? 0,
+            reason_id: reasonId,
+            reason: `Inventário #${stocktake.number}`,
+            stocktake_id: stocktake.id,
+          },
+          context
+        )
+      );
+    }
+
+    const approved = await updateStocktake(client, context, stocktake, {
+      status: 'aprovado',
+      approved_by: user_id || null,
+      approved_at: new Date(),
+    });
+    return { ...approved, movements };
+  });
+}
+
+// Descarta a contagem sem mexer no estoque
+export async function cancelStocktake(pool, input, context) {
+  const { id } = input || {};
+
+  return withTransaction(pool, async client => {
+    const stocktake = await lockStocktake(client, id);
+    assertCounting(stocktake, 'Somente inventários em contagem podem ser cancelados');
+
+    return updateStocktake(client, context, stocktake, {
+      status: 'cancelado',
+      cancelled_at: new Date(),
+    });
+  });
+}
+
+// Permissão exigida por ação: contar é operacional, aprovar altera o estoque
+export function stocktakeActionPermission(action) {
+  return action === 'approve' ? 'stocktakes.approve' : 'stocktakes.count';
+}
+
+// Ponto de entrada de POST /api/stocktakes/:action
+export function runStocktakeAction(pool, action, input, context) {
+  switch (action) {
+    case 'start':
+      return startStocktake(pool, input, context);
+    case 'count':
+      return countStocktakeItem(pool, input, context);
+    case 'approve':
+      return approveStocktake(pool, input, context);
+    case 'cancel':
+      return cancelStocktake(pool, input, context);
+    default:
+      throw new HttpError(404, `Ação de inventário desconhecida: ${action}`);
+  }
+}
@@ -0,0 +1,359 @@
+import { diffRows, recordAudit } from './audit.js';
+import { withTransaction } from './db.js';
+import { HttpError } from './errors.js';
+import { findReasonId, insertMovement } from './movements.js';
+import { parseWith } from './validation.js';
+import { transferReceiptSchema, transferSchema } from '../src/lib/schemas.js';
+
+async function lockTransfer(client, id) {
+  if (!id) throw new HttpError(400, 'id é obrigatório');
+
+  const { rows } = await client.query('SELECT * FROM stock_transfers WHERE id = $1 FOR UPDATE', [id]);
+  if (rows.length === 0) {
+    throw new HttpError(404, 'Transferência não encontrada');
+  }
+  return rows[0];
+}
+
+function assertStatus(transfer, status, message) {
+  if (transfer.status !== status) {
+    throw new HttpError(409, message);
+  }
+}
+
+// Itens em ordem de produto, a mesma em que as linhas são travadas pelas movimentações
+async function transferItems(client, transferId) {
+  const { rows } = await client.query(
+    'SELECT * FROM stock_transfer_items WHERE transfer_id = $1 ORDER BY product_id',
+    [transferId]
+  );
+  return rows;
+}
+
+// "Depósito · Local", usado na justificativa das movimentações
+async function locationLabel(client, locationId) {
+  const { rows } = await client.query(
+    `SELECT w.name AS warehouse, l.name
+     FROM locations l JOIN warehouses w ON w.id = l.warehouse_id
+     WHERE l.id = $1`,
+    [locationId]
+  );
+  if (rows.length === 0) {
+    throw new HttpError(404, 'Local não encontrado');
+  }
+  return `${rows[0].warehouse} · ${rows[0].name}`;
+}
+
+const summarizeItems = items => items.map(({ product_id, quantity }) => ({ product_id, quantity }));
+
+// Cria um rascunho, ou substitui origem/destino/itens de um rascunho existente (input.id)
+export async function saveTransfer(pool, input, context) {
+  const { id, user_id } = input || {};
+  const data = parseWith(transferSchema, input || {});
+
+  return withTransaction(pool, async client => {
+    await locationLabel(client, data.origin_location_id);
+    await locationLabel(client, data.destination_location_id);
+
+    let before = null;
+    let transfer;
+    if (id) {
+      before = await lockTransfer(client, id);
+      assertStatus(before, 'rascunho', 'Somente rascunhos podem ser editados');
+      before.items = summarizeItems(await transferItems(client, id));
+
+      const updated = await client.query(
+        `UPDATE stock_transfers
+         SET origin_location_id = $2, destination_location_id = $3, notes = $4
+         WHERE id = $1 RETURNING *`,
+        [id, data.origin_location_id, data.destination_location_id, data.notes || null]
+      );
+      transfer = updated.rows[0];
+      await client.query('DELETE FROM stock_transfer_items WHERE transfer_id = $1', [id]);
+    } else {
+      const inserted = await client.query(
+        `INSERT INTO stock_transfers (origin_location_id, destination_location_id, notes, created_by)
+         VALUES ($1, $2, $3, $4) RETURNING *`,
+        [data.origin_location_id, data.destination_location_id, data.notes || null, user_id || null]
+      );
+      transfer = inserted.rows[0];
+    }
+
+    const items = [];
+    for (const item of data.items) {
+      const inserted = await client.query(
+        `INSERT INTO stock_transfer_items (transfer_id, product_id, quantity)
+         VALUES ($1, $2, $3) RETURNING *`,
+        [transfer.id, item.product_id, item.quantity]
+      );
+      items.push(inserted.rows[0]);
+    }
+
+    await recordAudit(client, context, {
+      action: id ? 'update' : 'create',
+      table: 'stock_transfers',
+      recordId: transfer.id,
+      changes: diffRows(before, { ...transfer, items: summarizeItems(items) }),
+    });
+
+    return { ...transfer, items };
+  });
+}
+
+// Envia o rascunho: tira todos os itens da origem de uma vez, ou nenhum
+export async function dispatchTransfer(pool, input, context) {
+  const { id, user_id } = input || {};
+
+  return withTransaction(pool, async client => {
+    const transfer = await lockTransfer(client, id);
+    assertStatus(transfer, 'rascunho', 'Somente rascunhos podem ser enviados');
+
+    const items = await transferItems(client, transfer.id);
+    if (items.length === 0) {
+      throw new HttpError(400, 'Transferência sem itens');
+    }
+
+    const destination = await locationLabel(client, transfer.destination_location_id);
+    for (const item of items) {
+      await insertMovement(
+        client,
+        {
+          product_id: item.product_id,
+          location_id: transfer.origin_location_id,
+          user_id,
+          type: 'saida',
+          quantity: item.quantity,
+          reason: `Transferência para ${destination}`,
+          transfer_id: transfer.id,
+        },
+        context,
+        { errorField: 'items' }
+      );
+    }
+
+    const updated = await client.query(
+      `UPDATE stock_transfers SET status = 'em_transito', dispatched_at = now()
+       WHERE id = $1 RETURNING *`,
+      [transfer.id]
+    );
+
+    await recordAudit(client, context, {
+      action: 'update',
+      table: 'stock_transfers',
+      recordId: transfer.id,
+      changes: diffRows(transfer, updated.rows[0]),
+    });
+
+    return { ...updated.rows[0], items };
+  });
+}
+
+// Lotes que saíram da origem para o item, descontando o que já foi recebido:
+// o recebimento recria na ordem FEFO os mesmos lotes (número e validade) no destino
+async function incomingLots(client, transfer, item, quantity) {
+  const { rows } = await client.query(
+    `SELECT l.lot_number, l.expiration_date::text AS expiration_date, sml.quantity
+     FROM stock_movement_lots sml
+     JOIN stock_movements sm ON sm.id = sml.movement_id
+     JOIN lots l ON l.id = sml.lot_id
+     WHERE sm.transfer_id = $1 AND sm.product_id = $2 AND sm.type = 'saida'
+     ORDER BY l.expiration_date NULLS LAST, l.created_at`,
+    [transfer.id, item.product_id]
+  );
+
+  let skip = item.received_quantity;
+  let remaining = quantity;
+  const lots = [];
+  for (const lot of rows) {
+    const available = lot.quantity - Math.min(skip, lot.quantity);
+    skip = Math.max(skip - lot.quantity, 0);
+    const take = Math.min(available, remaining);
+    if (take > 0) {
+      lots.push({ lot_number: lot.lot_number, expiration_date: lot.expiration_date, quantity: take });
+      remaining -= take;
+    }
+  }
+  if (remaining > 0) {
+    lots.push({ lot_number: null, expiration_date: null, quantity: remaining });
+  }
+  return lots;
+}
+
+// Encerrar com faltas: o que não chegou já saiu da origem, então entra no
+// destino e sai dele dos mesmos lotes como extravio (motivo de perda), para
+// constar no relatório de perdas. received_quantity continua sendo o que chegou.
+async function writeOffShortfall(client, transfer, items, origin, user_id, context) {
+  const reasonId = await findReasonId(client, 'saida', 'extravio');
+
+  for (const item of items) {
+    const missing = item.quantity - item.received_quantity;
+    if (missing === 0) continue;
+
+    const arrival = await insertMovement(
+      client,
+      {
+        product_id: item.product_id,
+        location_id: transfer.destination_location_id,
+        user_id,
+        type: 'entrada',
+        quantity: missing,
+        reason: `Transferência de ${origin}`,
+        transfer_id: transfer.id,
+        incoming_lots: await incomingLots(client, transfer, item, missing),
+      },
+      context
+    );
+    const { rows: lots } = await client.query(
+      'SELECT lot_id, quantity FROM stock_movement_lots WHERE movement_id = $1',
+      [arrival.id]
+    );
+
+    await insertMovement(
+      client,
+      {
+        product_id: item.product_id,
+        location_id: transfer.destination_location_id,
+        user_id,
+        type: 'saida',
+        quantity: missing,
+        reason_id: reasonId,
+        reason: `Extravio na transferência de ${origin}`,
+        transfer_id: transfer.id,
+        lots,
+      },
+      context
+    );
+  }
+}
+
+// Recebe uma transferência em trânsito, total ou parcialmente. Ela só é
+// concluída quando todos os itens chegam ou quando input.close encerra com
+// faltas, lançadas como extravio.
+export async function receiveTransfer(pool, input, context) {
+  const { id, user_id } = input || {};
+  const receipt = parseWith(transferReceiptSchema, {
+    items: input?.items ?? [],
+    close: input?.close,
+  });
+
+  return withTransaction(pool, async client => {
+    const transfer = await lockTransfer(client, id);
+    assertStatus(transfer, 'em_transito', 'Somente transferências em trânsito podem ser recebidas');
+
+    const items = new Map((await transferItems(client, transfer.id)).map(item => [item.id, item]));
+    const origin = await locationLabel(client, transfer.origin_location_id);
+    let receivedAny = false;
+
+    for (const [index, line] of receipt.items.entries()) {
+      if (line.quantity === 0) continue;
+
+      const item = items.get(line.item_id);
+      if (!item) {
+        throw new HttpError(400, 'Item não pertence à transferência', [
+          { field: `items.${index}.item_id`, message: 'Item inválido' },
+        ]);
+      }
+
+      const pending = item.quantity - item.received_quantity;
+      if (line.quantity > pending) {
+        throw new HttpError(409, 'Quantidade recebida maior que a pendente', [
+          { field: `items.${index}.quantity`, message: `Pendente: ${pending}` },
+        ]);
+      }
+
+      await insertMovement(
+        client,
+        {
+          product_id: item.product_id,
+          location_id: transfer.destination_location_id,
+          user_id,
+          type: 'entrada',
+          quantity: line.quantity,
+          reason: `Transferência de ${origin}`,
+          transfer_id: transfer.id,
+          incoming_lots: await incomingLots(client, transfer, item, line.quantity),
+        },
+        context
+      );
+
+      const updated = await client.query(
+        `UPDATE stock_transfer_items SET received_quantity = received_quantity + $2
+         WHERE id = $1 RETURNING *`,
+        [item.id, line.quantity]
+      );
+      await recordAudit(client, context, {
+        action: 'update',
+        table: 'stock_transfer_items',
+        recordId: item.id,
+        changes: diffRows(item, updated.rows[0]),
+      });
+
+      items.set(item.id, updated.rows[0]);
+      receivedAny = true;
+    }
+
+    if (!receivedAny && !receipt.close) {
+      throw new HttpError(400, 'Informe a quantidade recebida de pelo menos um item');
+    }
+
+    const complete = [...items.values()].every(item => item.received_quantity === item.quantity);
+    let result = transfer;
+    if (complete || receipt.close) {
+      if (!complete) {
+        await writeOffShortfall(client, transfer, [...items.values()], origin, user_id, context);
+      }
+
+      const updated = await client.query(
+        `UPDATE stock_transfers SET status = 'recebida', received_at = now()
+         WHERE id = $1 RETURNING *`,
+        [transfer.id]
+      );
+      result = updated.rows[0];
+
+      await recordAudit(client, context, {
+        action: 'update',
+        table: 'stock_transfers',
+        recordId: transfer.id,
+        changes: diffRows(transfer, result),
+      });
+    }
+
+    return { ...result, items: [...items.values()] };
+  });
+}
+
+// Rascunhos ainda não movimentaram estoque e podem ser descartados
+export async function discardTransfer(pool, input, context) {
+  const { id } = input || {};
+
+  return withTransaction(pool, async client => {
+    const transfer = await lockTransfer(client, id);
+    assertStatus(transfer, 'rascunho', 'Somente rascunhos podem ser excluídos');
+
+    await client.query('DELETE FROM stock_transfers WHERE id = $1', [transfer.id]);
+    await recordAudit(client, context, {
+      action: 'delete',
+      table: 'stock_transfers',
+      recordId: transfer.id,
+      changes: diffRows(transfer, null),
+    });
+
+    return transfer;
+  });
+}
+
+// Ponto de entrada de POST /api/transfers/:action
+export function runTransferAction(pool, action, input, context) {
+  switch (action) {
+    case 'save':
+      return saveTransfer(pool, input, context);
+    case 'dispatch':
+      return dispatchTransfer(pool, input, context);
+    case 'receive':
+      return receiveTransfer(pool, input, context);
+    case 'discard':
+      return discardTransfer(pool, input, context);
+    default:
+      throw new HttpError(404, `Ação de transferência desconhecida: ${action}`);
+  }
+}
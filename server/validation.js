@@ -0,0 +1,27 @@
+import { HttpError } from './errors.js';
+import { tableSchemas } from '../src/lib/schemas.js';
+
+// Converte os issues do zod em [{ field, message }]
+export function fieldErrors(zodError) {
+  return zodError.issues.map(issue => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
+// Valida um objeto com um schema zod; falhas viram 400 com os erros por campo
+export function parseWith(schema, value) {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new HttpError(400, 'Dados inválidos', fieldErrors(result.error));
+  }
+  return result.data;
+}
+
+// Valida o corpo de POST (partial = false) ou PATCH (partial = true) de uma tabela.
+// Colunas fora do schema passam adiante; quem decide se existem é o registro.
+export function validateRow(table, row, { partial = false } = {}) {
+  const schema = tableSchemas[table];
+  if (!schema) return row;
+  return parseWith((partial ? schema.partial() : schema).passthrough(), row);
+}
@@ -10,10 +10,20 @@ import ProductNew from "./pages/ProductNew";
 import ProductEdit from "./pages/ProductEdit";
 import ProductDetails from "./pages/ProductDetails";
 import Movements from "./pages/Movements";
+import Transfers from "./pages/Transfers";
+import Expirations from "./pages/Expirations";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import Reorder from "./pages/Reorder";
+import Stocktakes from "./pages/Stocktakes";
+import Approvals from "./pages/Approvals";
+import StocktakeSession from "./pages/StocktakeSession";
 import Suppliers from "./pages/Suppliers";
 import Categories from "./pages/Categories";
+import MovementReasons from "./pages/MovementReasons";
+import Locations from "./pages/Locations";
 import Users from "./pages/Users";
 import Scanner from "./pages/Scanner";
+import Checkout from "./pages/Checkout";
 import Reports from "./pages/Reports";
 import NotFound from "./pages/NotFound";
 
@@ -34,10 +44,20 @@ const App = () => (
           <Route path="/products/:id" element={<ProductDetails />} />
           <Route path="/products/:id/edit" element={<ProductEdit />} />
           <Route path="/movements" element={<Movements />} />
+          <Route path="/transfers" element={<Transfers />} />
+          <Route path="/stocktakes" element={<Stocktakes />} />
+          <Route path="/stocktakes/:id" element={<StocktakeSession />} />
+          <Route path="/approvals" element={<Approvals />} />
+          <Route path="/expirations" element={<Expirations />} />
           <Route path="/suppliers" element={<Suppliers />} />
+          <Route path="/purchase-orders" element={<PurchaseOrders />} />
+          <Route path="/reorder" element={<Reorder />} />
           <Route path="/categories" element={<Categories />} />
+          <Route path="/movement-reasons" element={<MovementReasons />} />
+          <Route path="/locations" element={<Locations />} />
           <Route path="/users" element={<Users />} />
           <Route path="/scanner" element={<Scanner />} />
+          <Route path="/checkout" element={<Checkout />} />
           <Route path="/reports" element={<Reports />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
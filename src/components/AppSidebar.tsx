@@ -12,6 +12,15 @@ import {
   Wand2,
   PlusCircle,
   ScanLine,
+  Warehouse,
+  ArrowLeftRight,
+  CalendarClock,
+  ClipboardList,
+  PackagePlus,
+  ClipboardCheck,
+  Tags,
+  ShieldCheck,
+  Store,
 } from "lucide-react";
 import { NavLink } from "@/components/NavLink";
 import { useLocation, useNavigate } from "react-router-dom";
@@ -37,13 +46,22 @@ import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 
 export const menuItems = [
-  { title: "Dashboard", url: "/dashboard", icon: Home, roles: ["admin", "gestor"] },
-  { title: "Produtos", url: "/products", icon: Package, roles: ["admin", "gestor"] },
-  { title: "Categorias", url: "/categories", icon: FolderTree, roles: ["admin", "gestor"] },
-  { title: "Movimentações", url: "/movements", icon: ShoppingCart, roles: ["admin", "gestor"] },
-  { title: "Scanner QR", url: "/scanner", icon: QrCode, roles: ["admin", "gestor"] },
-  { title: "Fornecedores", url: "/suppliers", icon: Users, roles: ["admin", "gestor"] },
-  { title: "Relatórios", url: "/reports", icon: BarChart3, roles: ["admin"] },
+  { title: "Dashboard", url: "/dashboard", icon: Home },
+  { title: "Produtos", url: "/products", icon: Package },
+  { title: "Categorias", url: "/categories", icon: FolderTree },
+  { title: "Locais de Estoque", url: "/locations", icon: Warehouse },
+  { title: "Movimentações", url: "/movements", icon: ShoppingCart },
+  { title: "Motivos", url: "/movement-reasons", icon: Tags },
+  { title: "Transferências", url: "/transfers", icon: ArrowLeftRight },
+  { title: "Inventário", url: "/stocktakes", icon: ClipboardCheck },
+  { title: "Aprovações", url: "/approvals", icon: ShieldCheck },
+  { title: "Vencimentos", url: "/expirations", icon: CalendarClock },
+  { title: "Scanner QR", url: "/scanner", icon: QrCode },
+  { title: "Caixa", url: "/checkout", icon: Store },
+  { title: "Fornecedores", url: "/suppliers", icon: Users },
+  { title: "Pedidos de Compra", url: "/purchase-orders", icon: ClipboardList },
+  { title: "Reposição", url: "/reorder", icon: PackagePlus },
+  { title: "Relatórios", url: "/reports", icon: BarChart3 },
 ];
 
 export const adminItems = [
@@ -55,9 +73,8 @@ export function AppSidebar() {
   const location = useLocation();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { isAdmin, profile, isLoading } = useUserRole();
+  const { isAdmin, profile, isLoading, canAccess } = useUserRole();
   const currentPath = location.pathname;
-  const role = profile?.role || "gestor";
   const initials = profile?.full_name
     ? profile.full_name
         .split(" ")
@@ -82,10 +99,9 @@ export function AppSidebar() {
     }
   };
 
-  // Filtrar itens do menu baseado no role
-  const visibleMenuItems = menuItems.filter((item) =>
-    item.roles.includes(role as string)
-  );
+  // Filtrar itens do menu baseado nas permissões do papel
+  const visibleMenuItems = menuItems.filter((item) => canAccess(item.url));
+  const visibleAdminItems = adminItems.filter((item) => canAccess(item.url));
 
   return (
     <Sidebar
@@ -198,7 +214,7 @@ export function AppSidebar() {
         </SidebarGroup>
 
         {/* Menu Admin (apenas para administradores) */}
-        {isAdmin && (
+        {visibleAdminItems.length > 0 && (
           <>
             {open && <Separator className="my-2" />}
             <SidebarGroup>
@@ -214,7 +230,7 @@ export function AppSidebar() {
               </SidebarGroupLabel>
               <SidebarGroupContent>
                 <SidebarMenu>
-                  {adminItems.map((item) => (
+                  {visibleAdminItems.map((item) => (
                     <SidebarMenuItem key={item.title}>
                       <SidebarMenuButton asChild>
                         <NavLink
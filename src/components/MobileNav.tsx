@@ -13,7 +13,7 @@ import { adminItems, menuItems } from "./AppSidebar";
 
 export function MobileNav() {
   const [open, setOpen] = useState(false);
-  const { profile, isAdmin, role } = useUserRole();
+  const { profile, isAdmin, canAccess } = useUserRole();
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -26,7 +26,8 @@ export function MobileNav() {
         .toUpperCase()
     : "MM";
 
-  const visibleMenuItems = menuItems.filter((item) => item.roles.includes(role || ""));
+  const visibleMenuItems = menuItems.filter((item) => canAccess(item.url));
+  const visibleAdminItems = adminItems.filter((item) => canAccess(item.url));
 
   const handleNavigate = (path: string) => {
     navigate(path);
@@ -100,11 +101,11 @@ export function MobileNav() {
             </nav>
           </div>
 
-          {isAdmin && (
+          {visibleAdminItems.length > 0 && (
             <div className="space-y-2">
               <p className="text-xs uppercase tracking-[0.24em] text-sidebar-foreground/60">Administração</p>
               <nav className="flex flex-col gap-1">
-                {adminItems.map((item) => (
+                {visibleAdminItems.map((item) => (
                   <SheetClose asChild key={item.title}>
                     <NavLink
                       to={item.url}
@@ -0,0 +1,152 @@
+import type { ReactNode } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface AuditLog {
+  id: string;
+  user_id: string | null;
+  action: string;
+  table_name: string;
+  record_id: string | null;
+  changes: Json | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  profiles: {
+    full_name: string;
+    role: string;
+  };
+}
+
+interface FieldChange {
+  field: string;
+  before: Json;
+  after: Json;
+}
+
+// O servidor grava changes como { campo: { before, after } }
+function fieldChanges(changes: Json | null): FieldChange[] | null {
+  if (!changes || typeof changes !== "object" || Array.isArray(changes)) return null;
+
+  const result: FieldChange[] = [];
+  for (const [field, value] of Object.entries(changes)) {
+    if (!value || typeof value !== "object" || Array.isArray(value) || !("before" in value || "after" in value)) {
+      return null;
+    }
+    result.push({ field, before: value.before ?? null, after: value.after ?? null });
+  }
+  return result;
+}
+
+function formatValue(value: Json) {
+  if (value === null || value === undefined || value === "") {
+    return <span className="text-muted-foreground">—</span>;
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+interface AuditLogDetailsProps {
+  log: AuditLog | null;
+  actionBadge: ReactNode;
+  tableLabel: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AuditLogDetails({ log, actionBadge, tableLabel, onOpenChange }: AuditLogDetailsProps) {
+  const changes = log ? fieldChanges(log.changes) : null;
+
+  return (
+    <Dialog open={!!log} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Detalhes do registro {actionBadge}
+          </DialogTitle>
+          <DialogDescription>
+            {log &&
+              format(new Date(log.created_at), "dd/MM/yyyy 'às' HH:mm:ss", {
+                locale: ptBR,
+              })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {log && (
+          <div className="space-y-4">
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+              <div>
+                <dt className="text-muted-foreground">Usuário</dt>
+                <dd className="font-medium">{log.profiles?.full_name || "N/A"}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Tabela</dt>
+                <dd className="font-medium">{tableLabel}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Registro</dt>
+                <dd className="font-mono text-xs break-all">{log.record_id || "—"}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Endereço IP</dt>
+                <dd className="font-mono text-xs">{log.ip_address || "—"}</dd>
+              </div>
+              <div className="sm:col-span-2">
+                <dt className="text-muted-foreground">Navegador</dt>
+                <dd className="text-xs break-all">{log.user_agent || "—"}</dd>
+              </div>
+            </dl>
+
+            {changes && changes.length > 0 && (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Campo</TableHead>
+                      <TableHead>Antes</TableHead>
+                      <TableHead>Depois</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changes.map(({ field, before, after }) => (
+                      <TableRow key={field}>
+                        <TableCell className="font-mono text-xs">{field}</TableCell>
+                        <TableCell className="text-xs break-all text-destructive">
+                          {formatValue(before)}
+                        </TableCell>
+                        <TableCell className="text-xs break-all text-success">
+                          {formatValue(after)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {/* Registros antigos podem ter outro formato em changes */}
+            {!changes && log.changes && (
+              <pre className="text-xs p-2 bg-muted rounded overflow-auto max-h-64">
+                {JSON.stringify(log.changes, null, 2)}
+              </pre>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
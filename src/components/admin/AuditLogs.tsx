@@ -1,5 +1,7 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { escapeLike, quoteFilterValue } from "@/lib/db";
+import { useDebounce } from "@/hooks/use-debounce";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Table,
@@ -20,23 +22,21 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { Loader2, Shield, Search, Filter, X } from "lucide-react";
+import { Loader2, Shield, Search, Filter, X, Eye } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { PaginationControls } from "@/components/shared/PaginationControls";
+import { AuditLogDetails, type AuditLog } from "./AuditLogDetails";
 
-interface AuditLog {
-  id: string;
-  user_id: string;
-  action: string;
-  table_name: string;
-  record_id: string | null;
-  changes: any;
-  created_at: string;
-  profiles: {
-    full_name: string;
-    role: string;
-  };
-}
+const PAGE_SIZE = 25;
+
+const TABLE_LABELS: Record<string, string> = {
+  products: "Produtos",
+  stock_movements: "Movimentações",
+  suppliers: "Fornecedores",
+  categories: "Categorias",
+  profiles: "Usuários",
+};
 
 interface AuditLogsProps {
   limit?: number;
@@ -49,34 +49,54 @@ export function AuditLogs({ limit, userId }: AuditLogsProps) {
   const [filterAction, setFilterAction] = useState<string>("all");
   const [filterTable, setFilterTable] = useState<string>("all");
   const [searchTerm, setSearchTerm] = useState("");
+  const debouncedSearch = useDebounce(searchTerm.trim());
+  const [page, setPage] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [selectedLog, setSelectedLog] = useState<AuditLog | null>(null);
 
   useEffect(() => {
     loadLogs();
-  }, [userId]);
+  }, [userId, page, filterAction, filterTable, debouncedSearch]);
 
   const loadLogs = async () => {
-    setIsLoading(true);
+    // O spinner só cobre a primeira carga, para não desmontar os filtros durante a busca
     try {
       let query = supabase
         .from("audit_logs")
         .select(`
           *,
           profiles (full_name, role)
-        `)
+        `, { count: "exact" })
         .order("created_at", { ascending: false });
 
       if (userId) {
         query = query.eq("user_id", userId);
       }
 
+      if (filterAction !== "all") {
+        query = query.eq("action", filterAction);
+      }
+
+      if (filterTable !== "all") {
+        query = query.eq("table_name", filterTable);
+      }
+
+      if (debouncedSearch) {
+        const pattern = quoteFilterValue(`*${escapeLike(debouncedSearch)}*`);
+        query = query.or(`profiles.full_name.ilike.${pattern},table_name.ilike.${pattern}`);
+      }
+
       if (limit) {
         query = query.limit(limit);
+      } else {
+        query = query.range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
       }
 
-      const { data, error } = await query;
+      const { data, error, count } = await query;
 
       if (error) throw error;
       setLogs(data || []);
+      setTotal(count || 0);
     } catch (error) {
       console.error("Erro ao carregar logs:", error);
       toast.error("Erro ao carregar logs de auditoria");
@@ -85,21 +105,26 @@ export function AuditLogs({ limit, userId }: AuditLogsProps) {
     }
   };
 
-  const filteredLogs = logs.filter((log) => {
-    const matchesAction = filterAction === "all" || log.action === filterAction;
-    const matchesTable = filterTable === "all" || log.table_name === filterTable;
-    const matchesSearch =
-      !searchTerm ||
-      log.profiles?.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      log.table_name.toLowerCase().includes(searchTerm.toLowerCase());
+  const handleSearchChange = (value: string) => {
+    setSearchTerm(value);
+    setPage(0);
+  };
+
+  const handleActionChange = (value: string) => {
+    setFilterAction(value);
+    setPage(0);
+  };
 
-    return matchesAction && matchesTable && matchesSearch;
-  });
+  const handleTableChange = (value: string) => {
+    setFilterTable(value);
+    setPage(0);
+  };
 
   const clearFilters = () => {
     setFilterAction("all");
     setFilterTable("all");
     setSearchTerm("");
+    setPage(0);
   };
 
   const hasFilters = filterAction !== "all" || filterTable !== "all" || searchTerm !== "";
@@ -121,19 +146,7 @@ export function AuditLogs({ limit, userId }: AuditLogsProps) {
     return <Badge variant={config.variant}>{config.label}</Badge>;
   };
 
-  const getTableLabel = (tableName: string) => {
-    const labels: Record<string, string> = {
-      products: "Produtos",
-      stock_movements: "Movimentações",
-      suppliers: "Fornecedores",
-      categories: "Categorias",
-      profiles: "Usuários",
-    };
-
-    return labels[tableName] || tableName;
-  };
-
-  const uniqueTables = Array.from(new Set(logs.map((log) => log.table_name)));
+  const getTableLabel = (tableName: string) => TABLE_LABELS[tableName] || tableName;
 
   if (isLoading) {
     return (
@@ -171,11 +184,11 @@ export function AuditLogs({ limit, userId }: AuditLogsProps) {
             <Input
               placeholder="Buscar por usuário ou tabela..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => handleSearchChange(e.target.value)}
               className="md:col-span-2"
             />
 
-            <Select value={filterAction} onValueChange={setFilterAction}>
+            <Select value={filterAction} onValueChange={handleActionChange}>
               <SelectTrigger>
                 <SelectValue placeholder="Ação" />
               </SelectTrigger>
@@ -190,13 +203,13 @@ export function AuditLogs({ limit, userId }: AuditLogsProps) {
             </Select>
 
             <div className="flex gap-2">
-              <Select value={filterTable} onValueChange={setFilterTable}>
+              <Select value={filterTable} onValueChange={handleTableChange}>
                 <SelectTrigger>
                   <SelectValue placeholder="Tabela" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Todas as tabelas</SelectItem>
-                  {uniqueTables.map((table) => (
+                  {Object.keys(TABLE_LABELS).map((table) => (
                     <SelectItem key={table} value={table}>
                       {getTableLabel(table)}
                     </SelectItem>
@@ -226,14 +239,14 @@ export function AuditLogs({ limit, userId }: AuditLogsProps) {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredLogs.length === 0 ? (
+              {logs.length === 0 ? (
                 <TableRow>
                   <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
                     Nenhum log encontrado
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredLogs.map((log) => (
+                logs.map((log) => (
                   <TableRow key={log.id}>
                     <TableCell className="whitespace-nowrap">
                       <div className="text-sm">
@@ -270,16 +283,15 @@ export function AuditLogs({ limit, userId }: AuditLogsProps) {
                     </TableCell>
 
                     <TableCell className="max-w-xs">
-                      {log.changes && (
-                        <details className="cursor-pointer">
-                          <summary className="text-xs text-muted-foreground hover:text-foreground">
-                            Ver mudanças
-                          </summary>
-                          <pre className="text-xs mt-2 p-2 bg-muted rounded overflow-auto max-h-32">
-                            {JSON.stringify(log.changes, null, 2)}
-                          </pre>
-                        </details>
-                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => setSelectedLog(log)}
+                      >
+                        <Eye className="h-3 w-3 mr-1" />
+                        Ver detalhes
+                      </Button>
                       {log.record_id && (
                         <p className="text-xs text-muted-foreground font-mono truncate">
                           ID: {log.record_id.substring(0, 8)}...
@@ -294,11 +306,27 @@ export function AuditLogs({ limit, userId }: AuditLogsProps) {
         </div>
 
         {/* Info */}
-        <div className="text-sm text-muted-foreground text-center">
-          {filteredLogs.length} registro(s)
-          {limit && logs.length >= limit && " (limitado)"}
-        </div>
+        {limit ? (
+          <div className="text-sm text-muted-foreground text-center">
+            {logs.length} registro(s)
+            {total > limit && " (limitado)"}
+          </div>
+        ) : (
+          <PaginationControls
+            page={page}
+            pageSize={PAGE_SIZE}
+            total={total}
+            onPageChange={setPage}
+          />
+        )}
       </CardContent>
+
+      <AuditLogDetails
+        log={selectedLog}
+        actionBadge={selectedLog && getActionBadge(selectedLog.action)}
+        tableLabel={selectedLog ? getTableLabel(selectedLog.table_name) : ""}
+        onOpenChange={(open) => !open && setSelectedLog(null)}
+      />
     </Card>
   );
 }
@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { suggestedMarkdown, type ExpiringLot } from "@/lib/expirations";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { AlertTriangle, Loader2 } from "lucide-react";
+
+interface MarkdownDialogProps {
+  lot: ExpiringLot | null;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+// Remarcação: reduz o preço de venda do produto para escoar o lote antes do vencimento
+export function MarkdownDialog({ lot, onOpenChange, onSuccess }: MarkdownDialogProps) {
+  const [discount, setDiscount] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (lot) setDiscount(suggestedMarkdown(lot.daysLeft));
+  }, [lot]);
+
+  const currentPrice = Number(lot?.products.sale_price || 0);
+  const costPrice = Number(lot?.products.cost_price || 0);
+  const newPrice = Math.round(currentPrice * (100 - discount)) / 100;
+
+  const handleSubmit = async () => {
+    if (!lot) return;
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from("products")
+        .update({ sale_price: newPrice })
+        .eq("id", lot.product_id);
+
+      if (error) throw error;
+
+      toast.success("Preço remarcado com sucesso!");
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error("Erro ao remarcar preço:", error);
+      toast.error("Erro ao remarcar preço", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatPrice = (value: number) =>
+    `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}`;
+
+  return (
+    <Dialog open={!!lot} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Remarcar Preço</DialogTitle>
+          <DialogDescription>
+            {lot &&
+              `${lot.products.name} · ${
+                lot.daysLeft < 0 ? "lote vencido" : `vence em ${lot.daysLeft} dia(s)`
+              }`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {lot && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="markdown-discount">Desconto (%)</Label>
+              <Input
+                id="markdown-discount"
+                type="number"
+                min="1"
+                max="99"
+                value={discount}
+                onChange={(e) =>
+                  setDiscount(Math.min(Math.max(parseInt(e.target.value) || 0, 0), 99))
+                }
+                disabled={isSubmitting}
+              />
+              <p className="text-sm text-muted-foreground">
+                Sugerido: {suggestedMarkdown(lot.daysLeft)}% para o prazo restante
+              </p>
+            </div>
+
+            <dl className="grid grid-cols-3 gap-3 text-sm">
+              <div>
+                <dt className="text-muted-foreground">Preço atual</dt>
+                <dd className="font-medium">{formatPrice(currentPrice)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Novo preço</dt>
+                <dd className="font-semibold text-success">{formatPrice(newPrice)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Custo</dt>
+                <dd className="font-medium">{formatPrice(costPrice)}</dd>
+              </div>
+            </dl>
+
+            {newPrice < costPrice && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>O novo preço fica abaixo do custo do produto</AlertDescription>
+              </Alert>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              O preço vale para o produto inteiro, não só para este lote.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || discount <= 0}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Aplicar Remarcação
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { ExpiringLot } from "@/lib/expirations";
+import { formatLotLabel } from "@/components/movements/LotAllocation";
+import { useMovementReasons } from "@/hooks/use-movement-reasons";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface WriteOffDialogProps {
+  lot: ExpiringLot | null;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+// Baixa do lote como perda: uma saída no local do lote, consumindo exatamente esse lote
+export function WriteOffDialog({ lot, onOpenChange, onSuccess }: WriteOffDialogProps) {
+  const [quantity, setQuantity] = useState(0);
+  const [reasonId, setReasonId] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { reasons } = useMovementReasons();
+
+  // Motivos de saída marcados como perda no catálogo
+  const lossReasons = reasons.filter((r) => r.movement_type === "saida" && r.is_loss);
+  const selectedReason = lossReasons.find((r) => r.id === reasonId);
+
+  useEffect(() => {
+    if (!lot) return;
+    setQuantity(lot.quantity);
+    const defaultCode = lot.daysLeft < 0 ? "vencimento" : "descarte_preventivo";
+    setReasonId(lossReasons.find((r) => r.code === defaultCode)?.id || "");
+  }, [lot, reasons]);
+
+  const handleSubmit = async () => {
+    if (!lot || quantity <= 0 || !selectedReason) return;
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.movements.create({
+        product_id: lot.product_id,
+        location_id: lot.location_id,
+        type: "saida",
+        quantity,
+        reason_id: selectedReason.id,
+        reason: `Perda: ${selectedReason.name}`,
+        lots: [{ lot_id: lot.id, quantity }],
+      });
+
+      if (error) throw error;
+
+      toast.success("Baixa registrada com sucesso!");
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error("Erro ao registrar baixa:", error);
+      toast.error("Erro ao registrar baixa", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!lot} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Dar Baixa no Lote</DialogTitle>
+          <DialogDescription>
+            {lot && `${lot.products.name} · ${formatLotLabel(lot)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {lot && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="write-off-quantity">Quantidade</Label>
+              <Input
+                id="write-off-quantity"
+                type="number"
+                min="1"
+                max={lot.quantity}
+                value={quantity}
+                onChange={(e) =>
+                  setQuantity(Math.min(Math.max(parseInt(e.target.value) || 0, 0), lot.quantity))
+                }
+                disabled={isSubmitting}
+              />
+              <p className="text-sm text-muted-foreground">
+                Saldo do lote: {lot.quantity} · Perda de R${" "}
+                {(quantity * Number(lot.products.cost_price)).toLocaleString("pt-BR", {
+                  minimumFractionDigits: 2,
+                })}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Motivo da perda</Label>
+              <Select value={reasonId} onValueChange={setReasonId} disabled={isSubmitting}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o motivo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {lossReasons.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancelar
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={isSubmitting || quantity <= 0 || !selectedReason}
+          >
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Confirmar Baixa
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
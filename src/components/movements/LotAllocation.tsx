@@ -0,0 +1,120 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export interface AvailableLot {
+  id: string;
+  lot_number: string | null;
+  expiration_date: string | null;
+  quantity: number;
+}
+
+interface LotAllocationProps {
+  lots: AvailableLot[];
+  quantity: number;
+  manual: boolean;
+  onManualChange: (manual: boolean) => void;
+  allocation: Record<string, number>;
+  onAllocationChange: (allocation: Record<string, number>) => void;
+  disabled?: boolean;
+  error?: string;
+}
+
+export const formatLotLabel = (lot: Pick<AvailableLot, "lot_number" | "expiration_date">) =>
+  `${lot.lot_number || "Sem lote"}${
+    lot.expiration_date
+      ? ` · vence ${new Date(`${lot.expiration_date}T00:00:00`).toLocaleDateString("pt-BR")}`
+      : ""
+  }`;
+
+// Mesma regra do servidor: consome primeiro os lotes que vencem antes.
+// Os lotes já chegam ordenados por validade (sem validade por último).
+export function fefoAllocation(lots: AvailableLot[], quantity: number) {
+  const allocation: Record<string, number> = {};
+  let remaining = quantity;
+  for (const lot of lots) {
+    if (remaining <= 0) break;
+    const take = Math.min(lot.quantity, remaining);
+    allocation[lot.id] = take;
+    remaining -= take;
+  }
+  return allocation;
+}
+
+// Lotes que uma redução de estoque vai consumir: prévia FEFO ou escolha manual
+export function LotAllocation({
+  lots,
+  quantity,
+  manual,
+  onManualChange,
+  allocation,
+  onAllocationChange,
+  disabled,
+  error,
+}: LotAllocationProps) {
+  if (lots.length === 0) return null;
+
+  const shown = manual ? allocation : fefoAllocation(lots, quantity);
+  const total = Object.values(allocation).reduce((acc, value) => acc + value, 0);
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">Lotes consumidos</p>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="manual-lots"
+            checked={manual}
+            onCheckedChange={(checked) => onManualChange(checked === true)}
+            disabled={disabled}
+          />
+          <Label htmlFor="manual-lots" className="text-sm font-normal">
+            Escolher lotes manualmente
+          </Label>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {lots.map((lot) => (
+          <li key={lot.id} className="flex items-center gap-3 text-sm">
+            <div className="flex-1">
+              <p>{formatLotLabel(lot)}</p>
+              <p className="text-xs text-muted-foreground">Saldo: {lot.quantity}</p>
+            </div>
+            {manual ? (
+              <Input
+                type="number"
+                min="0"
+                max={lot.quantity}
+                className="w-24"
+                value={allocation[lot.id] ?? 0}
+                onChange={(e) =>
+                  onAllocationChange({
+                    ...allocation,
+                    [lot.id]: Math.min(Math.max(parseInt(e.target.value) || 0, 0), lot.quantity),
+                  })
+                }
+                disabled={disabled}
+              />
+            ) : (
+              <span className="w-24 text-right font-medium">
+                {shown[lot.id] ? `-${shown[lot.id]}` : "—"}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {manual ? (
+        <p className={`text-xs ${total === quantity ? "text-muted-foreground" : "text-destructive"}`}>
+          Selecionado: {total} de {quantity}
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Primeiro vencer, primeiro sair (FEFO)
+        </p>
+      )}
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+    </div>
+  );
+}
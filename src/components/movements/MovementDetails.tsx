@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { MovementType } from "@/lib/db";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Loader2 } from "lucide-react";
+
+interface MovementDetailsProps {
+  movementId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface Movement {
+  id: string;
+  type: MovementType;
+  location_id: string;
+  quantity: number;
+  previous_stock: number;
+  new_stock: number;
+  reason: string | null;
+  reversal_of: string | null;
+  created_at: string;
+  products: { name: string } | null;
+  profiles: { full_name: string } | null;
+  movement_reasons: { name: string } | null;
+}
+
+const typeLabels: Record<MovementType, string> = {
+  entrada: "Entrada",
+  saida: "Saída",
+  ajuste: "Ajuste",
+  inventario: "Inventário",
+};
+
+// Uma movimentação isolada; usada para seguir o vínculo entre original e estorno
+export function MovementDetails({ movementId, onOpenChange }: MovementDetailsProps) {
+  const [movement, setMovement] = useState<Movement | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { locations } = useLocations();
+
+  useEffect(() => {
+    if (movementId) loadMovement(movementId);
+  }, [movementId]);
+
+  const loadMovement = async (id: string) => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("stock_movements")
+        .select("*, products (name), profiles (full_name), movement_reasons (name)")
+        .eq("id", id)
+        .single();
+
+      if (error) throw error;
+      setMovement(data);
+    } catch (error) {
+      console.error("Erro ao carregar movimentação:", error);
+      setMovement(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const location = movement && locations.find((l) => l.id === movement.location_id);
+
+  return (
+    <Dialog open={!!movementId} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {movement ? `${movement.reversal_of ? "Estorno · " : ""}${typeLabels[movement.type]}` : "Movimentação"}
+          </DialogTitle>
+          <DialogDescription>{movement?.products?.name}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !movement ? (
+          <div className="flex items-center justify-center p-8">
+            {isLoading ? (
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            ) : (
+              <p className="text-muted-foreground">Movimentação não encontrada</p>
+            )}
+          </div>
+        ) : (
+          <dl className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <dt className="text-muted-foreground">Data</dt>
+              <dd>{format(new Date(movement.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Usuário</dt>
+              <dd className="font-medium">{movement.profiles?.full_name || "Sistema"}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Local</dt>
+              <dd>{location ? locationLabel(location) : "—"}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Quantidade</dt>
+              <dd className="font-medium">{movement.quantity}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Estoque no local</dt>
+              <dd>
+                {movement.previous_stock} → {movement.new_stock}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Motivo</dt>
+              <dd>{movement.movement_reasons?.name || "—"}</dd>
+            </div>
+            {movement.reason && (
+              <div className="col-span-2">
+                <dt className="text-muted-foreground">Observações</dt>
+                <dd>{movement.reason}</dd>
+              </div>
+            )}
+          </dl>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
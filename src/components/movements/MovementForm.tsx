@@ -1,8 +1,16 @@
 import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { movementSchema, MovementFormData } from "@/lib/validations";
+import { movementSchema, MovementFormData, reasonRequiredTypes } from "@/lib/validations";
+import { applyFieldErrors } from "@/lib/form-errors";
 import { supabase } from "@/integrations/supabase/client";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import { useMovementReasons } from "@/hooks/use-movement-reasons";
+import { useUserRole } from "@/hooks/use-user-role";
+import { useKeyboardScanner } from "@/hooks/use-keyboard-scanner";
+import { findProductByCode } from "@/components/scanner/findProductByCode";
+import { parseGs1 } from "@/lib/barcodes";
+import { AvailableLot, LotAllocation } from "./LotAllocation";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -29,6 +37,9 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 interface MovementFormProps {
   productId?: string;
   movementType?: "entrada" | "saida" | "ajuste" | "inventario";
+  // Lote e validade pré-preenchidos, ex.: lidos de um código GS1
+  lotNumber?: string;
+  expirationDate?: string;
   onSuccess?: () => void;
   onCancel?: () => void;
 }
@@ -42,6 +53,8 @@ interface Product {
 export function MovementForm({
   productId,
   movementType,
+  lotNumber,
+  expirationDate,
   onSuccess,
   onCancel,
 }: MovementFormProps) {
@@ -49,18 +62,31 @@ export function MovementForm({
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoadingProducts, setIsLoadingProducts] = useState(true);
+  const [balances, setBalances] = useState<Record<string, number>>({});
+  const { locations, isLoading: isLoadingLocations } = useLocations();
+  const { reasons, isLoading: isLoadingReasons } = useMovementReasons();
+  const { canPerform } = useUserRole();
+  const [lots, setLots] = useState<AvailableLot[]>([]);
+  const [manualLots, setManualLots] = useState(false);
+  const [lotAllocation, setLotAllocation] = useState<Record<string, number>>({});
 
   const form = useForm<MovementFormData>({
     resolver: zodResolver(movementSchema),
     defaultValues: {
       product_id: productId || "",
+      location_id: "",
       type: movementType || "entrada",
       quantity: 1,
+      reason_id: "",
       reason: "",
+      lot_number: lotNumber || "",
+      expiration_date: expirationDate || "",
+      lots: null,
     },
   });
 
   const watchedProductId = form.watch("product_id");
+  const watchedLocationId = form.watch("location_id");
   const watchedType = form.watch("type");
   const watchedQuantity = form.watch("quantity");
 
@@ -77,6 +103,28 @@ export function MovementForm({
     }
   }, [watchedProductId, products]);
 
+  useEffect(() => {
+    loadBalances(watchedProductId);
+  }, [watchedProductId]);
+
+  useEffect(() => {
+    loadLots(watchedProductId, watchedLocationId);
+    setManualLots(false);
+    setLotAllocation({});
+  }, [watchedProductId, watchedLocationId]);
+
+  // Motivos são específicos de cada tipo
+  useEffect(() => {
+    form.setValue("reason_id", "");
+  }, [watchedType]);
+
+  // Com um único local cadastrado não há o que escolher
+  useEffect(() => {
+    if (locations.length === 1 && !form.getValues("location_id")) {
+      form.setValue("location_id", locations[0].id);
+    }
+  }, [locations]);
+
   const loadProducts = async () => {
     setIsLoadingProducts(true);
     try {
@@ -102,10 +150,59 @@ export function MovementForm({
     }
   };
 
+  // Saldo do produto em cada local, indexado por location_id
+  const loadBalances = async (id: string) => {
+    if (!id) {
+      setBalances({});
+      return;
+    }
+    try {
+      const { data, error } = await supabase
+        .from("stock_balances")
+        .select("location_id, quantity")
+        .eq("product_id", id);
+
+      if (error) throw error;
+      setBalances(
+        Object.fromEntries((data || []).map((b) => [b.location_id, b.quantity]))
+      );
+    } catch (error) {
+      console.error("Erro ao carregar saldos por local:", error);
+      setBalances({});
+    }
+  };
+
+  // Lotes com saldo no local, na ordem em que o FEFO os consome
+  const loadLots = async (id: string, locationId: string) => {
+    if (!id || !locationId) {
+      setLots([]);
+      return;
+    }
+    try {
+      const { data, error } = await supabase
+        .from("lots")
+        .select("id, lot_number, expiration_date, quantity")
+        .eq("product_id", id)
+        .eq("location_id", locationId)
+        .gt("quantity", 0)
+        .order("expiration_date");
+
+      if (error) throw error;
+      setLots(data || []);
+    } catch (error) {
+      console.error("Erro ao carregar lotes:", error);
+      setLots([]);
+    }
+  };
+
+  // Entradas, saídas e inventários valem para o saldo do local escolhido
+  const locationStock =
+    selectedProduct && watchedLocationId ? balances[watchedLocationId] || 0 : null;
+
   const calculateNewStock = (): number | null => {
-    if (!selectedProduct || !watchedQuantity) return null;
+    if (locationStock === null || Number.isNaN(watchedQuantity)) return null;
 
-    const current = selectedProduct.current_stock;
+    const current = locationStock;
     const quantity = watchedQuantity;
 
     switch (watchedType) {
@@ -122,10 +219,47 @@ export function MovementForm({
   };
 
   const newStock = calculateNewStock();
+  // Aumentos entram num lote; reduções consomem lotes existentes
+  const stockDelta =
+    newStock !== null && locationStock !== null ? newStock - locationStock : 0;
+  const isIncrease = watchedType === "entrada" || stockDelta > 0;
+  const manualLotsTotal = Object.values(lotAllocation).reduce((acc, value) => acc + value, 0);
   const hasStockWarning =
     watchedType === "saida" &&
-    selectedProduct &&
-    watchedQuantity > selectedProduct.current_stock;
+    locationStock !== null &&
+    watchedQuantity > locationStock;
+
+  // Leitor em modo teclado: o produto lido passa a ser o do formulário e cada
+  // nova leitura do mesmo produto soma uma unidade
+  const handleKeyboardScan = async (code: string) => {
+    try {
+      const product = await findProductByCode(code);
+      if (!product || product.status !== "ativo") {
+        toast.error("Produto não encontrado", { description: code });
+        return;
+      }
+      if (productId && product.id !== productId) {
+        toast.error("Produto diferente do desta movimentação", { description: product.name });
+        return;
+      }
+
+      if (form.getValues("product_id") === product.id) {
+        form.setValue("quantity", (form.getValues("quantity") || 0) + 1);
+      } else {
+        form.setValue("product_id", product.id, { shouldValidate: true });
+        form.setValue("quantity", 1);
+      }
+
+      const gs1 = parseGs1(code);
+      if (gs1?.lot_number) form.setValue("lot_number", gs1.lot_number);
+      if (gs1?.expiration_date) form.setValue("expiration_date", gs1.expiration_date);
+    } catch (error) {
+      console.error("Erro ao buscar produto:", error);
+      toast.error("Erro ao buscar produto");
+    }
+  };
+
+  useKeyboardScanner(handleKeyboardScan, !isSubmitting);
 
   const onSubmit = async (data: MovementFormData) => {
     if (!selectedProduct) {
@@ -139,50 +273,56 @@ export function MovementForm({
       return;
     }
 
+    if (manualLots && stockDelta < 0 && manualLotsTotal !== -stockDelta) {
+      toast.error("A soma dos lotes escolhidos deve ser igual à quantidade que sai");
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
-      // Obter sessão do usuário
-      const {
-        data: { session },
-      } = await supabase.auth.getSession();
-      if (!session?.user) {
-        toast.error("Usuário não autenticado");
-        return;
-      }
-
-      const previousStock = selectedProduct.current_stock;
-      const calculatedNewStock = calculateNewStock();
-
-      if (calculatedNewStock === null) {
-        toast.error("Erro ao calcular novo estoque");
-        return;
-      }
-
-      // Criar movimentação
-      const movementData = {
+      // Usuário e estoque anterior/novo são definidos pelo servidor com o produto travado
+      const { data: result, error } = await supabase.movements.create({
         product_id: data.product_id,
-        user_id: session.user.id,
+        location_id: data.location_id,
         type: data.type,
         quantity: data.quantity,
-        previous_stock: previousStock,
-        new_stock: calculatedNewStock,
+        reason_id: data.reason_id || null,
         reason: data.reason || null,
-      };
-
-      const { error } = await supabase
-        .from("stock_movements")
-        .insert(movementData);
+        lot_number: isIncrease ? data.lot_number || null : null,
+        expiration_date: isIncrease ? data.expiration_date || null : null,
+        lots:
+          manualLots && stockDelta < 0
+            ? Object.entries(lotAllocation)
+                .filter(([, quantity]) => quantity > 0)
+                .map(([lot_id, quantity]) => ({ lot_id, quantity }))
+            : null,
+      });
 
       if (error) throw error;
 
-      toast.success("Movimentação registrada com sucesso!");
+      if (result && "status" in result && result.status === "pendente") {
+        toast.info("Ajuste enviado para aprovação", {
+          description: "O estoque só muda quando um administrador aprovar",
+        });
+      } else {
+        toast.success("Movimentação registrada com sucesso!");
+      }
       form.reset();
+      // Mantém o local para registrar várias movimentações seguidas no mesmo lugar
+      form.setValue("location_id", data.location_id);
       setSelectedProduct(null);
+      setBalances({});
+      setLots([]);
+      setManualLots(false);
+      setLotAllocation({});
       onSuccess?.();
     } catch (error) {
       console.error("Erro ao registrar movimentação:", error);
-      toast.error("Erro ao registrar movimentação");
+      applyFieldErrors(form, error);
+      toast.error("Erro ao registrar movimentação", {
+        description: error instanceof Error ? error.message : undefined,
+      });
     } finally {
       setIsSubmitting(false);
     }
@@ -198,7 +338,10 @@ export function MovementForm({
     return labels[type as keyof typeof labels] || type;
   };
 
-  if (isLoadingProducts) {
+  const typeReasons = reasons.filter((reason) => reason.movement_type === watchedType);
+  const isReasonRequired = reasonRequiredTypes.includes(watchedType);
+
+  if (isLoadingProducts || isLoadingLocations || isLoadingReasons) {
     return (
       <div className="flex items-center justify-center p-8">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -218,7 +361,7 @@ export function MovementForm({
               <FormLabel>Produto *</FormLabel>
               <Select
                 onValueChange={field.onChange}
-                defaultValue={field.value}
+                value={field.value}
                 disabled={isSubmitting || !!productId}
               >
                 <FormControl>
@@ -239,6 +382,42 @@ export function MovementForm({
           )}
         />
 
+        {/* Local */}
+        <FormField
+          control={form.control}
+          name="location_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Local *</FormLabel>
+              <Select
+                onValueChange={field.onChange}
+                value={field.value}
+                disabled={isSubmitting}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione o local" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {locationLabel(location)}
+                      {selectedProduct && ` (Estoque: ${balances[location.id] || 0})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {locations.length === 0 && (
+                <FormDescription>
+                  Nenhum local cadastrado. Cadastre depósitos e locais em Locais de Estoque.
+                </FormDescription>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Tipo de Movimentação */}
         <FormField
           control={form.control}
@@ -268,6 +447,9 @@ export function MovementForm({
                 {watchedType === "saida" && "Remover produtos do estoque"}
                 {watchedType === "ajuste" && "Ajustar estoque manualmente"}
                 {watchedType === "inventario" && "Definir estoque após contagem"}
+                {(watchedType === "ajuste" || watchedType === "inventario") &&
+                  !canPerform("movements.approve") &&
+                  ". Diferenças grandes aguardam aprovação de um administrador"}
               </FormDescription>
               <FormMessage />
             </FormItem>
@@ -288,7 +470,7 @@ export function MovementForm({
               <FormControl>
                 <Input
                   type="number"
-                  min="1"
+                  min={watchedType === "ajuste" || watchedType === "inventario" ? 0 : 1}
                   placeholder="0"
                   {...field}
                   onChange={(e) =>
@@ -297,9 +479,9 @@ export function MovementForm({
                   disabled={isSubmitting}
                 />
               </FormControl>
-              {selectedProduct && (
+              {locationStock !== null && (
                 <FormDescription>
-                  Estoque atual: {selectedProduct.current_stock}
+                  Estoque no local: {locationStock}
                   {newStock !== null && (
                     <> → Novo estoque: <strong>{newStock}</strong></>
                   )}
@@ -316,24 +498,114 @@ export function MovementForm({
             <AlertTriangle className="h-4 w-4" />
             <AlertDescription>
               Quantidade de saída ({watchedQuantity}) é maior que o estoque
-              disponível ({selectedProduct?.current_stock || 0})
+              disponível no local ({locationStock || 0})
             </AlertDescription>
           </Alert>
         )}
 
-        {/* Justificativa/Motivo */}
+        {/* Lote de entrada */}
+        {isIncrease && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="lot_number"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Número do Lote</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Ex: L123456"
+                      {...field}
+                      value={field.value || ""}
+                      disabled={isSubmitting}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="expiration_date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Data de Validade</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      {...field}
+                      value={field.value || ""}
+                      disabled={isSubmitting}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {/* Lotes consumidos pela saída */}
+        {stockDelta < 0 && (
+          <LotAllocation
+            lots={lots}
+            quantity={-stockDelta}
+            manual={manualLots}
+            onManualChange={setManualLots}
+            allocation={lotAllocation}
+            onAllocationChange={setLotAllocation}
+            disabled={isSubmitting}
+            error={form.formState.errors.lots?.message}
+          />
+        )}
+
+        {/* Motivo */}
+        <FormField
+          control={form.control}
+          name="reason_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Motivo{isReasonRequired && " *"}</FormLabel>
+              <Select
+                onValueChange={field.onChange}
+                value={field.value || ""}
+                disabled={isSubmitting}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione o motivo" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {typeReasons.map((reason) => (
+                    <SelectItem key={reason.id} value={reason.id}>
+                      {reason.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {typeReasons.length === 0 && (
+                <FormDescription>Nenhum motivo cadastrado para este tipo.</FormDescription>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Observações */}
         <FormField
           control={form.control}
           name="reason"
           render={({ field }) => (
             <FormItem>
               <FormLabel>
-                Justificativa/Motivo
+                Observações
                 {(watchedType === "ajuste" || watchedType === "inventario") && " *"}
               </FormLabel>
               <FormControl>
                 <Textarea
-                  placeholder="Descreva o motivo da movimentação..."
+                  placeholder="Detalhes da movimentação..."
                   className="min-h-[100px]"
                   {...field}
                   value={field.value || ""}
@@ -341,8 +613,8 @@ export function MovementForm({
                 />
               </FormControl>
               <FormDescription>
-                {watchedType === "entrada" && "Ex: Compra, devolução, transferência"}
-                {watchedType === "saida" && "Ex: Venda, perda, vencimento, transferência"}
+                {watchedType === "entrada" && "Ex: número da nota, fornecedor"}
+                {watchedType === "saida" && "Ex: cliente, pedido, circunstância da perda"}
                 {watchedType === "ajuste" && "Obrigatório para ajustes manuais"}
                 {watchedType === "inventario" && "Descreva o resultado do inventário"}
               </FormDescription>
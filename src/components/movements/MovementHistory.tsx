@@ -1,5 +1,9 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { escapeLike, quoteFilterValue, type MovementType } from "@/lib/db";
+import { useDebounce } from "@/hooks/use-debounce";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import { useUserRole } from "@/hooks/use-user-role";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import {
@@ -19,19 +23,40 @@ import {
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Loader2, ArrowUp, ArrowDown, RefreshCw, FileText, X } from "lucide-react";
+import {
+  Loader2,
+  ArrowUp,
+  ArrowDown,
+  ArrowLeftRight,
+  RefreshCw,
+  FileText,
+  X,
+  Undo2,
+} from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { PaginationControls } from "@/components/shared/PaginationControls";
+import { TransferDetails } from "@/components/transfers/TransferDetails";
+import { MovementDetails } from "./MovementDetails";
+
+const PAGE_SIZE = 20;
 
 interface Movement {
   id: string;
   type: "entrada" | "saida" | "ajuste" | "inventario";
+  location_id: string;
+  transfer_id: string | null;
+  purchase_order_id: string | null;
+  stocktake_id: string | null;
+  sale_id: string | null;
+  reversal_of: string | null;
   quantity: number;
   previous_stock: number;
   new_stock: number;
   reason: string | null;
   created_at: string;
+  movement_reasons: { name: string } | null;
   products: {
     id: string;
     name: string;
@@ -49,25 +74,44 @@ interface MovementHistoryProps {
 export function MovementHistory({ productId, limit }: MovementHistoryProps) {
   const [movements, setMovements] = useState<Movement[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const { locations } = useLocations();
+  const [transferId, setTransferId] = useState<string | null>(null);
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+  // Estorno de cada movimentação da página, indexado pela original
+  const [reversedBy, setReversedBy] = useState<Record<string, string>>({});
+  const [reversingId, setReversingId] = useState<string | null>(null);
+  const { canPerform } = useUserRole();
+  const canReverse = canPerform("movements.create");
+
+  // Paginação (desativada quando um limite fixo é informado)
+  const [page, setPage] = useState(0);
+  const [total, setTotal] = useState(0);
 
   // Filtros
-  const [filterType, setFilterType] = useState<string>("all");
+  const [filterType, setFilterType] = useState<MovementType | "all">("all");
   const [searchTerm, setSearchTerm] = useState("");
+  const debouncedSearch = useDebounce(searchTerm.trim());
 
   useEffect(() => {
     loadMovements();
-  }, [productId]);
+  }, [productId, page, filterType, debouncedSearch]);
+
+  const getLocationLabel = (locationId: string) => {
+    const location = locations.find((l) => l.id === locationId);
+    return location ? locationLabel(location) : "—";
+  };
 
   const loadMovements = async () => {
-    setIsLoading(true);
+    // O spinner só cobre a primeira carga, para não desmontar os filtros durante a busca
     try {
       let query = supabase
         .from("stock_movements")
         .select(`
           *,
           products (id, name),
-          profiles (full_name)
-        `)
+          profiles (full_name),
+          movement_reasons (name)
+        `, { count: "exact" })
         .order("created_at", { ascending: false });
 
       // Filtrar por produto se fornecido
@@ -75,15 +119,40 @@ export function MovementHistory({ productId, limit }: MovementHistoryProps) {
         query = query.eq("product_id", productId);
       }
 
-      // Limitar quantidade se fornecido
+      if (filterType !== "all") {
+        query = query.eq("type", filterType);
+      }
+
+      if (debouncedSearch) {
+        const pattern = quoteFilterValue(`*${escapeLike(debouncedSearch)}*`);
+        query = query.or(`products.name.ilike.${pattern},profiles.full_name.ilike.${pattern}`);
+      }
+
+      // Limitar quantidade se fornecido; senão paginar
       if (limit) {
         query = query.limit(limit);
+      } else {
+        query = query.range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
       }
 
-      const { data, error } = await query;
+      const { data, error, count } = await query;
 
       if (error) throw error;
       setMovements(data || []);
+      setTotal(count || 0);
+
+      const ids = (data || []).map((movement) => movement.id);
+      if (ids.length === 0) {
+        setReversedBy({});
+        return;
+      }
+      const { data: reversals, error: reversalsError } = await supabase
+        .from("stock_movements")
+        .select("id, reversal_of")
+        .in("reversal_of", ids);
+
+      if (reversalsError) throw reversalsError;
+      setReversedBy(Object.fromEntries((reversals || []).map((r) => [r.reversal_of, r.id])));
     } catch (error) {
       console.error("Erro ao carregar movimentações:", error);
       toast.error("Erro ao carregar histórico");
@@ -92,21 +161,52 @@ export function MovementHistory({ productId, limit }: MovementHistoryProps) {
     }
   };
 
-  const filteredMovements = movements.filter((movement) => {
-    const matchesType = filterType === "all" || movement.type === filterType;
-    const matchesSearch =
-      !searchTerm ||
-      movement.products?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      movement.profiles?.full_name
-        .toLowerCase()
-        .includes(searchTerm.toLowerCase());
+  // Movimentações de transferências, compras, inventários e vendas pertencem a um documento
+  const isReversible = (movement: Movement) =>
+    canReverse &&
+    !reversedBy[movement.id] &&
+    !movement.reversal_of &&
+    !movement.transfer_id &&
+    !movement.purchase_order_id &&
+    !movement.stocktake_id &&
+    !movement.sale_id &&
+    movement.new_stock !== movement.previous_stock;
+
+  const handleReverse = async (movement: Movement) => {
+    const delta = movement.new_stock - movement.previous_stock;
+    const effect = delta > 0 ? `sairão ${delta}` : `voltarão ${-delta}`;
+    if (!confirm(`Estornar esta movimentação? ${effect} unidade(s) no mesmo local.`)) return;
+
+    setReversingId(movement.id);
+    try {
+      const { error } = await supabase.movements.reverse(movement.id);
+      if (error) throw error;
+      toast.success("Movimentação estornada");
+      loadMovements();
+    } catch (error) {
+      console.error("Erro ao estornar movimentação:", error);
+      toast.error("Erro ao estornar movimentação", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setReversingId(null);
+    }
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearchTerm(value);
+    setPage(0);
+  };
 
-    return matchesType && matchesSearch;
-  });
+  const handleTypeChange = (value: string) => {
+    setFilterType(value as MovementType | "all");
+    setPage(0);
+  };
 
   const clearFilters = () => {
     setFilterType("all");
     setSearchTerm("");
+    setPage(0);
   };
 
   const hasFilters = filterType !== "all" || searchTerm !== "";
@@ -158,10 +258,10 @@ export function MovementHistory({ productId, limit }: MovementHistoryProps) {
             <Input
               placeholder="Buscar por produto ou usuário..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => handleSearchChange(e.target.value)}
               className="flex-1"
             />
-            <Select value={filterType} onValueChange={setFilterType}>
+            <Select value={filterType} onValueChange={handleTypeChange}>
               <SelectTrigger className="w-full sm:w-[200px]">
                 <SelectValue placeholder="Tipo" />
               </SelectTrigger>
@@ -185,17 +285,18 @@ export function MovementHistory({ productId, limit }: MovementHistoryProps) {
 
       {/* Lista em cards para mobile */}
       <div className="space-y-3 md:hidden">
-        {filteredMovements.length === 0 ? (
+        {movements.length === 0 ? (
           <Card className="p-6 text-center text-muted-foreground">
             Nenhuma movimentação encontrada
           </Card>
         ) : (
-          filteredMovements.map((movement) => {
+          movements.map((movement) => {
             const config = getTypeConfig(movement.type);
             const Icon = config.icon;
+            const reversalId = reversedBy[movement.id];
 
             return (
-              <Card key={movement.id} className="p-4 space-y-3">
+              <Card key={movement.id} className={`p-4 space-y-3 ${reversalId ? "opacity-60" : ""}`}>
                 <div className="flex items-start justify-between gap-3">
                   <div className="space-y-1">
                     {!productId && (
@@ -208,14 +309,27 @@ export function MovementHistory({ productId, limit }: MovementHistoryProps) {
                         locale: ptBR,
                       })}
                     </div>
+                    <div className="text-xs text-muted-foreground">
+                      {getLocationLabel(movement.location_id)}
+                    </div>
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    <Badge variant={config.variant} className="gap-1">
+                      <Icon className="h-3 w-3" />
+                      {config.label}
+                    </Badge>
+                    {movement.transfer_id && (
+                      <TransferLink onClick={() => setTransferId(movement.transfer_id)} />
+                    )}
+                    <ReversalLinks
+                      movement={movement}
+                      reversalId={reversalId}
+                      onOpen={setDetailsId}
+                    />
                   </div>
-                  <Badge variant={config.variant} className="gap-1">
-                    <Icon className="h-3 w-3" />
-                    {config.label}
-                  </Badge>
                 </div>
 
-                <div className="flex items-center justify-between">
+                <div className={`flex items-center justify-between ${reversalId ? "line-through" : ""}`}>
                   <span className="text-sm text-muted-foreground">Quantidade</span>
                   <span className={`text-lg font-semibold ${config.color}`}>
                     {movement.type === "entrada" && "+"}
@@ -240,10 +354,33 @@ export function MovementHistory({ productId, limit }: MovementHistoryProps) {
                     <span className="font-medium text-foreground">Usuário:</span>{" "}
                     {movement.profiles?.full_name || "Sistema"}
                   </p>
+                  {movement.movement_reasons && (
+                    <p>
+                      <span className="font-medium text-foreground">Motivo:</span>{" "}
+                      {movement.movement_reasons.name}
+                    </p>
+                  )}
                   <p className="text-foreground text-sm">
                     {movement.reason || <span className="italic text-muted-foreground">Sem justificativa</span>}
                   </p>
                 </div>
+
+                {isReversible(movement) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => handleReverse(movement)}
+                    disabled={reversingId !== null}
+                  >
+                    {reversingId === movement.id ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Undo2 className="mr-2 h-4 w-4" />
+                    )}
+                    Estornar
+                  </Button>
+                )}
               </Card>
             );
           })
@@ -259,27 +396,32 @@ export function MovementHistory({ productId, limit }: MovementHistoryProps) {
                 <TableHead>Data/Hora</TableHead>
                 {!productId && <TableHead>Produto</TableHead>}
                 <TableHead>Tipo</TableHead>
+                <TableHead>Local</TableHead>
                 <TableHead className="text-right">Qtd</TableHead>
                 <TableHead className="text-right">Estoque Ant.</TableHead>
                 <TableHead className="text-right">Estoque Novo</TableHead>
                 <TableHead>Usuário</TableHead>
                 <TableHead>Motivo</TableHead>
+                {canReverse && <TableHead className="w-12" />}
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredMovements.length === 0 ? (
+              {movements.length === 0 ? (
                 <TableRow>
                   <TableCell
-                    colSpan={productId ? 7 : 8}
+                    colSpan={(productId ? 8 : 9) + (canReverse ? 1 : 0)}
                     className="text-center text-muted-foreground py-8"
                   >
                     Nenhuma movimentação encontrada
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredMovements.map((movement) => {
+                movements.map((movement) => {
                   const config = getTypeConfig(movement.type);
                   const Icon = config.icon;
+                  const reversalId = reversedBy[movement.id];
+                  // Estornadas ficam riscadas: o efeito no estoque foi desfeito
+                  const struck = reversalId ? "line-through opacity-60" : "";
 
                   return (
                     <TableRow key={movement.id}>
@@ -303,23 +445,37 @@ export function MovementHistory({ productId, limit }: MovementHistoryProps) {
                       )}
 
                       <TableCell>
-                        <Badge variant={config.variant} className="gap-1">
-                          <Icon className="h-3 w-3" />
-                          {config.label}
-                        </Badge>
+                        <div className="flex flex-col items-start gap-1">
+                          <Badge variant={config.variant} className="gap-1">
+                            <Icon className="h-3 w-3" />
+                            {config.label}
+                          </Badge>
+                          {movement.transfer_id && (
+                            <TransferLink onClick={() => setTransferId(movement.transfer_id)} />
+                          )}
+                          <ReversalLinks
+                            movement={movement}
+                            reversalId={reversalId}
+                            onOpen={setDetailsId}
+                          />
+                        </div>
                       </TableCell>
 
-                      <TableCell className={`text-right font-semibold ${config.color}`}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {getLocationLabel(movement.location_id)}
+                      </TableCell>
+
+                      <TableCell className={`text-right font-semibold ${config.color} ${struck}`}>
                         {movement.type === "entrada" && "+"}
                         {movement.type === "saida" && "-"}
                         {movement.quantity}
                       </TableCell>
 
-                      <TableCell className="text-right text-muted-foreground">
+                      <TableCell className={`text-right text-muted-foreground ${struck}`}>
                         {movement.previous_stock}
                       </TableCell>
 
-                      <TableCell className="text-right font-semibold">
+                      <TableCell className={`text-right font-semibold ${struck}`}>
                         {movement.new_stock}
                       </TableCell>
 
@@ -328,16 +484,43 @@ export function MovementHistory({ productId, limit }: MovementHistoryProps) {
                       </TableCell>
 
                       <TableCell className="max-w-xs">
+                        {movement.movement_reasons && (
+                          <span className="block text-sm font-medium">
+                            {movement.movement_reasons.name}
+                          </span>
+                        )}
                         {movement.reason ? (
                           <span className="text-sm text-muted-foreground line-clamp-2">
                             {movement.reason}
                           </span>
                         ) : (
-                          <span className="text-xs text-muted-foreground italic">
-                            Sem justificativa
-                          </span>
+                          !movement.movement_reasons && (
+                            <span className="text-xs text-muted-foreground italic">
+                              Sem justificativa
+                            </span>
+                          )
                         )}
                       </TableCell>
+
+                      {canReverse && (
+                        <TableCell>
+                          {isReversible(movement) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Estornar"
+                              onClick={() => handleReverse(movement)}
+                              disabled={reversingId !== null}
+                            >
+                              {reversingId === movement.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Undo2 className="h-4 w-4" />
+                              )}
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
                     </TableRow>
                   );
                 })
@@ -348,10 +531,68 @@ export function MovementHistory({ productId, limit }: MovementHistoryProps) {
       </Card>
 
       {/* Informações */}
-      <div className="text-sm text-muted-foreground text-center">
-        {filteredMovements.length} movimentação(ões)
-        {limit && movements.length >= limit && " (limitado)"}
-      </div>
+      {limit ? (
+        <div className="text-sm text-muted-foreground text-center">
+          {movements.length} movimentação(ões)
+          {total > limit && " (limitado)"}
+        </div>
+      ) : (
+        <PaginationControls
+          page={page}
+          pageSize={PAGE_SIZE}
+          total={total}
+          onPageChange={setPage}
+        />
+      )}
+
+      <TransferDetails
+        transferId={transferId}
+        onOpenChange={(open) => !open && setTransferId(null)}
+      />
+
+      <MovementDetails
+        movementId={detailsId}
+        onOpenChange={(open) => !open && setDetailsId(null)}
+      />
     </div>
   );
 }
+
+// Saída e entradas de uma transferência abrem a mesma operação
+function TransferLink({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+    >
+      <ArrowLeftRight className="h-3 w-3" />
+      Transferência
+    </button>
+  );
+}
+
+// Liga a movimentação estornada ao seu estorno e vice-versa
+function ReversalLinks({
+  movement,
+  reversalId,
+  onOpen,
+}: {
+  movement: Movement;
+  reversalId?: string;
+  onOpen: (id: string) => void;
+}) {
+  const linkedId = reversalId || movement.reversal_of;
+  if (!linkedId) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onOpen(linkedId)}
+      className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+    >
+      <Undo2 className="h-3 w-3" />
+      {reversalId ? "Estornada" : "Estorno"}
+    </button>
+  );
+}
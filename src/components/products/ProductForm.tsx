@@ -2,7 +2,10 @@ import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { productSchema, ProductFormData } from "@/lib/validations";
+import { generateEan13 } from "@/lib/barcodes";
+import { applyFieldErrors } from "@/lib/form-errors";
 import { supabase } from "@/integrations/supabase/client";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -14,6 +17,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
@@ -62,21 +66,25 @@ export function ProductForm({
   const [createdProduct, setCreatedProduct] = useState<{ id: string; name: string; qr_code: string } | null>(null);
   const isEditing = !!initialData?.id;
 
+  // O estoque é mantido pelas movimentações: na criação, o estoque inicial
+  // vira uma entrada no local escolhido
+  const { locations } = useLocations();
+  const [initialStock, setInitialStock] = useState(0);
+  const [initialLocationId, setInitialLocationId] = useState("");
+  const [initialLot, setInitialLot] = useState({ lot_number: "", expiration_date: "" });
+
   const form = useForm<ProductFormData>({
     resolver: zodResolver(productSchema),
     defaultValues: {
       name: initialData?.name || "",
       description: initialData?.description || "",
       barcode: initialData?.barcode || "",
+      supplier_code: initialData?.supplier_code || "",
       category_id: initialData?.category_id || "",
       supplier_id: initialData?.supplier_id || "",
       cost_price: initialData?.cost_price || 0,
       sale_price: initialData?.sale_price || 0,
-      current_stock: initialData?.current_stock || 0,
       minimum_stock: initialData?.minimum_stock || 0,
-      location: initialData?.location || "",
-      expiration_date: initialData?.expiration_date || "",
-      batch_number: initialData?.batch_number || "",
       status: initialData?.status || "ativo",
       image_url: initialData?.image_url || "",
     },
@@ -119,6 +127,11 @@ export function ProductForm({
   };
 
   const onSubmit = async (data: ProductFormData) => {
+    if (!isEditing && initialStock > 0 && !initialLocationId) {
+      toast.error("Selecione o local do estoque inicial");
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -127,29 +140,14 @@ export function ProductForm({
         ? initialData?.qr_code
         : crypto.randomUUID();
 
-      // Gerar código de barras EAN-13 automaticamente (se criando novo produto)
-      const generateBarcode = () => {
-        // Gera 12 dígitos aleatórios (o 13º é o dígito verificador)
-        const randomDigits = Array.from({ length: 12 }, () =>
-          Math.floor(Math.random() * 10)
-        ).join('');
-
-        // Calcula o dígito verificador EAN-13
-        const sum = randomDigits.split('').reduce((acc, digit, index) => {
-          const multiplier = index % 2 === 0 ? 1 : 3;
-          return acc + parseInt(digit) * multiplier;
-        }, 0);
-
-        const checkDigit = (10 - (sum % 10)) % 10;
-        return randomDigits + checkDigit;
-      };
-
+      // Sem o código do fabricante, um novo produto ganha um EAN-13 gerado
       const barcode = isEditing
-        ? (data.barcode || initialData?.barcode)
-        : (data.barcode || generateBarcode());
+        ? (data.barcode || null)
+        : (data.barcode || generateEan13());
 
       const productData = {
         ...data,
+        name: data.name,
         image_url: data.image_url || null,
         qr_code: qrCode,
         barcode: barcode,
@@ -157,9 +155,7 @@ export function ProductForm({
         description: data.description || null,
         category_id: data.category_id || null,
         supplier_id: data.supplier_id || null,
-        location: data.location || null,
-        expiration_date: data.expiration_date || null,
-        batch_number: data.batch_number || null,
+        supplier_code: data.supplier_code || null,
       };
 
       if (isEditing) {
@@ -183,6 +179,26 @@ export function ProductForm({
 
         if (error) throw error;
 
+        if (initialStock > 0) {
+          const { error: movementError } = await supabase.movements.create({
+            product_id: newProduct.id,
+            location_id: initialLocationId,
+            type: "entrada",
+            quantity: initialStock,
+            reason: "Estoque inicial",
+            lot_number: initialLot.lot_number || null,
+            expiration_date: initialLot.expiration_date || null,
+          });
+
+          // O produto já existe: avisa, mas segue para o QR Code
+          if (movementError) {
+            console.error("Erro ao registrar estoque inicial:", movementError);
+            toast.error("Produto criado, mas o estoque inicial não foi registrado", {
+              description: movementError.message,
+            });
+          }
+        }
+
         // Mostrar modal com QR Code
         setCreatedProduct({
           id: newProduct.id,
@@ -194,10 +210,12 @@ export function ProductForm({
       }
     } catch (error) {
       console.error("Erro ao salvar produto:", error);
+      applyFieldErrors(form, error);
       toast.error(
         isEditing
           ? "Erro ao atualizar produto"
-          : "Erro ao criar produto"
+          : "Erro ao criar produto",
+        { description: error instanceof Error ? error.message : undefined }
       );
     } finally {
       setIsSubmitting(false);
@@ -249,30 +267,31 @@ export function ProductForm({
             )}
           />
 
-          {/* Código de Barras - Gerado Automaticamente */}
-          {isEditing && initialData?.barcode && (
-            <FormField
-              control={form.control}
-              name="barcode"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Código de Barras (Gerado Automaticamente)</FormLabel>
-                  <FormControl>
-                    <Input
-                      {...field}
-                      value={field.value || ""}
-                      disabled
-                      className="bg-muted"
-                    />
-                  </FormControl>
-                  <FormDescription>
-                    Código gerado automaticamente ao criar o produto
-                  </FormDescription>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-          )}
+          {/* Código de Barras */}
+          <FormField
+            control={form.control}
+            name="barcode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Código de Barras</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="EAN-13, EAN-8 ou Code 128"
+                    className="font-mono"
+                    {...field}
+                    value={field.value || ""}
+                    disabled={isSubmitting}
+                  />
+                </FormControl>
+                <FormDescription>
+                  {isEditing
+                    ? "Código impresso na embalagem, lido pelo scanner"
+                    : "Código impresso na embalagem; em branco, um EAN-13 é gerado automaticamente"}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
 
           {/* Categoria */}
           <FormField
@@ -334,36 +353,35 @@ export function ProductForm({
             )}
           />
 
-          {/* Preço de Custo */}
+          {/* Código do Fornecedor */}
           <FormField
             control={form.control}
-            name="cost_price"
+            name="supplier_code"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Preço de Custo (R$)</FormLabel>
+                <FormLabel>Código do Fornecedor</FormLabel>
                 <FormControl>
                   <Input
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    placeholder="0.00"
+                    placeholder="Referência no catálogo do fornecedor"
+                    className="font-mono"
                     {...field}
-                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                    value={field.value || ""}
                     disabled={isSubmitting}
                   />
                 </FormControl>
+                <FormDescription>Também encontrado pelo scanner</FormDescription>
                 <FormMessage />
               </FormItem>
             )}
           />
 
-          {/* Preço de Venda */}
+          {/* Preço de Custo */}
           <FormField
             control={form.control}
-            name="sale_price"
+            name="cost_price"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Preço de Venda (R$) *</FormLabel>
+                <FormLabel>Preço de Custo (R$)</FormLabel>
                 <FormControl>
                   <Input
                     type="number"
@@ -380,31 +398,70 @@ export function ProductForm({
             )}
           />
 
-          {/* Estoque Atual */}
+          {/* Preço de Venda */}
           <FormField
             control={form.control}
-            name="current_stock"
+            name="sale_price"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Estoque Atual</FormLabel>
+                <FormLabel>Preço de Venda (R$) *</FormLabel>
                 <FormControl>
                   <Input
                     type="number"
+                    step="0.01"
                     min="0"
-                    placeholder="0"
+                    placeholder="0.00"
                     {...field}
-                    onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
                     disabled={isSubmitting}
                   />
                 </FormControl>
-                <FormDescription>
-                  Quantidade atual em estoque
-                </FormDescription>
                 <FormMessage />
               </FormItem>
             )}
           />
 
+          {/* Estoque Inicial (somente na criação) */}
+          {!isEditing && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="initial-stock">Estoque Inicial</Label>
+                <Input
+                  id="initial-stock"
+                  type="number"
+                  min="0"
+                  placeholder="0"
+                  value={initialStock}
+                  onChange={(e) => setInitialStock(Math.max(parseInt(e.target.value) || 0, 0))}
+                  disabled={isSubmitting}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Registrado como entrada no local escolhido
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Local do Estoque Inicial</Label>
+                <Select
+                  value={initialLocationId}
+                  onValueChange={setInitialLocationId}
+                  disabled={isSubmitting || initialStock === 0}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione o local" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {locationLabel(location)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
           {/* Estoque Mínimo */}
           <FormField
             control={form.control}
@@ -430,65 +487,35 @@ export function ProductForm({
             )}
           />
 
-          {/* Localização */}
-          <FormField
-            control={form.control}
-            name="location"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Localização no Estoque</FormLabel>
-                <FormControl>
-                  <Input
-                    placeholder="Ex: Corredor 3, Prateleira A"
-                    {...field}
-                    value={field.value || ""}
-                    disabled={isSubmitting}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-
-          {/* Data de Validade */}
-          <FormField
-            control={form.control}
-            name="expiration_date"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Data de Validade</FormLabel>
-                <FormControl>
-                  <Input
-                    type="date"
-                    {...field}
-                    value={field.value || ""}
-                    disabled={isSubmitting}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-
-          {/* Número do Lote */}
-          <FormField
-            control={form.control}
-            name="batch_number"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Número do Lote</FormLabel>
-                <FormControl>
-                  <Input
-                    placeholder="Ex: L123456"
-                    {...field}
-                    value={field.value || ""}
-                    disabled={isSubmitting}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+          {/* Lote do Estoque Inicial: depois, os lotes entram pelas movimentações */}
+          {!isEditing && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="initial-lot-number">Número do Lote</Label>
+                <Input
+                  id="initial-lot-number"
+                  placeholder="Ex: L123456"
+                  maxLength={50}
+                  value={initialLot.lot_number}
+                  onChange={(e) => setInitialLot((lot) => ({ ...lot, lot_number: e.target.value }))}
+                  disabled={isSubmitting || initialStock === 0}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="initial-lot-expiration">Data de Validade</Label>
+                <Input
+                  id="initial-lot-expiration"
+                  type="date"
+                  value={initialLot.expiration_date}
+                  onChange={(e) =>
+                    setInitialLot((lot) => ({ ...lot, expiration_date: e.target.value }))
+                  }
+                  disabled={isSubmitting || initialStock === 0}
+                />
+              </div>
+            </>
+          )}
 
           {/* Status */}
           <FormField
@@ -0,0 +1,83 @@
+import { Calendar } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { locationLabel, type StockLocation } from "@/hooks/use-locations";
+
+export interface ProductLot {
+  id: string;
+  location_id: string;
+  lot_number: string | null;
+  expiration_date: string | null;
+  quantity: number;
+}
+
+interface ProductLotsProps {
+  lots: ProductLot[];
+  locations: StockLocation[];
+}
+
+// Lotes com saldo do produto, do que vence primeiro ao que vence por último
+export function ProductLots({ lots, locations }: ProductLotsProps) {
+  const today = new Date().toISOString().slice(0, 10);
+
+  const getLocationLabel = (id: string) => {
+    const location = locations.find((l) => l.id === id);
+    return location ? locationLabel(location) : "Local removido";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calendar className="h-5 w-5" />
+          Lotes
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {lots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum lote com saldo</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lote</TableHead>
+                  <TableHead>Local</TableHead>
+                  <TableHead>Validade</TableHead>
+                  <TableHead className="text-right">Saldo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lots.map((lot) => {
+                  const isExpired = !!lot.expiration_date && lot.expiration_date < today;
+                  return (
+                    <TableRow key={lot.id}>
+                      <TableCell className="font-medium">
+                        {lot.lot_number || <span className="text-muted-foreground">Sem lote</span>}
+                      </TableCell>
+                      <TableCell>{getLocationLabel(lot.location_id)}</TableCell>
+                      <TableCell className={isExpired ? "text-destructive font-semibold" : ""}>
+                        {lot.expiration_date
+                          ? new Date(`${lot.expiration_date}T00:00:00`).toLocaleDateString("pt-BR")
+                          : "—"}
+                        {isExpired && " (vencido)"}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{lot.quantity}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
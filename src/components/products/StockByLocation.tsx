@@ -0,0 +1,51 @@
+import { MapPin } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { locationLabel, type StockLocation } from "@/hooks/use-locations";
+
+export interface StockBalance {
+  location_id: string;
+  quantity: number;
+}
+
+interface StockByLocationProps {
+  balances: StockBalance[];
+  locations: StockLocation[];
+  compact?: boolean;
+}
+
+// Saldo do produto em cada local (somente locais com estoque)
+export function StockByLocation({ balances, locations, compact = false }: StockByLocationProps) {
+  const rows = balances
+    .filter((b) => b.quantity > 0)
+    .map((b) => {
+      const location = locations.find((l) => l.id === b.location_id);
+      return {
+        id: b.location_id,
+        label: location ? locationLabel(location) : "Local removido",
+        quantity: b.quantity,
+      };
+    })
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  if (rows.length === 0) {
+    return (
+      <p className={cn("text-muted-foreground", compact ? "text-xs" : "text-sm")}>
+        Sem estoque em nenhum local
+      </p>
+    );
+  }
+
+  return (
+    <ul className={cn("space-y-1", compact ? "text-xs" : "text-sm")}>
+      {rows.map((row) => (
+        <li key={row.id} className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-1 text-muted-foreground truncate">
+            <MapPin className={compact ? "h-3 w-3 shrink-0" : "h-4 w-4 shrink-0"} />
+            <span className="truncate">{row.label}</span>
+          </span>
+          <span className="font-medium">{row.quantity}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,347 @@
+import { useEffect, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { purchaseOrderSchema, PurchaseOrderFormData } from "@/lib/validations";
+import { applyFieldErrors } from "@/lib/form-errors";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+export interface PurchaseOrderDraft {
+  id: string;
+  supplier_id: string;
+  expected_date: string | null;
+  notes: string | null;
+  items: { product_id: string; quantity: number; unit_cost: number }[];
+}
+
+interface PurchaseOrderFormProps {
+  order?: PurchaseOrderDraft | null;
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  supplier_id: string | null;
+  cost_price: number;
+}
+
+interface Supplier {
+  id: string;
+  name: string;
+}
+
+const formatCurrency = (value: number) =>
+  `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}`;
+
+export function PurchaseOrderForm({ order, onSuccess, onCancel }: PurchaseOrderFormProps) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<PurchaseOrderFormData>({
+    resolver: zodResolver(purchaseOrderSchema),
+    defaultValues: {
+      supplier_id: order?.supplier_id || "",
+      expected_date: order?.expected_date || "",
+      notes: order?.notes || "",
+      items: order?.items.map(({ product_id, quantity, unit_cost }) => ({
+        product_id,
+        quantity,
+        unit_cost: Number(unit_cost),
+      })) || [{ product_id: "", quantity: 1, unit_cost: 0 }],
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "items" });
+  const watchedSupplierId = form.watch("supplier_id");
+  const watchedItems = form.watch("items");
+
+  useEffect(() => {
+    loadOptions();
+  }, []);
+
+  const loadOptions = async () => {
+    setIsLoading(true);
+    try {
+      const [productsResult, suppliersResult] = await Promise.all([
+        supabase
+          .from("products")
+          .select("id, name, supplier_id, cost_price")
+          .eq("status", "ativo")
+          .order("name"),
+        supabase.from("suppliers").select("id, name").order("name"),
+      ]);
+
+      if (productsResult.error) throw productsResult.error;
+      if (suppliersResult.error) throw suppliersResult.error;
+      setProducts(productsResult.data || []);
+      setSuppliers(suppliersResult.data || []);
+    } catch (error) {
+      console.error("Erro ao carregar produtos e fornecedores:", error);
+      toast.error("Erro ao carregar produtos e fornecedores");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Produtos do fornecedor escolhido primeiro, depois os demais
+  const sortedProducts = [...products].sort(
+    (a, b) =>
+      Number(b.supplier_id === watchedSupplierId) - Number(a.supplier_id === watchedSupplierId)
+  );
+
+  const total = (watchedItems || []).reduce(
+    (acc, item) => acc + (item.quantity || 0) * (item.unit_cost || 0),
+    0
+  );
+
+  const onSubmit = async (data: PurchaseOrderFormData) => {
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.purchaseOrders.save({
+        id: order?.id,
+        supplier_id: data.supplier_id,
+        expected_date: data.expected_date || null,
+        notes: data.notes || null,
+        items: data.items.map(({ product_id, quantity, unit_cost }) => ({
+          product_id,
+          quantity,
+          unit_cost,
+        })),
+      });
+
+      if (error) throw error;
+
+      toast.success(order ? "Pedido atualizado!" : "Rascunho de pedido criado!");
+      onSuccess?.();
+    } catch (error) {
+      console.error("Erro ao salvar pedido de compra:", error);
+      applyFieldErrors(form, error);
+      toast.error("Erro ao salvar pedido de compra", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="supplier_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Fornecedor *</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione o fornecedor" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {suppliers.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="expected_date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Previsão de entrega</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} value={field.value || ""} disabled={isSubmitting} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* Itens */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Produtos *</p>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append({ product_id: "", quantity: 1, unit_cost: 0 })}
+              disabled={isSubmitting}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar produto
+            </Button>
+          </div>
+
+          <div className="hidden sm:flex gap-2 text-xs text-muted-foreground">
+            <span className="flex-1">Produto</span>
+            <span className="w-24">Quantidade</span>
+            <span className="w-28">Custo unitário</span>
+            <span className="w-10" />
+          </div>
+
+          {fields.map((item, index) => (
+            <div key={item.id} className="flex flex-wrap sm:flex-nowrap items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`items.${index}.product_id`}
+                render={({ field }) => (
+                  <FormItem className="flex-1 min-w-[200px]">
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        // Sugere o último custo conhecido do produto
+                        const product = products.find((p) => p.id === value);
+                        if (product) {
+                          form.setValue(`items.${index}.unit_cost`, Number(product.cost_price));
+                        }
+                      }}
+                      value={field.value}
+                      disabled={isSubmitting}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o produto" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {sortedProducts.map((product) => (
+                          <SelectItem key={product.id} value={product.id}>
+                            {product.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`items.${index}.quantity`}
+                render={({ field }) => (
+                  <FormItem className="w-24">
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`items.${index}.unit_cost`}
+                render={({ field }) => (
+                  <FormItem className="w-28">
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => remove(index)}
+                disabled={isSubmitting || fields.length === 1}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+          {form.formState.errors.items?.message && (
+            <p className="text-sm font-medium text-destructive">
+              {form.formState.errors.items.message}
+            </p>
+          )}
+          <p className="text-right text-sm">
+            Total do pedido: <strong>{formatCurrency(total)}</strong>
+          </p>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Observações</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} value={field.value || ""} disabled={isSubmitting} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex gap-4 justify-end">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+              Cancelar
+            </Button>
+          )}
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Salvar Rascunho
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,22 @@
+import { Badge } from "@/components/ui/badge";
+import type { PurchaseOrderStatus } from "@/lib/db";
+
+export const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  rascunho: "Rascunho",
+  enviado: "Enviado",
+  parcialmente_recebido: "Parcialmente recebido",
+  recebido: "Recebido",
+  cancelado: "Cancelado",
+};
+
+const variants = {
+  rascunho: "muted",
+  enviado: "info",
+  parcialmente_recebido: "warning",
+  recebido: "success",
+  cancelado: "destructive",
+} as const;
+
+export function PurchaseOrderStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  return <Badge variant={variants[status]}>{purchaseOrderStatusLabels[status]}</Badge>;
+}
@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+export interface ReceivableOrderItem {
+  id: string;
+  quantity: number;
+  received_quantity: number;
+  unit_cost: number;
+  products: { name: string };
+}
+
+interface ReceiptLine {
+  quantity: number;
+  unit_cost: number;
+  lot_number: string;
+  expiration_date: string;
+}
+
+interface PurchaseReceiveDialogProps {
+  orderId: string | null;
+  items: ReceivableOrderItem[];
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+// Recebimento da mercadoria: por padrão, tudo o que ainda está pendente ao custo do pedido
+export function PurchaseReceiveDialog({
+  orderId,
+  items,
+  onOpenChange,
+  onSuccess,
+}: PurchaseReceiveDialogProps) {
+  const { locations } = useLocations();
+  const [locationId, setLocationId] = useState("");
+  const [lines, setLines] = useState<Record<string, ReceiptLine>>({});
+  const [close, setClose] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const pendingItems = items.filter((item) => item.received_quantity < item.quantity);
+
+  useEffect(() => {
+    if (!orderId) return;
+    setLines(
+      Object.fromEntries(
+        pendingItems.map((item) => [
+          item.id,
+          {
+            quantity: item.quantity - item.received_quantity,
+            unit_cost: Number(item.unit_cost),
+            lot_number: "",
+            expiration_date: "",
+          },
+        ])
+      )
+    );
+    setClose(false);
+  }, [orderId]);
+
+  useEffect(() => {
+    if (locations.length === 1 && !locationId) setLocationId(locations[0].id);
+  }, [locations]);
+
+  const updateLine = (id: string, changes: Partial<ReceiptLine>) =>
+    setLines((current) => ({ ...current, [id]: { ...current[id], ...changes } }));
+
+  const willBePartial = pendingItems.some(
+    (item) => (lines[item.id]?.quantity || 0) < item.quantity - item.received_quantity
+  );
+
+  const handleSubmit = async () => {
+    if (!orderId) return;
+    if (!locationId) {
+      toast.error("Selecione o local de recebimento");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.purchaseOrders.receive({
+        id: orderId,
+        location_id: locationId,
+        items: pendingItems.map((item) => {
+          const line = lines[item.id];
+          return {
+            item_id: item.id,
+            quantity: line?.quantity || 0,
+            unit_cost: line?.unit_cost ?? Number(item.unit_cost),
+            lot_number: line?.lot_number || null,
+            expiration_date: line?.expiration_date || null,
+          };
+        }),
+        close,
+      });
+
+      if (error) throw error;
+
+      toast.success(
+        willBePartial && !close ? "Recebimento parcial registrado" : "Pedido recebido com sucesso!"
+      );
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error("Erro ao receber pedido:", error);
+      toast.error("Erro ao receber pedido", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!orderId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receber Pedido de Compra</DialogTitle>
+          <DialogDescription>
+            Cada item recebido gera uma entrada no local escolhido e atualiza o custo do produto.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Local de recebimento *</Label>
+            <Select value={locationId} onValueChange={setLocationId} disabled={isSubmitting}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o local" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {locationLabel(location)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {pendingItems.map((item) => {
+            const pending = item.quantity - item.received_quantity;
+            const line = lines[item.id];
+            return (
+              <div key={item.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium">{item.products?.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Pendente: {pending} de {item.quantity}
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Quantidade</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={pending}
+                      value={line?.quantity ?? 0}
+                      onChange={(e) =>
+                        updateLine(item.id, {
+                          quantity: Math.min(Math.max(parseInt(e.target.value) || 0, 0), pending),
+                        })
+                      }
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Custo unitário</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={line?.unit_cost ?? 0}
+                      onChange={(e) =>
+                        updateLine(item.id, { unit_cost: Math.max(parseFloat(e.target.value) || 0, 0) })
+                      }
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Lote</Label>
+                    <Input
+                      maxLength={50}
+                      value={line?.lot_number ?? ""}
+                      onChange={(e) => updateLine(item.id, { lot_number: e.target.value })}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Validade</Label>
+                    <Input
+                      type="date"
+                      value={line?.expiration_date ?? ""}
+                      onChange={(e) => updateLine(item.id, { expiration_date: e.target.value })}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          {willBePartial && (
+            <div className="flex items-center gap-2 pt-2">
+              <Checkbox
+                id="close-order"
+                checked={close}
+                onCheckedChange={(checked) => setClose(checked === true)}
+                disabled={isSubmitting}
+              />
+              <Label htmlFor="close-order" className="text-sm font-normal">
+                Encerrar o pedido com as faltas (nada mais será recebido)
+              </Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Confirmar Recebimento
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+import { supabase } from "@/integrations/supabase/client";
+import { purchaseOrderStatusLabels } from "./PurchaseOrderStatusBadge";
+import type { PurchaseOrderStatus } from "@/lib/db";
+
+const escapeHtml = (value: string | null | undefined) =>
+  (value ?? "").replace(/[&<>"']/g, (char) =>
+    ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]!
+  );
+
+const formatCurrency = (value: number) =>
+  `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}`;
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date.length === 10 ? `${date}T00:00:00` : date).toLocaleDateString("pt-BR") : "—";
+
+/**
+ * Abre o pedido de compra em uma janela pronta para imprimir. O diálogo de
+ * impressão do navegador também permite salvar como PDF.
+ */
+export async function printPurchaseOrder(orderId: string) {
+  // A janela precisa ser aberta ainda no clique, antes das consultas
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) {
+    throw new Error("Não foi possível abrir janela de impressão");
+  }
+
+  try {
+    const [orderResult, itemsResult] = await Promise.all([
+      supabase
+        .from("purchase_orders")
+        .select("*, suppliers (name, contact_name, email, phone, address)")
+        .eq("id", orderId)
+        .single(),
+      supabase
+        .from("purchase_order_items")
+        .select("id, quantity, unit_cost, received_quantity, products (name, barcode)")
+        .eq("order_id", orderId),
+    ]);
+
+    if (orderResult.error) throw orderResult.error;
+    if (itemsResult.error) throw itemsResult.error;
+
+    const order = orderResult.data;
+    const supplier = order.suppliers;
+    const items = (itemsResult.data || []).sort((a, b) =>
+      a.products.name.localeCompare(b.products.name)
+    );
+    const total = items.reduce((acc, item) => acc + item.quantity * Number(item.unit_cost), 0);
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>Pedido de Compra #${order.number}</title>
+          <style>
+            * { margin: 0; padding: 0; box-sizing: border-box; }
+            @page { size: A4; margin: 15mm; }
+            body { font-family: Arial, sans-serif; font-size: 10pt; color: #111; }
+            h1 { font-size: 18pt; margin-bottom: 2mm; }
+            .header { display: flex; justify-content: space-between; margin-bottom: 8mm; }
+            .muted { color: #666; }
+            .box { border: 1px solid #ccc; padding: 4mm; margin-bottom: 6mm; }
+            .box p { margin-bottom: 1mm; }
+            table { width: 100%; border-collapse: collapse; }
+            th, td { border-bottom: 1px solid #ddd; padding: 2mm; text-align: left; }
+            th { background: #f3f3f3; }
+            .right { text-align: right; }
+            .total td { font-weight: bold; border-bottom: none; }
+            .notes { margin-top: 6mm; }
+            .signature { margin-top: 20mm; width: 70mm; border-top: 1px solid #111; padding-top: 2mm; }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <div>
+              <h1>Pedido de Compra #${order.number}</h1>
+              <p class="muted">Status: ${purchaseOrderStatusLabels[order.status as PurchaseOrderStatus]}</p>
+            </div>
+            <div class="right">
+              <p>Emitido em ${formatDate(order.sent_at || order.created_at)}</p>
+              <p>Previsão de entrega: ${formatDate(order.expected_date)}</p>
+            </div>
+          </div>
+
+          <div class="box">
+            <p><strong>Fornecedor:</strong> ${escapeHtml(supplier?.name)}</p>
+            ${supplier?.contact_name ? `<p>Contato: ${escapeHtml(supplier.contact_name)}</p>` : ""}
+            ${supplier?.email ? `<p>Email: ${escapeHtml(supplier.email)}</p>` : ""}
+            ${supplier?.phone ? `<p>Telefone: ${escapeHtml(supplier.phone)}</p>` : ""}
+            ${supplier?.address ? `<p>Endereço: ${escapeHtml(supplier.address)}</p>` : ""}
+          </div>
+
+          <table>
+            <thead>
+              <tr>
+                <th>Produto</th>
+                <th>Código de barras</th>
+                <th class="right">Quantidade</th>
+                <th class="right">Custo unitário</th>
+                <th class="right">Subtotal</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${items
+                .map(
+                  (item) => `
+                <tr>
+                  <td>${escapeHtml(item.products.name)}</td>
+                  <td>${escapeHtml(item.products.barcode) || "—"}</td>
+                  <td class="right">${item.quantity}</td>
+                  <td class="right">${formatCurrency(Number(item.unit_cost))}</td>
+                  <td class="right">${formatCurrency(item.quantity * Number(item.unit_cost))}</td>
+                </tr>
+              `
+                )
+                .join("")}
+              <tr class="total">
+                <td colspan="4" class="right">Total</td>
+                <td class="right">${formatCurrency(total)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          ${order.notes ? `<div class="notes"><strong>Observações:</strong> ${escapeHtml(order.notes)}</div>` : ""}
+
+          <div class="signature">Assinatura do comprador</div>
+        </body>
+      </html>
+    `;
+
+    printWindow.document.write(html);
+    printWindow.document.close();
+
+    setTimeout(() => {
+      printWindow.focus();
+      printWindow.print();
+    }, 500);
+  } catch (error) {
+    printWindow.close();
+    throw error;
+  }
+}
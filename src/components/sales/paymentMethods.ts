@@ -0,0 +1,8 @@
+import type { PaymentMethod } from "@/lib/db";
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  dinheiro: "Dinheiro",
+  cartao_debito: "Cartão de débito",
+  cartao_credito: "Cartão de crédito",
+  pix: "PIX",
+};
@@ -0,0 +1,121 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { PaymentMethod } from "@/lib/db";
+import { paymentMethodLabels } from "./paymentMethods";
+
+const escapeHtml = (value: string | null | undefined) =>
+  (value ?? "").replace(/[&<>"']/g, (char) =>
+    ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]!
+  );
+
+const formatCurrency = (value: number) =>
+  `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Abre o cupom da venda em uma janela pronta para imprimir, na largura de uma
+ * impressora térmica de 80 mm.
+ */
+export async function printReceipt(saleId: string) {
+  // A janela precisa ser aberta ainda no clique, antes das consultas
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) {
+    throw new Error("Não foi possível abrir janela de impressão");
+  }
+
+  try {
+    const [saleResult, itemsResult] = await Promise.all([
+      supabase
+        .from("sales")
+        .select("*, locations (name), profiles (full_name)")
+        .eq("id", saleId)
+        .single(),
+      supabase
+        .from("sale_items")
+        .select("id, quantity, unit_price, products (name)")
+        .eq("sale_id", saleId),
+    ]);
+
+    if (saleResult.error) throw saleResult.error;
+    if (itemsResult.error) throw itemsResult.error;
+
+    const sale = saleResult.data;
+    const items = (itemsResult.data || []).sort((a, b) => a.products.name.localeCompare(b.products.name));
+    const total = Number(sale.total);
+    const amountPaid = sale.amount_paid === null ? null : Number(sale.amount_paid);
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>Cupom da Venda #${sale.number}</title>
+          <style>
+            * { margin: 0; padding: 0; box-sizing: border-box; }
+            @page { size: 80mm auto; margin: 4mm; }
+            body { font-family: "Courier New", monospace; font-size: 9pt; color: #000; width: 72mm; }
+            h1 { font-size: 11pt; text-align: center; margin-bottom: 1mm; }
+            .center { text-align: center; }
+            .muted { color: #444; }
+            .divider { border-top: 1px dashed #000; margin: 2mm 0; }
+            .item { margin-bottom: 1.5mm; }
+            .row { display: flex; justify-content: space-between; }
+            .total { font-size: 11pt; font-weight: bold; }
+          </style>
+        </head>
+        <body>
+          <h1>CUPOM DE VENDA #${sale.number}</h1>
+          <p class="center muted">${escapeHtml(sale.locations?.name)}</p>
+          <p class="center muted">${new Date(sale.created_at).toLocaleString("pt-BR")}</p>
+          <p class="center muted">Documento sem valor fiscal</p>
+
+          <div class="divider"></div>
+
+          ${items
+            .map(
+              (item) => `
+            <div class="item">
+              <p>${escapeHtml(item.products.name)}</p>
+              <div class="row">
+                <span>${item.quantity} x ${formatCurrency(Number(item.unit_price))}</span>
+                <span>${formatCurrency(item.quantity * Number(item.unit_price))}</span>
+              </div>
+            </div>
+          `
+            )
+            .join("")}
+
+          <div class="divider"></div>
+
+          <div class="row total">
+            <span>TOTAL</span>
+            <span>${formatCurrency(total)}</span>
+          </div>
+          <div class="row">
+            <span>${paymentMethodLabels[sale.payment_method as PaymentMethod]}</span>
+            <span>${formatCurrency(amountPaid ?? total)}</span>
+          </div>
+          ${
+            amountPaid !== null
+              ? `<div class="row"><span>Troco</span><span>${formatCurrency(amountPaid - total)}</span></div>`
+              : ""
+          }
+
+          <div class="divider"></div>
+
+          ${sale.profiles ? `<p class="muted">Operador: ${escapeHtml(sale.profiles.full_name)}</p>` : ""}
+          ${sale.notes ? `<p class="muted">${escapeHtml(sale.notes)}</p>` : ""}
+          <p class="center" style="margin-top: 3mm">Obrigado pela preferência!</p>
+        </body>
+      </html>
+    `;
+
+    printWindow.document.write(html);
+    printWindow.document.close();
+
+    setTimeout(() => {
+      printWindow.focus();
+      printWindow.print();
+    }, 500);
+  } catch (error) {
+    printWindow.close();
+    throw error;
+  }
+}
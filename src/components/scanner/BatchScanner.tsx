@@ -0,0 +1,295 @@
+import { useState } from "react";
+import { QRScanner } from "@/components/scanner/QRScanner";
+import { DEFAULT_DEBOUNCE_MS, scanFeedback } from "@/components/scanner/scanFeedback";
+import { findProductByCode } from "@/components/scanner/findProductByCode";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { reasonRequiredTypes } from "@/lib/validations";
+import { useKeyboardScanner } from "@/hooks/use-keyboard-scanner";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import { useMovementReasons } from "@/hooks/use-movement-reasons";
+import { toast } from "sonner";
+import { Layers, Loader2, Trash2, Upload } from "lucide-react";
+
+interface BatchLine {
+  product_id: string;
+  name: string;
+  quantity: number;
+  error?: string;
+}
+
+type BatchType = "entrada" | "saida";
+
+const debounceOptions = [500, 1000, 1500, 3000];
+
+// Leitura em lote: cada leitura soma 1 ao produto na lista, e "Registrar
+// todos" lança uma movimentação por produto pela API de movimentações
+export function BatchScanner() {
+  const { locations } = useLocations();
+  const { reasons } = useMovementReasons();
+  const [lines, setLines] = useState<BatchLine[]>([]);
+  const [debounceMs, setDebounceMs] = useState(DEFAULT_DEBOUNCE_MS);
+  const [feedback, setFeedback] = useState(true);
+  const [type, setType] = useState<BatchType>("entrada");
+  const [locationId, setLocationId] = useState("");
+  const [reasonId, setReasonId] = useState("");
+  const [isCommitting, setIsCommitting] = useState(false);
+
+  const typeReasons = reasons.filter((reason) => reason.movement_type === type);
+  const isReasonRequired = reasonRequiredTypes.includes(type);
+  const totalUnits = lines.reduce((acc, line) => acc + line.quantity, 0);
+
+  const handleScan = async (code: string) => {
+    try {
+      const product = await findProductByCode(code);
+      if (!product) {
+        if (feedback) scanFeedback("error");
+        toast.error("Produto não encontrado", { description: code });
+        return;
+      }
+
+      setLines((current) =>
+        current.some((line) => line.product_id === product.id)
+          ? current.map((line) =>
+              line.product_id === product.id ? { ...line, quantity: line.quantity + 1, error: undefined } : line
+            )
+          : [{ product_id: product.id, name: product.name, quantity: 1 }, ...current]
+      );
+    } catch (error) {
+      console.error("Erro ao buscar produto:", error);
+      toast.error("Erro ao buscar produto");
+    }
+  };
+
+  useKeyboardScanner(handleScan, !isCommitting);
+
+  const setQuantity = (productId: string, quantity: number) => {
+    if (Number.isNaN(quantity) || quantity < 1) return;
+    setLines((current) =>
+      current.map((line) => (line.product_id === productId ? { ...line, quantity, error: undefined } : line))
+    );
+  };
+
+  const removeLine = (productId: string) => {
+    setLines((current) => current.filter((line) => line.product_id !== productId));
+  };
+
+  const handleTypeChange = (value: string) => {
+    setType(value as BatchType);
+    setReasonId("");
+  };
+
+  const handleClear = () => {
+    if (lines.length > 0 && !confirm("Descartar a lista de leituras?")) return;
+    setLines([]);
+  };
+
+  // Uma movimentação por produto; as que falham ficam na lista com o erro
+  const handleCommitAll = async () => {
+    if (!locationId) {
+      toast.error("Selecione o local");
+      return;
+    }
+    if (isReasonRequired && !reasonId) {
+      toast.error("Selecione o motivo");
+      return;
+    }
+
+    setIsCommitting(true);
+    const failed: BatchLine[] = [];
+    for (const line of lines) {
+      const { error } = await supabase.movements.create({
+        product_id: line.product_id,
+        location_id: locationId,
+        type,
+        quantity: line.quantity,
+        reason_id: reasonId || null,
+        reason: "Leitura em lote",
+      });
+      if (error) {
+        failed.push({ ...line, error: error.message });
+      }
+    }
+    setIsCommitting(false);
+    setLines(failed);
+
+    const committed = lines.length - failed.length;
+    if (committed > 0) {
+      toast.success(`${committed} movimentação(ões) registrada(s)`);
+    }
+    if (failed.length > 0) {
+      toast.error(`${failed.length} produto(s) não registrado(s)`, {
+        description: "Corrija e tente novamente; eles continuam na lista",
+      });
+    }
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="space-y-4">
+        <QRScanner onScan={handleScan} debounceMs={debounceMs} feedback={feedback} />
+
+        <Card className="p-4">
+          <div className="grid gap-4 sm:grid-cols-2 items-end">
+            <div className="space-y-2">
+              <Label>Ignorar o mesmo código por</Label>
+              <Select value={String(debounceMs)} onValueChange={(value) => setDebounceMs(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {debounceOptions.map((ms) => (
+                    <SelectItem key={ms} value={String(ms)}>
+                      {(ms / 1000).toLocaleString("pt-BR")} s
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 h-10">
+              <Switch id="scan-feedback" checked={feedback} onCheckedChange={setFeedback} />
+              <Label htmlFor="scan-feedback">Bipe e vibração</Label>
+            </div>
+          </div>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Leituras
+          </CardTitle>
+          <CardDescription>
+            {lines.length === 0
+              ? "Cada leitura soma uma unidade ao produto"
+              : `${lines.length} produto(s), ${totalUnits} unidade(s)`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {lines.length > 0 && (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Produto</TableHead>
+                    <TableHead className="w-[100px]">Qtd</TableHead>
+                    <TableHead className="w-[50px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.product_id}>
+                      <TableCell>
+                        <p className="font-medium">{line.name}</p>
+                        {line.error && <p className="text-xs text-destructive">{line.error}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="1"
+                          className="h-8"
+                          value={line.quantity}
+                          onChange={(e) => setQuantity(line.product_id, parseInt(e.target.value))}
+                          disabled={isCommitting}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeLine(line.product_id)}
+                          disabled={isCommitting}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2 border-t pt-4">
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={type} onValueChange={handleTypeChange} disabled={isCommitting}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="entrada">Entrada</SelectItem>
+                  <SelectItem value="saida">Saída</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Local</Label>
+              <Select value={locationId} onValueChange={setLocationId} disabled={isCommitting}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o local" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {locationLabel(location)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label>Motivo{isReasonRequired && " *"}</Label>
+              <Select value={reasonId} onValueChange={setReasonId} disabled={isCommitting}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o motivo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {typeReasons.map((reason) => (
+                    <SelectItem key={reason.id} value={reason.id}>
+                      {reason.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleClear} disabled={isCommitting || lines.length === 0}>
+              Limpar
+            </Button>
+            <Button className="flex-1" onClick={handleCommitAll} disabled={isCommitting || lines.length === 0}>
+              {isCommitting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Registrar Todos
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
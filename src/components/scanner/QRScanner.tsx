@@ -1,20 +1,43 @@
 import { useEffect, useId, useRef, useState } from "react";
-import { Html5Qrcode } from "html5-qrcode";
+import { Html5Qrcode, Html5QrcodeSupportedFormats } from "html5-qrcode";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Camera, CameraOff, Loader2 } from "lucide-react";
 import { toast } from "sonner";
+import { DEFAULT_DEBOUNCE_MS, scanFeedback } from "./scanFeedback";
 
 interface QRScannerProps {
   onScan: (decodedText: string) => void;
   onError?: (error: string) => void;
+  // Intervalo em que o mesmo código, visto de novo, é ignorado. Conta desde a
+  // última vez que a câmera o viu: mantido em frente à câmera, lê uma vez só.
+  debounceMs?: number;
+  // Bipe e vibração a cada leitura aceita
+  feedback?: boolean;
 }
 
-export function QRScanner({ onScan, onError }: QRScannerProps) {
+// QR Code, os códigos lineares das embalagens (EAN/UPC) e etiquetas (Code 128,
+// também GS1-128) e o GS1 DataMatrix das caixas de fornecedores
+const SUPPORTED_FORMATS = [
+  Html5QrcodeSupportedFormats.QR_CODE,
+  Html5QrcodeSupportedFormats.DATA_MATRIX,
+  Html5QrcodeSupportedFormats.EAN_13,
+  Html5QrcodeSupportedFormats.EAN_8,
+  Html5QrcodeSupportedFormats.UPC_A,
+  Html5QrcodeSupportedFormats.UPC_E,
+  Html5QrcodeSupportedFormats.CODE_128,
+];
+
+export function QRScanner({ onScan, onError, debounceMs = DEFAULT_DEBOUNCE_MS, feedback = true }: QRScannerProps) {
   const [isScanning, setIsScanning] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const scannerRef = useRef<Html5Qrcode | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
+  // Última vez que cada código foi visto pela câmera
+  const lastSeen = useRef(new Map<string, number>());
+  // O callback da câmera é registrado uma vez; as props mais recentes ficam aqui
+  const options = useRef({ onScan, debounceMs, feedback });
+  options.current = { onScan, debounceMs, feedback };
   const qrCodeRegionId = `qr-reader-${useId().replace(/:/g, "")}`;
 
   useEffect(() => {
@@ -57,23 +80,31 @@ export function QRScanner({ onScan, onError }: QRScannerProps) {
 
       // Criar instância do scanner
       // Use sempre o id do container (Html5Qrcode espera um id string)
-      scannerRef.current = new Html5Qrcode(qrCodeRegionId);
+      scannerRef.current = new Html5Qrcode(qrCodeRegionId, {
+        formatsToSupport: SUPPORTED_FORMATS,
+        // BarcodeDetector nativo, quando existe, lê códigos lineares bem melhor
+        useBarCodeDetectorIfSupported: true,
+        verbose: false,
+      });
 
       const scanner = scannerRef.current;
 
       // Configurações do scanner
       const config = {
         fps: 10, // Frames por segundo
-        qrbox: { width: 250, height: 250 }, // Tamanho da área de scan
+        qrbox: { width: 280, height: 200 }, // Área de scan, larga o bastante para códigos lineares
         aspectRatio: 1.0,
       };
 
-      // Callback de sucesso
+      // Callback de sucesso: a câmera decodifica o mesmo código a cada frame
       const qrCodeSuccessCallback = (decodedText: string) => {
-        toast.success("QR Code detectado!");
-        onScan(decodedText);
-        // Opcionalmente, parar o scanner após detectar
-        // stopScanning();
+        const now = Date.now();
+        const previous = lastSeen.current.get(decodedText);
+        lastSeen.current.set(decodedText, now);
+        if (previous !== undefined && now - previous < options.current.debounceMs) return;
+
+        if (options.current.feedback) scanFeedback();
+        options.current.onScan(decodedText);
       };
 
       // Callback de erro (opcional)
@@ -136,7 +167,7 @@ export function QRScanner({ onScan, onError }: QRScannerProps) {
             <Camera className="h-16 w-16 mb-4 opacity-50" />
             <p className="text-lg font-medium mb-2">Scanner Inativo</p>
             <p className="text-sm">
-              Clique no botão abaixo para ativar a câmera e escanear QR Codes
+              Clique no botão abaixo para ativar a câmera e escanear QR Codes ou códigos de barras
             </p>
           </div>
         )}
@@ -190,7 +221,7 @@ export function QRScanner({ onScan, onError }: QRScannerProps) {
         <p className="font-medium">Como usar:</p>
         <ul className="space-y-1 text-xs">
           <li>• Permita o acesso à câmera quando solicitado</li>
-          <li>• Posicione o QR Code dentro da área de leitura</li>
+          <li>• Posicione o QR Code ou código de barras dentro da área de leitura</li>
           <li>• Aguarde a detecção automática</li>
           <li>• O produto será carregado automaticamente</li>
         </ul>
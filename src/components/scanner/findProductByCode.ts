@@ -0,0 +1,36 @@
+import { supabase } from "@/integrations/supabase/client";
+import { gtinVariants, parseGs1 } from "@/lib/barcodes";
+
+// Colunas em que um código lido pode estar cadastrado, na ordem de busca
+const CODE_COLUMNS = ["qr_code", "barcode", "supplier_code"] as const;
+
+/**
+ * Produto cujo QR Code, código de barras (EAN/Code 128) ou código do
+ * fornecedor é o código lido, ou null. Códigos GS1 são resolvidos pelo GTIN;
+ * lote e validade ficam com quem chamou (parseGs1).
+ */
+export async function findProductByCode(code: string) {
+  const gs1 = parseGs1(code);
+  if (gs1?.gtin) {
+    const { data, error } = await supabase
+      .from("products")
+      .select("id, name, sale_price, status")
+      .in("barcode", gtinVariants(gs1.gtin))
+      .limit(1);
+
+    if (error) throw error;
+    return data?.[0] || null;
+  }
+
+  for (const column of CODE_COLUMNS) {
+    const { data, error } = await supabase
+      .from("products")
+      .select("id, name, sale_price, status")
+      .eq(column, code)
+      .limit(1);
+
+    if (error) throw error;
+    if (data?.[0]) return data[0];
+  }
+  return null;
+}
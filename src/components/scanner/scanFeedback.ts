@@ -0,0 +1,22 @@
+// Intervalo padrão em que o scanner ignora o mesmo código lido de novo
+export const DEFAULT_DEBOUNCE_MS = 1500;
+
+let audioContext: AudioContext | null = null;
+
+// Bipe curto pelo Web Audio (sem arquivo de som) e vibração onde houver suporte
+export function scanFeedback(kind: "success" | "error" = "success") {
+  try {
+    audioContext ||= new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.frequency.value = kind === "success" ? 1200 : 300;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + (kind === "success" ? 0.08 : 0.25));
+  } catch {
+    // Navegador sem Web Audio: fica só a vibração
+  }
+  navigator.vibrate?.(kind === "success" ? 60 : [80, 60, 80]);
+}
@@ -0,0 +1,53 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface PaginationControlsProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+}
+
+export function PaginationControls({
+  page,
+  pageSize,
+  total,
+  onPageChange,
+  disabled = false,
+}: PaginationControlsProps) {
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const from = total === 0 ? 0 : page * pageSize + 1;
+  const to = Math.min(total, (page + 1) * pageSize);
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center justify-between gap-3 text-sm text-muted-foreground">
+      <span>
+        {from}–{to} de {total}
+      </span>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page - 1)}
+          disabled={disabled || page === 0}
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Anterior
+        </Button>
+        <span className="whitespace-nowrap">
+          Página {page + 1} de {totalPages}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page + 1)}
+          disabled={disabled || page + 1 >= totalPages}
+        >
+          Próxima
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { QRScanner } from "@/components/scanner/QRScanner";
+import { findProductByCode } from "@/components/scanner/findProductByCode";
+import { supabase } from "@/integrations/supabase/client";
+import { useKeyboardScanner } from "@/hooks/use-keyboard-scanner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Loader2, Plus } from "lucide-react";
+
+export interface StocktakeItem {
+  id: string;
+  product_id: string;
+  counted_quantity: number | null;
+  counted_at: string | null;
+  products: {
+    name: string;
+    cost_price: number;
+  };
+}
+
+interface StocktakeCounterProps {
+  stocktakeId: string;
+  items: StocktakeItem[];
+  onCounted: (item: { id: string; counted_quantity: number | null; counted_at: string | null }) => void;
+}
+
+// Contagem cega: mostra apenas o que já foi contado, nunca o saldo do sistema
+export function StocktakeCounter({ stocktakeId, items, onCounted }: StocktakeCounterProps) {
+  const [productId, setProductId] = useState("");
+  const [quantity, setQuantity] = useState(1);
+  const [isSaving, setIsSaving] = useState(false);
+  const [edits, setEdits] = useState<Record<string, string>>({});
+
+  const counted = items
+    .filter((item) => item.counted_quantity !== null)
+    .sort((a, b) => (b.counted_at || "").localeCompare(a.counted_at || ""));
+
+  const submitCount = async (itemProductId: string, value: number, mode: "add" | "set") => {
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase.stocktakes.count({
+        id: stocktakeId,
+        product_id: itemProductId,
+        quantity: value,
+        mode,
+      });
+      if (error) throw error;
+      onCounted(data!);
+      return data!;
+    } catch (error) {
+      console.error("Erro ao registrar contagem:", error);
+      toast.error("Erro ao registrar contagem", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Mesma busca do scanner (QR, código de barras, GTIN/GS1, código do
+  // fornecedor); o produto achado precisa estar no escopo do inventário
+  const handleScan = async (code: string) => {
+    let item: StocktakeItem | undefined;
+    try {
+      const product = await findProductByCode(code);
+      item = product ? items.find((candidate) => candidate.product_id === product.id) : undefined;
+    } catch (error) {
+      console.error("Erro ao buscar produto:", error);
+      toast.error("Erro ao buscar produto");
+      return;
+    }
+    if (!item) {
+      toast.error("Produto fora do escopo deste inventário", { description: code });
+      return;
+    }
+
+    const result = await submitCount(item.product_id, 1, "add");
+    if (result) {
+      toast.success(item.products.name, { description: `Contados: ${result.counted_quantity}` });
+    }
+  };
+
+  useKeyboardScanner(handleScan, !isSaving);
+
+  const handleManualAdd = async () => {
+    if (!productId || quantity < 1) return;
+    const result = await submitCount(productId, quantity, "add");
+    if (result) {
+      setProductId("");
+      setQuantity(1);
+    }
+  };
+
+  const handleEdit = async (item: StocktakeItem) => {
+    const value = parseInt(edits[item.id] ?? "");
+    if (Number.isNaN(value) || value < 0 || value === item.counted_quantity) return;
+    const result = await submitCount(item.product_id, value, "set");
+    if (result) {
+      setEdits((current) => {
+        const next = { ...current };
+        delete next[item.id];
+        return next;
+      });
+    }
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="space-y-4">
+        <QRScanner onScan={handleScan} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Contagem manual</CardTitle>
+            <CardDescription>Para produtos sem etiqueta ou contados em caixas fechadas</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-2">
+              <Label>Produto</Label>
+              <Select value={productId} onValueChange={setProductId} disabled={isSaving}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o produto" />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...items]
+                    .sort((a, b) => a.products.name.localeCompare(b.products.name))
+                    .map((item) => (
+                      <SelectItem key={item.product_id} value={item.product_id}>
+                        {item.products.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="space-y-2 flex-1">
+                <Label>Quantidade encontrada</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={quantity}
+                  onChange={(e) => setQuantity(Math.max(parseInt(e.target.value) || 0, 0))}
+                  disabled={isSaving}
+                />
+              </div>
+              <Button onClick={handleManualAdd} disabled={isSaving || !productId || quantity < 1}>
+                {isSaving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="mr-2 h-4 w-4" />
+                )}
+                Somar
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Contados</CardTitle>
+          <CardDescription>
+            {counted.length} de {items.length} produtos contados
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Produto</TableHead>
+                <TableHead className="text-right w-32">Contagem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {counted.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={2} className="text-center text-muted-foreground py-8">
+                    Escaneie ou informe os produtos encontrados
+                  </TableCell>
+                </TableRow>
+              ) : (
+                counted.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">{item.products.name}</TableCell>
+                    <TableCell className="text-right">
+                      {/* Corrige a contagem substituindo o total do produto */}
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-24 ml-auto text-right"
+                        value={edits[item.id] ?? String(item.counted_quantity)}
+                        onChange={(e) => setEdits((current) => ({ ...current, [item.id]: e.target.value }))}
+                        onBlur={() => handleEdit(item)}
+                        onKeyDown={(e) => e.key === "Enter" && handleEdit(item)}
+                        disabled={isSaving}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
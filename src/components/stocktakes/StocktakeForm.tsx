@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { stocktakeSchema, StocktakeFormData } from "@/lib/validations";
+import { applyFieldErrors } from "@/lib/form-errors";
+import { supabase } from "@/integrations/supabase/client";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface StocktakeFormProps {
+  onSuccess?: (stocktakeId: string) => void;
+  onCancel?: () => void;
+}
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+// Valor do select para "todas as categorias" (o Select não aceita valor vazio)
+const ALL_CATEGORIES = "all";
+
+export function StocktakeForm({ onSuccess, onCancel }: StocktakeFormProps) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { locations, isLoading: isLoadingLocations } = useLocations();
+
+  const form = useForm<StocktakeFormData>({
+    resolver: zodResolver(stocktakeSchema),
+    defaultValues: {
+      location_id: "",
+      category_id: "",
+      notes: "",
+    },
+  });
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadCategories = async () => {
+    const { data, error } = await supabase.from("categories").select("id, name").order("name");
+
+    if (error) {
+      console.error("Erro ao carregar categorias:", error);
+      toast.error("Erro ao carregar categorias");
+      return;
+    }
+    setCategories(data || []);
+  };
+
+  const onSubmit = async (data: StocktakeFormData) => {
+    setIsSubmitting(true);
+    try {
+      const { data: stocktake, error } = await supabase.stocktakes.start({
+        location_id: data.location_id,
+        category_id: data.category_id || null,
+        notes: data.notes || null,
+      });
+
+      if (error) throw error;
+
+      toast.success(`Inventário #${stocktake!.number} aberto`, {
+        description: `${stocktake!.items.length} produtos no escopo da contagem`,
+      });
+      onSuccess?.(stocktake!.id);
+    } catch (error) {
+      console.error("Erro ao abrir inventário:", error);
+      applyFieldErrors(form, error);
+      toast.error("Erro ao abrir inventário", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="location_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Local *</FormLabel>
+              <Select
+                onValueChange={field.onChange}
+                value={field.value}
+                disabled={isSubmitting || isLoadingLocations}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione o local a contar" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {locationLabel(location)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="category_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Categoria</FormLabel>
+              <Select
+                onValueChange={(value) => field.onChange(value === ALL_CATEGORIES ? "" : value)}
+                value={field.value || ALL_CATEGORIES}
+                disabled={isSubmitting}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={ALL_CATEGORIES}>Todas as categorias</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Só os produtos ativos desta categoria poderão ser contados
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Observações</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} value={field.value || ""} disabled={isSubmitting} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex gap-4 justify-end">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+              Cancelar
+            </Button>
+          )}
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Iniciar Contagem
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
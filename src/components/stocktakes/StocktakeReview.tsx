@@ -0,0 +1,236 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { StocktakeStatus } from "@/lib/db";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { CheckCircle2, Loader2 } from "lucide-react";
+import type { StocktakeItem } from "./StocktakeCounter";
+
+interface StocktakeReviewProps {
+  stocktake: { id: string; number: number; location_id: string; status: StocktakeStatus };
+  items: StocktakeItem[];
+  canApprove: boolean;
+  onApproved?: () => void;
+}
+
+interface ReviewLine {
+  item: StocktakeItem;
+  system: number;
+  counted: number | null;
+  variance: number;
+  value: number;
+}
+
+const formatCurrency = (value: number) =>
+  `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}`;
+
+const formatSigned = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+// Contado × sistema com o impacto no valor do estoque (a custo). Antes da
+// aprovação o sistema é o saldo atual do local; depois, o saldo que a
+// movimentação de inventário encontrou.
+export function StocktakeReview({ stocktake, items, canApprove, onApproved }: StocktakeReviewProps) {
+  const [systemStock, setSystemStock] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const [zeroUncounted, setZeroUncounted] = useState(false);
+  const [isApproving, setIsApproving] = useState(false);
+
+  const isOpen = stocktake.status === "em_contagem";
+
+  useEffect(() => {
+    loadSystemStock();
+  }, [stocktake.id, stocktake.status]);
+
+  const loadSystemStock = async () => {
+    setIsLoading(true);
+    try {
+      if (isOpen) {
+        const { data, error } = await supabase
+          .from("stock_balances")
+          .select("product_id, quantity")
+          .eq("location_id", stocktake.location_id);
+        if (error) throw error;
+        setSystemStock(Object.fromEntries((data || []).map((b) => [b.product_id, b.quantity])));
+      } else {
+        const { data, error } = await supabase
+          .from("stock_movements")
+          .select("product_id, previous_stock")
+          .eq("stocktake_id", stocktake.id);
+        if (error) throw error;
+        setSystemStock(Object.fromEntries((data || []).map((m) => [m.product_id, m.previous_stock])));
+      }
+    } catch (error) {
+      console.error("Erro ao carregar saldos:", error);
+      toast.error("Erro ao carregar saldos do local");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const lines: ReviewLine[] = items
+    .map((item) => {
+      const system = systemStock[item.product_id] ?? 0;
+      const counted = item.counted_quantity ?? (zeroUncounted && isOpen ? 0 : null);
+      const variance = counted === null ? 0 : counted - system;
+      return { item, system, counted, variance, value: variance * Number(item.products.cost_price) };
+    })
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value) || a.item.products.name.localeCompare(b.item.products.name));
+
+  const visibleLines = onlyDifferences ? lines.filter((line) => line.variance !== 0) : lines;
+  const uncounted = items.filter((item) => item.counted_quantity === null).length;
+  const gains = lines.filter((l) => l.value > 0).reduce((acc, l) => acc + l.value, 0);
+  const losses = lines.filter((l) => l.value < 0).reduce((acc, l) => acc + l.value, 0);
+
+  const handleApprove = async () => {
+    const posted = items.length - (zeroUncounted ? 0 : uncounted);
+    if (!confirm(`Aprovar o inventário? ${posted} produtos terão o estoque ajustado para a contagem.`)) {
+      return;
+    }
+
+    setIsApproving(true);
+    try {
+      const { error } = await supabase.stocktakes.approve(stocktake.id, { zero_uncounted: zeroUncounted });
+      if (error) throw error;
+      toast.success(`Inventário #${stocktake.number} aprovado`, {
+        description: "O estoque do local foi ajustado",
+      });
+      onApproved?.();
+    } catch (error) {
+      console.error("Erro ao aprovar inventário:", error);
+      toast.error("Erro ao aprovar inventário", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Não contados</p>
+          <p className="text-2xl font-bold">{uncounted}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Sobras (a custo)</p>
+          <p className="text-2xl font-bold text-success">{formatCurrency(gains)}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Faltas (a custo)</p>
+          <p className="text-2xl font-bold text-destructive">{formatCurrency(Math.abs(losses))}</p>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle>Diferenças</CardTitle>
+            <CardDescription>
+              Impacto líquido: {formatCurrency(gains + losses)}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="only-differences"
+              checked={onlyDifferences}
+              onCheckedChange={(checked) => setOnlyDifferences(checked === true)}
+            />
+            <Label htmlFor="only-differences" className="text-sm font-normal">
+              Mostrar só produtos com diferença
+            </Label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Produto</TableHead>
+                  <TableHead className="text-right">Sistema</TableHead>
+                  <TableHead className="text-right">Contado</TableHead>
+                  <TableHead className="text-right">Diferença</TableHead>
+                  <TableHead className="text-right">Impacto</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleLines.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                      Nenhuma diferença encontrada
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visibleLines.map((line) => (
+                    <TableRow key={line.item.id}>
+                      <TableCell className="font-medium">{line.item.products.name}</TableCell>
+                      <TableCell className="text-right">{line.system}</TableCell>
+                      <TableCell className="text-right">
+                        {line.counted === null ? <Badge variant="muted">Não contado</Badge> : line.counted}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-medium ${
+                          line.variance > 0 ? "text-success" : line.variance < 0 ? "text-destructive" : ""
+                        }`}
+                      >
+                        {line.counted === null ? "—" : formatSigned(line.variance)}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {line.counted === null ? "—" : formatCurrency(line.value)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isOpen && canApprove && (
+        <Card className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="zero-uncounted"
+              checked={zeroUncounted}
+              onCheckedChange={(checked) => setZeroUncounted(checked === true)}
+              disabled={isApproving || uncounted === 0}
+            />
+            <Label htmlFor="zero-uncounted" className="text-sm font-normal">
+              Zerar o estoque dos {uncounted} produtos não contados
+            </Label>
+          </div>
+          <Button onClick={handleApprove} disabled={isApproving}>
+            {isApproving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+            )}
+            Aprovar e Ajustar Estoque
+          </Button>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { Badge } from "@/components/ui/badge";
+import type { StocktakeStatus } from "@/lib/db";
+
+export const stocktakeStatusLabels: Record<StocktakeStatus, string> = {
+  em_contagem: "Em contagem",
+  aprovado: "Aprovado",
+  cancelado: "Cancelado",
+};
+
+const variants = {
+  em_contagem: "warning",
+  aprovado: "success",
+  cancelado: "muted",
+} as const;
+
+export function StocktakeStatusBadge({ status }: { status: StocktakeStatus }) {
+  return <Badge variant={variants[status]}>{stocktakeStatusLabels[status]}</Badge>;
+}
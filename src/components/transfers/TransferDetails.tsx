@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { TransferStatus } from "@/lib/db";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TransferStatusBadge } from "./TransferStatusBadge";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ArrowRight, Loader2 } from "lucide-react";
+
+interface TransferDetailsProps {
+  transferId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface Transfer {
+  id: string;
+  origin_location_id: string;
+  destination_location_id: string;
+  status: TransferStatus;
+  notes: string | null;
+  created_at: string;
+  dispatched_at: string | null;
+  received_at: string | null;
+  profiles: { full_name: string } | null;
+}
+
+interface TransferItem {
+  id: string;
+  quantity: number;
+  received_quantity: number;
+  products: { name: string };
+}
+
+interface LinkedMovement {
+  id: string;
+  type: string;
+  quantity: number;
+  location_id: string;
+  created_at: string;
+  products: { name: string };
+}
+
+const formatDate = (date: string | null) =>
+  date ? format(new Date(date), "dd/MM/yyyy HH:mm", { locale: ptBR }) : "—";
+
+// Transferência com seus itens e as movimentações geradas pelo envio e recebimentos
+export function TransferDetails({ transferId, onOpenChange }: TransferDetailsProps) {
+  const [transfer, setTransfer] = useState<Transfer | null>(null);
+  const [items, setItems] = useState<TransferItem[]>([]);
+  const [movements, setMovements] = useState<LinkedMovement[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { locations } = useLocations();
+
+  useEffect(() => {
+    if (transferId) loadTransfer(transferId);
+  }, [transferId]);
+
+  const loadTransfer = async (id: string) => {
+    setIsLoading(true);
+    try {
+      const [transferResult, itemsResult, movementsResult] = await Promise.all([
+        supabase.from("stock_transfers").select("*, profiles (full_name)").eq("id", id).single(),
+        supabase
+          .from("stock_transfer_items")
+          .select("id, quantity, received_quantity, products (name)")
+          .eq("transfer_id", id),
+        supabase
+          .from("stock_movements")
+          .select("id, type, quantity, location_id, created_at, products (name)")
+          .eq("transfer_id", id)
+          .order("created_at"),
+      ]);
+
+      if (transferResult.error) throw transferResult.error;
+      if (itemsResult.error) throw itemsResult.error;
+      if (movementsResult.error) throw movementsResult.error;
+      setTransfer(transferResult.data);
+      setItems(itemsResult.data || []);
+      setMovements(movementsResult.data || []);
+    } catch (error) {
+      console.error("Erro ao carregar transferência:", error);
+      setTransfer(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getLocationLabel = (id: string) => {
+    const location = locations.find((l) => l.id === id);
+    return location ? locationLabel(location) : "—";
+  };
+
+  return (
+    <Dialog open={!!transferId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Transferência {transfer && <TransferStatusBadge status={transfer.status} />}
+          </DialogTitle>
+          <DialogDescription className="flex items-center gap-2">
+            {transfer && (
+              <>
+                {getLocationLabel(transfer.origin_location_id)}
+                <ArrowRight className="h-4 w-4" />
+                {getLocationLabel(transfer.destination_location_id)}
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !transfer ? (
+          <div className="flex items-center justify-center p-8">
+            {isLoading ? (
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            ) : (
+              <p className="text-muted-foreground">Transferência não encontrada</p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+              <div>
+                <dt className="text-muted-foreground">Criada por</dt>
+                <dd className="font-medium">{transfer.profiles?.full_name || "—"}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Criada em</dt>
+                <dd>{formatDate(transfer.created_at)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Enviada em</dt>
+                <dd>{formatDate(transfer.dispatched_at)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Recebida em</dt>
+                <dd>{formatDate(transfer.received_at)}</dd>
+              </div>
+              {transfer.notes && (
+                <div className="col-span-2 sm:col-span-4">
+                  <dt className="text-muted-foreground">Observações</dt>
+                  <dd>{transfer.notes}</dd>
+                </div>
+              )}
+            </dl>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Produto</TableHead>
+                    <TableHead className="text-right">Enviado</TableHead>
+                    <TableHead className="text-right">Recebido</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="font-medium">{item.products?.name}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell
+                        className={`text-right ${
+                          transfer.status === "recebida" && item.received_quantity < item.quantity
+                            ? "text-destructive font-semibold"
+                            : ""
+                        }`}
+                      >
+                        {item.received_quantity}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Movimentações vinculadas</p>
+              {movements.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Nenhuma movimentação: o estoque só é movimentado no envio
+                </p>
+              ) : (
+                <ul className="text-sm space-y-1">
+                  {movements.map((movement) => (
+                    <li key={movement.id} className="flex justify-between gap-2">
+                      <span>
+                        {movement.type === "saida" ? "Saída de" : "Entrada em"}{" "}
+                        {getLocationLabel(movement.location_id)} · {movement.products?.name}
+                      </span>
+                      <span className="whitespace-nowrap text-muted-foreground">
+                        {movement.type === "saida" ? "-" : "+"}
+                        {movement.quantity} · {formatDate(movement.created_at)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
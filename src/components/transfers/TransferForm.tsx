@@ -0,0 +1,261 @@
+import { useEffect, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { transferSchema, TransferFormData } from "@/lib/validations";
+import { applyFieldErrors } from "@/lib/form-errors";
+import { supabase } from "@/integrations/supabase/client";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+export interface TransferDraft {
+  id: string;
+  origin_location_id: string;
+  destination_location_id: string;
+  notes: string | null;
+  items: { product_id: string; quantity: number }[];
+}
+
+interface TransferFormProps {
+  transfer?: TransferDraft | null;
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+interface Product {
+  id: string;
+  name: string;
+}
+
+export function TransferForm({ transfer, onSuccess, onCancel }: TransferFormProps) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { locations, isLoading: isLoadingLocations } = useLocations();
+
+  const form = useForm<TransferFormData>({
+    resolver: zodResolver(transferSchema),
+    defaultValues: {
+      origin_location_id: transfer?.origin_location_id || "",
+      destination_location_id: transfer?.destination_location_id || "",
+      notes: transfer?.notes || "",
+      items: transfer?.items.map(({ product_id, quantity }) => ({ product_id, quantity })) || [
+        { product_id: "", quantity: 1 },
+      ],
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "items" });
+
+  useEffect(() => {
+    loadProducts();
+  }, []);
+
+  const loadProducts = async () => {
+    const { data, error } = await supabase
+      .from("products")
+      .select("id, name")
+      .eq("status", "ativo")
+      .order("name");
+
+    if (error) {
+      console.error("Erro ao carregar produtos:", error);
+      toast.error("Erro ao carregar produtos");
+      return;
+    }
+    setProducts(data || []);
+  };
+
+  // O rascunho não mexe no estoque: as saídas só acontecem no envio
+  const onSubmit = async (data: TransferFormData) => {
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.transfers.save({
+        id: transfer?.id,
+        origin_location_id: data.origin_location_id,
+        destination_location_id: data.destination_location_id,
+        notes: data.notes || null,
+        items: data.items.map((item) => ({ product_id: item.product_id, quantity: item.quantity })),
+      });
+
+      if (error) throw error;
+
+      toast.success(transfer ? "Transferência atualizada!" : "Rascunho de transferência criado!");
+      onSuccess?.();
+    } catch (error) {
+      console.error("Erro ao salvar transferência:", error);
+      applyFieldErrors(form, error);
+      toast.error("Erro ao salvar transferência", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoadingLocations) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const locationField = (name: "origin_location_id" | "destination_location_id", label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label} *</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o local" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {locations.map((location) => (
+                <SelectItem key={location.id} value={location.id}>
+                  {locationLabel(location)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {locationField("origin_location_id", "Origem")}
+          {locationField("destination_location_id", "Destino")}
+        </div>
+
+        {/* Itens */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Produtos *</p>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append({ product_id: "", quantity: 1 })}
+              disabled={isSubmitting}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar produto
+            </Button>
+          </div>
+
+          {fields.map((item, index) => (
+            <div key={item.id} className="flex items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`items.${index}.product_id`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o produto" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {products.map((product) => (
+                          <SelectItem key={product.id} value={product.id}>
+                            {product.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`items.${index}.quantity`}
+                render={({ field }) => (
+                  <FormItem className="w-28">
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => remove(index)}
+                disabled={isSubmitting || fields.length === 1}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+          {form.formState.errors.items?.message && (
+            <p className="text-sm font-medium text-destructive">
+              {form.formState.errors.items.message}
+            </p>
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Observações</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} value={field.value || ""} disabled={isSubmitting} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex gap-4 justify-end">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+              Cancelar
+            </Button>
+          )}
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Salvar Rascunho
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+export interface ReceivableItem {
+  id: string;
+  quantity: number;
+  received_quantity: number;
+  products: { name: string };
+}
+
+interface TransferReceiveDialogProps {
+  transferId: string | null;
+  items: ReceivableItem[];
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+// Recebimento no destino: por padrão, tudo o que ainda está pendente
+export function TransferReceiveDialog({
+  transferId,
+  items,
+  onOpenChange,
+  onSuccess,
+}: TransferReceiveDialogProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [close, setClose] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const pendingItems = items.filter((item) => item.received_quantity < item.quantity);
+
+  useEffect(() => {
+    if (!transferId) return;
+    setQuantities(
+      Object.fromEntries(
+        pendingItems.map((item) => [item.id, item.quantity - item.received_quantity])
+      )
+    );
+    setClose(false);
+  }, [transferId]);
+
+  const willBePartial = pendingItems.some(
+    (item) => (quantities[item.id] || 0) < item.quantity - item.received_quantity
+  );
+
+  const handleSubmit = async () => {
+    if (!transferId) return;
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.transfers.receive({
+        id: transferId,
+        items: pendingItems.map((item) => ({ item_id: item.id, quantity: quantities[item.id] || 0 })),
+        close,
+      });
+
+      if (error) throw error;
+
+      toast.success(
+        willBePartial && !close
+          ? "Recebimento parcial registrado"
+          : "Transferência recebida com sucesso!"
+      );
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error("Erro ao receber transferência:", error);
+      toast.error("Erro ao receber transferência", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!transferId} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Receber Transferência</DialogTitle>
+          <DialogDescription>
+            Informe a quantidade que chegou ao destino. O que faltar continua em trânsito.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {pendingItems.map((item) => {
+            const pending = item.quantity - item.received_quantity;
+            return (
+              <div key={item.id} className="flex items-center gap-3">
+                <div className="flex-1">
+                  <p className="font-medium">{item.products?.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Pendente: {pending} de {item.quantity}
+                  </p>
+                </div>
+                <Input
+                  type="number"
+                  min="0"
+                  max={pending}
+                  className="w-24"
+                  value={quantities[item.id] ?? 0}
+                  onChange={(e) =>
+                    setQuantities((current) => ({
+                      ...current,
+                      [item.id]: Math.min(Math.max(parseInt(e.target.value) || 0, 0), pending),
+                    }))
+                  }
+                  disabled={isSubmitting}
+                />
+              </div>
+            );
+          })}
+
+          {willBePartial && (
+            <div className="flex items-center gap-2 pt-2">
+              <Checkbox
+                id="close-transfer"
+                checked={close}
+                onCheckedChange={(checked) => setClose(checked === true)}
+                disabled={isSubmitting}
+              />
+              <Label htmlFor="close-transfer" className="text-sm font-normal">
+                Encerrar a transferência e lançar as faltas como extravio (nada mais será recebido)
+              </Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Confirmar Recebimento
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
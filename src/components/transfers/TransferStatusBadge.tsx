@@ -0,0 +1,18 @@
+import { Badge } from "@/components/ui/badge";
+import type { TransferStatus } from "@/lib/db";
+
+export const transferStatusLabels: Record<TransferStatus, string> = {
+  rascunho: "Rascunho",
+  em_transito: "Em trânsito",
+  recebida: "Recebida",
+};
+
+const variants = {
+  rascunho: "muted",
+  em_transito: "warning",
+  recebida: "success",
+} as const;
+
+export function TransferStatusBadge({ status }: { status: TransferStatus }) {
+  return <Badge variant={variants[status]}>{transferStatusLabels[status]}</Badge>;
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// Retorna o valor somente após `delay` ms sem alterações (ex: campos de busca)
+export function useDebounce<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -0,0 +1,91 @@
+import { useEffect, useRef } from "react";
+
+// Leitores USB/Bluetooth em modo teclado "digitam" o código seguido de Enter
+// em poucos milissegundos por tecla, ritmo que ninguém alcança digitando
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 4;
+const GROUP_SEPARATOR = "\u001d";
+
+type ScanHandler = (code: string) => void;
+
+// Pilha de quem está escutando: só o último registrado (ex.: o formulário
+// aberto num diálogo por cima da página) recebe a leitura
+const handlers: { current: ScanHandler }[] = [];
+let buffer = "";
+let lastKeyAt = 0;
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Em modo teclado o separador GS1 (FNC1/GS) chega como Ctrl+] ou, em alguns
+// leitores, já como o próprio caractere
+const isGroupSeparator = (event: KeyboardEvent) =>
+  event.key === GROUP_SEPARATOR ||
+  (event.ctrlKey && !event.altKey && !event.metaKey && (event.key === "]" || event.code === "BracketRight"));
+
+function handleKeyDown(event: KeyboardEvent) {
+  if (isEditable(event.target)) {
+    buffer = "";
+    return;
+  }
+
+  // Só conta como separador no meio de uma leitura; fora dela é atalho comum
+  if (isGroupSeparator(event) && buffer && event.timeStamp - lastKeyAt <= MAX_KEY_INTERVAL_MS) {
+    event.preventDefault();
+    buffer += GROUP_SEPARATOR;
+    lastKeyAt = event.timeStamp;
+    return;
+  }
+
+  // Outros atalhos com modificador não fazem parte da leitura
+  if (event.ctrlKey || event.altKey || event.metaKey) {
+    buffer = "";
+    return;
+  }
+
+  if (event.timeStamp - lastKeyAt > MAX_KEY_INTERVAL_MS) {
+    buffer = "";
+  }
+  lastKeyAt = event.timeStamp;
+
+  if (event.key === "Enter") {
+    if (buffer.length >= MIN_CODE_LENGTH) {
+      // Sem isso o Enter ainda acionaria o botão em foco
+      event.preventDefault();
+      event.stopPropagation();
+      handlers[handlers.length - 1]?.current(buffer);
+    }
+    buffer = "";
+  } else if (event.key.length === 1) {
+    buffer += event.key;
+  }
+}
+
+/**
+ * Recebe as leituras de um leitor de código em modo teclado (HID) enquanto o
+ * componente estiver montado e `enabled` for verdadeiro. Há um único listener
+ * global; com vários componentes escutando, vale o montado por último.
+ */
+export function useKeyboardScanner(onScan: ScanHandler, enabled = true) {
+  const handler = useRef(onScan);
+  handler.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (handlers.length === 0) {
+      // Em captura, para ver a tecla antes dos componentes da página
+      window.addEventListener("keydown", handleKeyDown, true);
+    }
+    handlers.push(handler);
+
+    return () => {
+      handlers.splice(handlers.indexOf(handler), 1);
+      if (handlers.length === 0) {
+        window.removeEventListener("keydown", handleKeyDown, true);
+        buffer = "";
+      }
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface StockLocation {
+  id: string;
+  name: string;
+  warehouse_id: string;
+  warehouses: { name: string };
+}
+
+// Nome exibido nos selects e listas: "Depósito · Local"
+export function locationLabel(location: { name: string; warehouses?: { name: string } | null }) {
+  return location.warehouses ? `${location.warehouses.name} · ${location.name}` : location.name;
+}
+
+// Locais de estoque de todos os depósitos, ordenados por depósito e nome
+export function useLocations() {
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadLocations();
+  }, []);
+
+  const loadLocations = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("locations")
+        .select("id, name, warehouse_id, warehouses (name)")
+        .order("name");
+
+      if (error) throw error;
+      setLocations(
+        (data || []).sort(
+          (a, b) =>
+            a.warehouses.name.localeCompare(b.warehouses.name) || a.name.localeCompare(b.name)
+        )
+      );
+    } catch (error) {
+      console.error("Erro ao carregar locais:", error);
+      setLocations([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return { locations, isLoading, reload: loadLocations };
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { MovementType } from "@/lib/db";
+
+export interface MovementReason {
+  id: string;
+  movement_type: MovementType;
+  code: string;
+  name: string;
+  is_loss: boolean;
+}
+
+// Motivos ativos do catálogo, ordenados por nome; filtre por movement_type
+export function useMovementReasons() {
+  const [reasons, setReasons] = useState<MovementReason[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadReasons();
+  }, []);
+
+  const loadReasons = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("movement_reasons")
+        .select("id, movement_type, code, name, is_loss")
+        .eq("active", true)
+        .order("name");
+
+      if (error) throw error;
+      setReasons(data || []);
+    } catch (error) {
+      console.error("Erro ao carregar motivos:", error);
+      setReasons([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return { reasons, isLoading, reload: loadReasons };
+}
@@ -1,4 +1,11 @@
 import { useEffect, useState } from "react";
+import {
+  can as roleCan,
+  canAccessRoute,
+  canPerform as roleCanPerform,
+  type PermissionAction,
+  type TableOperation,
+} from "@/lib/permissions";
 
 export type UserRole = "admin" | "gestor" | null;
 
@@ -44,12 +51,22 @@ export function useUserRole() {
   const isGestor = profile?.role === "gestor";
   const hasRole = (role: UserRole) => profile?.role === role;
 
+  // Permissões vêm do mesmo mapa usado pelo servidor
+  const can = (table: string, operation: TableOperation) =>
+    roleCan(profile?.role || null, table, operation);
+  const canPerform = (action: PermissionAction) =>
+    roleCanPerform(profile?.role || null, action);
+  const canAccess = (path: string) => canAccessRoute(profile?.role || null, path);
+
   return {
     profile,
     isLoading,
     isAdmin,
     isGestor,
     hasRole,
+    can,
+    canPerform,
+    canAccess,
     role: profile?.role || null,
   };
 }
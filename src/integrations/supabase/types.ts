@@ -1,3 +1,6 @@
+// Gerado por scripts/generate-types.js a partir do banco. Não edite à mão:
+// rode `npm run gen:types` após alterar o schema ou server/registry.js.
+
 export type Json =
   | string
   | number
@@ -7,97 +10,385 @@ export type Json =
   | Json[]
 
 export type Database = {
-  // Allows to automatically instantiate createClient with right options
-  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
-  __InternalSupabase: {
-    PostgrestVersion: "13.0.5"
-  }
   public: {
     Tables: {
+      approval_settings: {
+        Row: {
+          created_at: string | null
+          id: string
+          quantity_threshold: number | null
+          updated_at: string | null
+          value_threshold: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          quantity_threshold?: number | null
+          updated_at?: string | null
+          value_threshold?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          quantity_threshold?: number | null
+          updated_at?: string | null
+          value_threshold?: number | null
+        }
+        Relationships: []
+      }
+      audit_logs: {
+        Row: {
+          action: string
+          changes: Json | null
+          created_at: string | null
+          id: string
+          ip_address: string | null
+          record_id: string | null
+          table_name: string
+          user_agent: string | null
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          changes?: Json | null
+          created_at?: string | null
+          id?: string
+          ip_address?: string | null
+          record_id?: string | null
+          table_name: string
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          changes?: Json | null
+          created_at?: string | null
+          id?: string
+          ip_address?: string | null
+          record_id?: string | null
+          table_name?: string
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_logs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categories: {
         Row: {
-          created_at: string
+          created_at: string | null
           description: string | null
+          expiration_warning_days: number
           id: string
           name: string
-          updated_at: string
+          updated_at: string | null
         }
         Insert: {
-          created_at?: string
+          created_at?: string | null
           description?: string | null
+          expiration_warning_days?: number
           id?: string
           name: string
-          updated_at?: string
+          updated_at?: string | null
         }
         Update: {
-          created_at?: string
+          created_at?: string | null
           description?: string | null
+          expiration_warning_days?: number
           id?: string
           name?: string
-          updated_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      locations: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          name: string
+          updated_at: string | null
+          warehouse_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string | null
+          warehouse_id: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string | null
+          warehouse_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locations_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lots: {
+        Row: {
+          created_at: string | null
+          expiration_date: string | null
+          id: string
+          location_id: string
+          lot_number: string | null
+          product_id: string
+          quantity: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          expiration_date?: string | null
+          id?: string
+          location_id: string
+          lot_number?: string | null
+          product_id: string
+          quantity?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          expiration_date?: string | null
+          id?: string
+          location_id?: string
+          lot_number?: string | null
+          product_id?: string
+          quantity?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lots_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lots_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      movement_approvals: {
+        Row: {
+          created_at: string | null
+          expiration_date: string | null
+          id: string
+          location_id: string
+          lot_number: string | null
+          lots: Json | null
+          movement_id: string | null
+          previous_stock: number
+          product_id: string
+          quantity: number
+          reason: string | null
+          reason_id: string | null
+          requested_by: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["approval_status"]
+          type: Database["public"]["Enums"]["movement_type"]
+          unit_cost: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          expiration_date?: string | null
+          id?: string
+          location_id: string
+          lot_number?: string | null
+          lots?: Json | null
+          movement_id?: string | null
+          previous_stock: number
+          product_id: string
+          quantity: number
+          reason?: string | null
+          reason_id?: string | null
+          requested_by: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["approval_status"]
+          type: Database["public"]["Enums"]["movement_type"]
+          unit_cost?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          expiration_date?: string | null
+          id?: string
+          location_id?: string
+          lot_number?: string | null
+          lots?: Json | null
+          movement_id?: string | null
+          previous_stock?: number
+          product_id?: string
+          quantity?: number
+          reason?: string | null
+          reason_id?: string | null
+          requested_by?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["approval_status"]
+          type?: Database["public"]["Enums"]["movement_type"]
+          unit_cost?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "movement_approvals_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movement_approvals_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movement_approvals_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movement_approvals_reason_id_fkey"
+            columns: ["reason_id"]
+            isOneToOne: false
+            referencedRelation: "movement_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movement_approvals_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movement_approvals_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      movement_reasons: {
+        Row: {
+          active: boolean
+          code: string
+          created_at: string | null
+          id: string
+          is_loss: boolean
+          movement_type: Database["public"]["Enums"]["movement_type"]
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          active?: boolean
+          code: string
+          created_at?: string | null
+          id?: string
+          is_loss?: boolean
+          movement_type: Database["public"]["Enums"]["movement_type"]
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          active?: boolean
+          code?: string
+          created_at?: string | null
+          id?: string
+          is_loss?: boolean
+          movement_type?: Database["public"]["Enums"]["movement_type"]
+          name?: string
+          updated_at?: string | null
         }
         Relationships: []
       }
       products: {
         Row: {
           barcode: string | null
-          batch_number: string | null
           category_id: string | null
           cost_price: number
-          created_at: string
+          created_at: string | null
           current_stock: number
           description: string | null
-          expiration_date: string | null
           id: string
           image_url: string | null
-          location: string | null
           minimum_stock: number
           name: string
           qr_code: string
           sale_price: number
           status: string
+          supplier_code: string | null
           supplier_id: string | null
-          updated_at: string
+          updated_at: string | null
         }
         Insert: {
           barcode?: string | null
-          batch_number?: string | null
           category_id?: string | null
           cost_price?: number
-          created_at?: string
+          created_at?: string | null
           current_stock?: number
           description?: string | null
-          expiration_date?: string | null
           id?: string
           image_url?: string | null
-          location?: string | null
           minimum_stock?: number
           name: string
           qr_code: string
           sale_price?: number
           status?: string
+          supplier_code?: string | null
           supplier_id?: string | null
-          updated_at?: string
+          updated_at?: string | null
         }
         Update: {
           barcode?: string | null
-          batch_number?: string | null
           category_id?: string | null
           cost_price?: number
-          created_at?: string
+          created_at?: string | null
           current_stock?: number
           description?: string | null
-          expiration_date?: string | null
           id?: string
           image_url?: string | null
-          location?: string | null
           minimum_stock?: number
           name?: string
           qr_code?: string
           sale_price?: number
           status?: string
+          supplier_code?: string | null
           supplier_id?: string | null
-          updated_at?: string
+          updated_at?: string | null
         }
         Relationships: [
           {
@@ -118,63 +409,373 @@ export type Database = {
       }
       profiles: {
         Row: {
-          created_at: string
+          created_at: string | null
+          email: string | null
           full_name: string
           id: string
           role: Database["public"]["Enums"]["user_role"]
-          updated_at: string
+          updated_at: string | null
+          username: string | null
         }
         Insert: {
-          created_at?: string
+          created_at?: string | null
+          email?: string | null
           full_name: string
-          id: string
+          id?: string
           role?: Database["public"]["Enums"]["user_role"]
-          updated_at?: string
+          updated_at?: string | null
+          username?: string | null
         }
         Update: {
-          created_at?: string
+          created_at?: string | null
+          email?: string | null
           full_name?: string
           id?: string
           role?: Database["public"]["Enums"]["user_role"]
-          updated_at?: string
+          updated_at?: string | null
+          username?: string | null
         }
         Relationships: []
       }
+      purchase_order_items: {
+        Row: {
+          created_at: string | null
+          id: string
+          order_id: string
+          product_id: string
+          quantity: number
+          received_quantity: number
+          unit_cost: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          order_id: string
+          product_id: string
+          quantity: number
+          received_quantity?: number
+          unit_cost?: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          order_id?: string
+          product_id?: string
+          quantity?: number
+          received_quantity?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          cancelled_at: string | null
+          created_at: string | null
+          created_by: string | null
+          expected_date: string | null
+          id: string
+          notes: string | null
+          number: number
+          received_at: string | null
+          sent_at: string | null
+          status: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          cancelled_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          number?: number
+          received_at?: string | null
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          cancelled_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          number?: number
+          received_at?: string | null
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_items: {
+        Row: {
+          created_at: string | null
+          id: string
+          product_id: string
+          quantity: number
+          sale_id: string
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          product_id: string
+          quantity: number
+          sale_id: string
+          unit_price: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          product_id?: string
+          quantity?: number
+          sale_id?: string
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_items_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales: {
+        Row: {
+          amount_paid: number | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          location_id: string
+          notes: string | null
+          number: number
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          total: number
+        }
+        Insert: {
+          amount_paid?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          location_id: string
+          notes?: string | null
+          number?: number
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          total: number
+        }
+        Update: {
+          amount_paid?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          location_id?: string
+          notes?: string | null
+          number?: number
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_balances: {
+        Row: {
+          id: string
+          location_id: string
+          product_id: string
+          quantity: number
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          location_id: string
+          product_id: string
+          quantity?: number
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          location_id?: string
+          product_id?: string
+          quantity?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_balances_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_balances_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movement_lots: {
+        Row: {
+          id: string
+          lot_id: string
+          movement_id: string
+          quantity: number
+        }
+        Insert: {
+          id?: string
+          lot_id: string
+          movement_id: string
+          quantity: number
+        }
+        Update: {
+          id?: string
+          lot_id?: string
+          movement_id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movement_lots_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movement_lots_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       stock_movements: {
         Row: {
-          created_at: string
+          created_at: string | null
           id: string
+          location_id: string
           new_stock: number
           previous_stock: number
           product_id: string
+          purchase_order_id: string | null
           quantity: number
           reason: string | null
+          reason_id: string | null
+          reversal_of: string | null
+          sale_id: string | null
+          stocktake_id: string | null
+          transfer_id: string | null
           type: Database["public"]["Enums"]["movement_type"]
+          unit_cost: number | null
           user_id: string
         }
         Insert: {
-          created_at?: string
+          created_at?: string | null
           id?: string
+          location_id: string
           new_stock: number
           previous_stock: number
           product_id: string
+          purchase_order_id?: string | null
           quantity: number
           reason?: string | null
+          reason_id?: string | null
+          reversal_of?: string | null
+          sale_id?: string | null
+          stocktake_id?: string | null
+          transfer_id?: string | null
           type: Database["public"]["Enums"]["movement_type"]
+          unit_cost?: number | null
           user_id: string
         }
         Update: {
-          created_at?: string
+          created_at?: string | null
           id?: string
+          location_id?: string
           new_stock?: number
           previous_stock?: number
           product_id?: string
+          purchase_order_id?: string | null
           quantity?: number
           reason?: string | null
+          reason_id?: string | null
+          reversal_of?: string | null
+          sale_id?: string | null
+          stocktake_id?: string | null
+          transfer_id?: string | null
           type?: Database["public"]["Enums"]["movement_type"]
+          unit_cost?: number | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "stock_movements_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "stock_movements_product_id_fkey"
             columns: ["product_id"]
@@ -182,6 +783,48 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_movements_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_reason_id_fkey"
+            columns: ["reason_id"]
+            isOneToOne: false
+            referencedRelation: "movement_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_reversal_of_fkey"
+            columns: ["reversal_of"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_stocktake_id_fkey"
+            columns: ["stocktake_id"]
+            isOneToOne: false
+            referencedRelation: "stocktakes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "stock_movements_user_id_fkey"
             columns: ["user_id"]
@@ -191,36 +834,292 @@ export type Database = {
           },
         ]
       }
+      stock_transfer_items: {
+        Row: {
+          created_at: string | null
+          id: string
+          product_id: string
+          quantity: number
+          received_quantity: number
+          transfer_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          product_id: string
+          quantity: number
+          received_quantity?: number
+          transfer_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          product_id?: string
+          quantity?: number
+          received_quantity?: number
+          transfer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfer_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_items_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfers: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          destination_location_id: string
+          dispatched_at: string | null
+          id: string
+          notes: string | null
+          origin_location_id: string
+          received_at: string | null
+          status: Database["public"]["Enums"]["transfer_status"]
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          destination_location_id: string
+          dispatched_at?: string | null
+          id?: string
+          notes?: string | null
+          origin_location_id: string
+          received_at?: string | null
+          status?: Database["public"]["Enums"]["transfer_status"]
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          destination_location_id?: string
+          dispatched_at?: string | null
+          id?: string
+          notes?: string | null
+          origin_location_id?: string
+          received_at?: string | null
+          status?: Database["public"]["Enums"]["transfer_status"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfers_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_destination_location_id_fkey"
+            columns: ["destination_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_origin_location_id_fkey"
+            columns: ["origin_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktake_items: {
+        Row: {
+          counted_at: string | null
+          counted_by: string | null
+          counted_quantity: number | null
+          created_at: string | null
+          id: string
+          product_id: string
+          stocktake_id: string
+        }
+        Insert: {
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          created_at?: string | null
+          id?: string
+          product_id: string
+          stocktake_id: string
+        }
+        Update: {
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          created_at?: string | null
+          id?: string
+          product_id?: string
+          stocktake_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktake_items_counted_by_fkey"
+            columns: ["counted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktake_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktake_items_stocktake_id_fkey"
+            columns: ["stocktake_id"]
+            isOneToOne: false
+            referencedRelation: "stocktakes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktakes: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          cancelled_at: string | null
+          category_id: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          location_id: string
+          notes: string | null
+          number: number
+          status: Database["public"]["Enums"]["stocktake_status"]
+          updated_at: string | null
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          cancelled_at?: string | null
+          category_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          location_id: string
+          notes?: string | null
+          number?: number
+          status?: Database["public"]["Enums"]["stocktake_status"]
+          updated_at?: string | null
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          cancelled_at?: string | null
+          category_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          location_id?: string
+          notes?: string | null
+          number?: number
+          status?: Database["public"]["Enums"]["stocktake_status"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktakes_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktakes_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktakes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktakes_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       suppliers: {
         Row: {
           address: string | null
           contact_name: string | null
-          created_at: string
+          created_at: string | null
           email: string | null
           id: string
+          lead_time_days: number
           name: string
           phone: string | null
-          updated_at: string
+          updated_at: string | null
         }
         Insert: {
           address?: string | null
           contact_name?: string | null
-          created_at?: string
+          created_at?: string | null
           email?: string | null
           id?: string
+          lead_time_days?: number
           name: string
           phone?: string | null
-          updated_at?: string
+          updated_at?: string | null
         }
         Update: {
           address?: string | null
           contact_name?: string | null
-          created_at?: string
+          created_at?: string | null
           email?: string | null
           id?: string
+          lead_time_days?: number
           name?: string
           phone?: string | null
-          updated_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      warehouses: {
+        Row: {
+          address: string | null
+          created_at: string | null
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string | null
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          created_at?: string | null
+          id?: string
+          name?: string
+          updated_at?: string | null
         }
         Relationships: []
       }
@@ -232,7 +1131,12 @@ export type Database = {
       [_ in never]: never
     }
     Enums: {
+      approval_status: "pendente" | "aprovado" | "rejeitado"
       movement_type: "entrada" | "saida" | "ajuste" | "inventario"
+      payment_method: "dinheiro" | "cartao_debito" | "cartao_credito" | "pix"
+      purchase_order_status: "rascunho" | "enviado" | "parcialmente_recebido" | "recebido" | "cancelado"
+      stocktake_status: "em_contagem" | "aprovado" | "cancelado"
+      transfer_status: "rascunho" | "em_transito" | "recebida"
       user_role: "admin" | "gestor"
     }
     CompositeTypes: {
@@ -361,7 +1265,12 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      approval_status: ["pendente", "aprovado", "rejeitado"],
       movement_type: ["entrada", "saida", "ajuste", "inventario"],
+      payment_method: ["dinheiro", "cartao_debito", "cartao_credito", "pix"],
+      purchase_order_status: ["rascunho", "enviado", "parcialmente_recebido", "recebido", "cancelado"],
+      stocktake_status: ["em_contagem", "aprovado", "cancelado"],
+      transfer_status: ["rascunho", "em_transito", "recebida"],
       user_role: ["admin", "gestor"],
     },
   },
@@ -0,0 +1,127 @@
+/**
+ * Códigos de barras GS1 (EAN-8, UPC-A, EAN-13 e GTIN-14) e os códigos
+ * GS1-128/DataMatrix das caixas de fornecedores, com GTIN, lote e validade.
+ * Compartilhado entre o productSchema (cliente e servidor), o formulário de
+ * produto, que gera EAN-13 para produtos sem código próprio, e o scanner.
+ */
+
+// Códigos só com dígitos nestes tamanhos são tratados como GTIN e validados
+const GTIN_PATTERN = /^(\d{8}|\d{12,14})$/;
+
+// Dígito verificador dos dígitos informados (o código sem o último dígito):
+// pesos 3 e 1 alternados a partir da direita
+export function gtinCheckDigit(digits) {
+  const sum = digits
+    .split("")
+    .reverse()
+    .reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isGtin(code) {
+  return GTIN_PATTERN.test(code);
+}
+
+export function isValidGtin(code) {
+  return isGtin(code) && gtinCheckDigit(code.slice(0, -1)) === Number(code.slice(-1));
+}
+
+// EAN-13 aleatório com dígito verificador válido
+export function generateEan13() {
+  const digits = Array.from({ length: 12 }, () => Math.floor(Math.random() * 10)).join("");
+  return digits + gtinCheckDigit(digits);
+}
+
+// ==================== GS1-128 / GS1 DataMatrix ====================
+
+// Separador FNC1 dos campos de tamanho variável, como chega do leitor
+const GROUP_SEPARATOR = "\u001d";
+
+// Tamanho dos identificadores de aplicação (AI) mais comuns nas caixas de
+// fornecedores; null = variável, até o separador ou o fim do código
+const APPLICATION_IDENTIFIERS = {
+  "00": 18, // SSCC
+  "01": 14, // GTIN
+  "02": 14, // GTIN do conteúdo
+  "10": null, // lote
+  "11": 6, // data de fabricação
+  "13": 6, // data de embalagem
+  "15": 6, // consumir preferencialmente até
+  "17": 6, // validade
+  "21": null, // número de série
+  "30": null, // quantidade variável
+  "37": null, // quantidade de unidades
+};
+
+// "AAMMDD" → "20AA-MM-DD"; dia 00 é o último dia do mês
+function gs1Date(value) {
+  if (!/^\d{6}$/.test(value)) return null;
+  const year = 2000 + Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12) return null;
+  if (day === 0) day = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Lê os pares AI/valor de um código sem parênteses; para no primeiro AI desconhecido
+function readElements(data) {
+  const elements = {};
+  let position = 0;
+  while (position < data.length) {
+    if (data[position] === GROUP_SEPARATOR) {
+      position++;
+      continue;
+    }
+    const ai = data.slice(position, position + 2);
+    if (!(ai in APPLICATION_IDENTIFIERS)) break;
+    position += 2;
+
+    const length = APPLICATION_IDENTIFIERS[ai];
+    let end = length === null ? data.indexOf(GROUP_SEPARATOR, position) : position + length;
+    if (end === -1) end = data.length;
+    elements[ai] = data.slice(position, end);
+    position = end;
+  }
+  return elements;
+}
+
+/**
+ * Extrai GTIN (01), lote (10) e validade (17) de um código GS1, no formato
+ * cru do leitor (com FNC1 e, opcionalmente, o prefixo ]C1/]d2/]Q3) ou no
+ * legível "(01)...(17)...(10)...". Retorna null se o código não for GS1.
+ */
+export function parseGs1(code) {
+  let elements;
+  if (code.startsWith("(")) {
+    elements = {};
+    for (const [, ai, value] of code.matchAll(/\((\d{2,4})\)([^(]*)/g)) {
+      elements[ai] = value.trim();
+    }
+  } else {
+    const prefix = code.match(/^\](C1|d2|Q3|e0)/);
+    const data = prefix ? code.slice(prefix[0].length) : code;
+    // Sem o prefixo, só é GS1 se começar por um GTIN válido seguido de mais dados
+    if (!prefix && !(/^01\d{14}./s.test(data) && isValidGtin(data.slice(2, 16)))) return null;
+    elements = readElements(data);
+  }
+
+  const gtin = elements["01"] || elements["02"];
+  if (!gtin && !elements["10"] && !elements["17"]) return null;
+  return {
+    gtin: gtin && /^\d{14}$/.test(gtin) ? gtin : null,
+    lot_number: elements["10"] || null,
+    expiration_date: elements["17"] ? gs1Date(elements["17"]) : null,
+  };
+}
+
+// Um GTIN-14 com zeros à esquerda é o mesmo produto do EAN-13, UPC-A ou
+// EAN-8 impresso na embalagem; devolve todas as formas para a busca
+export function gtinVariants(gtin) {
+  const variants = [gtin];
+  for (const length of [13, 12, 8]) {
+    const prefix = gtin.slice(0, gtin.length - length);
+    if (/^0*$/.test(prefix)) variants.push(gtin.slice(-length));
+  }
+  return variants;
+}
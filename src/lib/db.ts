@@ -3,81 +3,419 @@
  * Substitui o Supabase por conexão direta
  */
 
+import type { Database } from '@/integrations/supabase/types';
+
 const API_URL = '/api';
 
-interface QueryResult<T = any> {
+interface QueryResult<T> {
   data: T | null;
-  error: Error | null;
+  error: ApiError | Error | null;
   count?: number;
 }
 
+// Erro de validação de um campo, no formato devolvido pela API
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Erro devolvido pela API ({ error, details }).
+ * Em falhas de validação, `fieldErrors` traz a mensagem de cada campo.
+ */
+export class ApiError extends Error {
+  status: number;
+  fieldErrors: FieldError[];
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.fieldErrors = Array.isArray(details) ? details : [];
+  }
+}
+
+function apiError(response: Response, data: { error?: string; details?: unknown } | null, fallback: string) {
+  return new ApiError(data?.error || fallback, response.status, data?.details);
+}
+
+export interface Session {
+  access_token: string;
+  refresh_token: string;
+  expires_at: string;
+  user_id: string;
+}
+
+// ==================== SESSÃO ====================
+
+function readSession(): Session | null {
+  const session = localStorage.getItem('session');
+  return session ? JSON.parse(session) : null;
+}
+
+function storeSession(session: Session, user: unknown) {
+  localStorage.setItem('session', JSON.stringify(session));
+  localStorage.setItem('user', JSON.stringify(user));
+}
+
+function clearSession() {
+  localStorage.removeItem('session');
+  localStorage.removeItem('user');
+}
+
+// Evita múltiplos refresh simultâneos quando várias requisições expiram juntas
+let refreshing: Promise<boolean> | null = null;
+
+async function refreshSession(): Promise<boolean> {
+  const session = readSession();
+  if (!session?.refresh_token) return false;
+
+  refreshing ??= (async () => {
+    try {
+      const response = await fetch(`${API_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refresh_token: session.refresh_token }),
+      });
+      if (!response.ok) {
+        clearSession();
+        return false;
+      }
+      const data = await response.json();
+      storeSession(data.session, data.user);
+      return true;
+    } catch {
+      return false;
+    } finally {
+      refreshing = null;
+    }
+  })();
+
+  return refreshing;
+}
+
+/**
+ * fetch autenticado: envia o access token e, se ele tiver expirado,
+ * renova a sessão com o refresh token e repete a requisição uma vez
+ */
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => {
+    const headers = new Headers(init.headers);
+    const session = readSession();
+    if (session?.access_token) {
+      headers.set('Authorization', `Bearer ${session.access_token}`);
+    }
+    return fetch(url, { ...init, headers });
+  };
+
+  const response = await send();
+  if (response.status !== 401 || !(await refreshSession())) {
+    return response;
+  }
+  return send();
+}
+
+export type MovementType = 'entrada' | 'saida' | 'ajuste' | 'inventario';
+
+export interface MovementInput {
+  product_id: string;
+  location_id: string;
+  type: MovementType;
+  quantity: number;
+  // Motivo do catálogo (obrigatório em saídas e ajustes); reason fica como observação
+  reason_id?: string | null;
+  reason?: string | null;
+  // Lote de entrada; nas saídas, lots escolhe os lotes manualmente (senão FEFO)
+  lot_number?: string | null;
+  expiration_date?: string | null;
+  lots?: { lot_id: string; quantity: number }[] | null;
+}
+
+export type TransferStatus = 'rascunho' | 'em_transito' | 'recebida';
+
+// Rascunho de transferência; com id, substitui um rascunho existente
+export interface TransferInput {
+  id?: string;
+  origin_location_id: string;
+  destination_location_id: string;
+  notes?: string | null;
+  items: { product_id: string; quantity: number }[];
+}
+
+// Recebimento parcial ou total; close encerra mesmo com itens pendentes
+export interface TransferReceiptInput {
+  id: string;
+  items: { item_id: string; quantity: number }[];
+  close?: boolean;
+}
+
+export type PurchaseOrderStatus =
+  | 'rascunho'
+  | 'enviado'
+  | 'parcialmente_recebido'
+  | 'recebido'
+  | 'cancelado';
+
+// Rascunho de pedido de compra; com id, substitui um rascunho existente
+export interface PurchaseOrderInput {
+  id?: string;
+  supplier_id: string;
+  expected_date?: string | null;
+  notes?: string | null;
+  items: { product_id: string; quantity: number; unit_cost: number }[];
+}
+
+// Recebimento no local informado; unit_cost substitui o custo do pedido
+export interface PurchaseReceiptInput {
+  id: string;
+  location_id: string;
+  items: {
+    item_id: string;
+    quantity: number;
+    unit_cost?: number;
+    lot_number?: string | null;
+    expiration_date?: string | null;
+  }[];
+  close?: boolean;
+}
+
+export type StocktakeStatus = 'em_contagem' | 'aprovado' | 'cancelado';
+
+export interface StocktakeInput {
+  location_id: string;
+  category_id?: string | null;
+  notes?: string | null;
+}
+
+// "add" soma à contagem já registrada do produto, "set" a substitui
+export interface StocktakeCountInput {
+  id: string;
+  product_id: string;
+  quantity: number;
+  mode?: 'add' | 'set';
+}
+
+export type ApprovalStatus = 'pendente' | 'aprovado' | 'rejeitado';
+
+export type PaymentMethod = 'dinheiro' | 'cartao_debito' | 'cartao_credito' | 'pix';
+
+// O preço de cada item é o sale_price do produto no momento do fechamento
+export interface SaleInput {
+  location_id: string;
+  payment_method: PaymentMethod;
+  amount_paid?: number | null;
+  notes?: string | null;
+  items: { product_id: string; quantity: number }[];
+}
+
+export interface ReorderSuggestion {
+  product_id: string;
+  name: string;
+  current_stock: number;
+  on_order: number;
+  minimum_stock: number;
+  daily_consumption: number;
+  days_of_stock: number | null;
+  safety_stock: number;
+  reorder_point: number;
+  quantity: number;
+  unit_cost: number;
+  total_cost: number;
+}
+
+// Sugestões de um fornecedor; supplier_id null agrupa os produtos sem fornecedor
+export interface SupplierReorderSuggestions {
+  supplier_id: string | null;
+  supplier_name: string | null;
+  lead_time_days: number;
+  items: ReorderSuggestion[];
+  total_cost: number;
+}
+
+export interface ReorderSuggestionsResult {
+  options: { history_days: number; safety_days: number; coverage_days: number };
+  suppliers: SupplierReorderSuggestions[];
+}
+
+export interface LossReportFilters {
+  date_from?: string;
+  date_to?: string;
+  category_id?: string;
+}
+
+// Quantidade perdida e valor a custo de cada agrupamento
+export interface LossTotals {
+  quantity: number;
+  cost: number;
+}
+
+export interface LossReport {
+  filters: { date_from: string; date_to: string; category_id: string | null };
+  total_quantity: number;
+  total_cost: number;
+  by_reason: (LossTotals & { reason_id: string | null; reason_name: string; movement_type: MovementType })[];
+  by_category: (LossTotals & { category_id: string | null; category_name: string | null })[];
+  by_month: (LossTotals & { month: string })[];
+}
+
+// ==================== TIPOS DO SCHEMA ====================
+
+// Tipos derivados de src/integrations/supabase/types.ts (npm run gen:types)
+type PublicSchema = Database['public'];
+
+export type TableName = keyof PublicSchema['Tables'];
+export type Row<T extends TableName> = PublicSchema['Tables'][T]['Row'];
+export type InsertRow<T extends TableName> = PublicSchema['Tables'][T]['Insert'];
+export type UpdateRow<T extends TableName> = PublicSchema['Tables'][T]['Update'];
+
+type ColumnName<T extends TableName> = Extract<keyof Row<T>, string>;
+
+// Relações que podem ser embutidas no select (ex: "*, categories (id, name)")
+type RelationName<T extends TableName> = Extract<
+  PublicSchema['Tables'][T]['Relationships'][number]['referencedRelation'],
+  TableName
+>;
+
+// Linha com as relações embutidas. O tipo não acompanha quais colunas foram
+// selecionadas: selects parciais devolvem apenas parte dos campos.
+export type RowWithRelations<T extends TableName> = Row<T> & {
+  [R in RelationName<T>]: Row<R>;
+};
+
+type Whitespace = ' ' | '\n' | '\t';
+type Trim<S extends string> = S extends `${Whitespace}${infer R}`
+  ? Trim<R>
+  : S extends `${infer L}${Whitespace}`
+    ? Trim<L>
+    : S;
+type StripGroups<S extends string> = S extends `${infer A}(${string})${infer B}` ? StripGroups<`${A}${B}`> : S;
+type SplitColumns<S extends string> = S extends `${infer H},${infer T}` ? Trim<H> | SplitColumns<T> : Trim<S>;
+type InvalidColumns<T extends TableName, S extends string> = Exclude<
+  SplitColumns<StripGroups<S>>,
+  '' | '*' | ColumnName<T> | RelationName<T>
+>;
+
+// Valida em tempo de compilação as colunas e relações de primeiro nível do select.
+// Strings não literais são aceitas e validadas apenas pelo servidor.
+type SelectColumns<T extends TableName, S extends string> = string extends S
+  ? S
+  : [InvalidColumns<T, S>] extends [never]
+    ? S
+    : `Coluna inválida em ${T}: ${InvalidColumns<T, S>}`;
+
+// Valores com vírgula, parênteses, aspas ou barra invertida vão entre aspas em
+// listas in.(...) e or=(...), com \" e \\ escapados
+export function quoteFilterValue(value: unknown): string {
+  const str = String(value);
+  return /[,()"\\]/.test(str) ? `"${str.replace(/["\\]/g, '\\$&')}"` : str;
+}
+
+// Texto buscado literalmente em like/ilike: %, _ e * deixam de ser curingas
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_*]/g, '\\$&');
+}
+
+// URL de update/delete filtrada por uma coluna, codificada como a do select
+function eqFilterUrl(table: string, column: string, value: unknown): string {
+  return `${API_URL}/${table}?${new URLSearchParams({ [column]: `eq.${value}` })}`;
+}
+
 // Query builder com encadeamento
-class QueryBuilder {
-  private table: string;
+class QueryBuilder<T extends TableName, Result = RowWithRelations<T>[]> implements PromiseLike<QueryResult<Result>> {
+  private table: T;
   private params: URLSearchParams;
   private selectColumns: string = '*';
   private orderColumn: string | null = null;
   private orderDirection: 'asc' | 'desc' = 'asc';
   private isSingle: boolean = false;
+  private isHead: boolean = false;
 
-  constructor(table: string) {
+  constructor(table: T) {
     this.table = table;
     this.params = new URLSearchParams();
   }
 
-  select(columns = '*', options?: { count?: string }) {
+  select(columns: string = '*', options?: { count?: 'exact'; head?: boolean }) {
     this.selectColumns = columns;
     this.params.set('select', columns);
     if (options?.count) {
       this.params.set('count', options.count);
     }
+    // head: o servidor devolve apenas o total, sem linhas
+    if (options?.head) {
+      this.isHead = true;
+      this.params.set('head', 'true');
+    }
     return this;
   }
 
-  order(column: string, options?: { ascending?: boolean }) {
+  order(column: ColumnName<T>, options?: { ascending?: boolean }) {
     this.orderColumn = column;
     this.orderDirection = options?.ascending === false ? 'desc' : 'asc';
     this.params.set('order', `${column}.${this.orderDirection}`);
     return this;
   }
 
-  eq(column: string, value: any) {
-    this.params.set(column, `eq.${value}`);
+  eq<K extends ColumnName<T>>(column: K, value: Row<T>[K]) {
+    this.params.append(column, `eq.${value}`);
     return this;
   }
 
-  neq(column: string, value: any) {
-    this.params.set(column, `neq.${value}`);
+  neq<K extends ColumnName<T>>(column: K, value: Row<T>[K]) {
+    this.params.append(column, `neq.${value}`);
     return this;
   }
 
-  gte(column: string, value: any) {
-    this.params.set(column, `gte.${value}`);
+  gte<K extends ColumnName<T>>(column: K, value: Row<T>[K]) {
+    this.params.append(column, `gte.${value}`);
     return this;
   }
 
-  lte(column: string, value: any) {
-    this.params.set(column, `lte.${value}`);
+  lte<K extends ColumnName<T>>(column: K, value: Row<T>[K]) {
+    this.params.append(column, `lte.${value}`);
     return this;
   }
 
-  gt(column: string, value: any) {
-    this.params.set(column, `gt.${value}`);
+  gt<K extends ColumnName<T>>(column: K, value: Row<T>[K]) {
+    this.params.append(column, `gt.${value}`);
     return this;
   }
 
-  lt(column: string, value: any) {
-    this.params.set(column, `lt.${value}`);
+  lt<K extends ColumnName<T>>(column: K, value: Row<T>[K]) {
+    this.params.append(column, `lt.${value}`);
     return this;
   }
 
-  not(column: string, operator: string, value: any) {
-    this.params.set(column, `not.${operator}.${value}`);
+  not<K extends ColumnName<T>>(column: K, operator: string, value: Row<T>[K] | null) {
+    this.params.append(column, `not.${operator}.${value}`);
     return this;
   }
 
-  is(column: string, value: any) {
-    this.params.set(column, `is.${value}`);
+  is(column: ColumnName<T>, value: boolean | null) {
+    this.params.append(column, `is.${value}`);
+    return this;
+  }
+
+  // Padrões usam "*" ou "%" como curinga (ex: "*arroz*")
+  like(column: ColumnName<T>, pattern: string) {
+    this.params.append(column, `like.${pattern}`);
+    return this;
+  }
+
+  ilike(column: ColumnName<T>, pattern: string) {
+    this.params.append(column, `ilike.${pattern}`);
+    return this;
+  }
+
+  in<K extends ColumnName<T>>(column: K, values: readonly Row<T>[K][]) {
+    this.params.append(column, `in.(${values.map(quoteFilterValue).join(',')})`);
+    return this;
+  }
+
+  // Condições combinadas com OR, no formato do PostgREST:
+  // or("name.ilike.*arroz*,barcode.eq.789")
+  or(filters: string) {
+    this.params.append('or', `(${filters})`);
     return this;
   }
 
@@ -86,20 +424,40 @@ class QueryBuilder {
     return this;
   }
 
-  single() {
-    this.isSingle = true;
+  offset(count: number) {
+    this.params.set('offset', count.toString());
+    return this;
+  }
+
+  // Intervalo inclusivo de linhas, como no Supabase (range(0, 9) = 10 primeiras)
+  range(from: number, to: number) {
+    this.params.set('offset', from.toString());
+    this.params.set('limit', (to - from + 1).toString());
     return this;
   }
 
-  private async execute(): Promise<QueryResult> {
+  single(): QueryBuilder<T, RowWithRelations<T>> {
+    this.isSingle = true;
+    return this as unknown as QueryBuilder<T, RowWithRelations<T>>;
+  }
+
+  private async execute(): Promise<QueryResult<Result>> {
     try {
       const url = `${API_URL}/${this.table}?${this.params.toString()}`;
-      const response = await fetch(url);
+      const response = await authFetch(url);
       const data = await response.json();
 
       // Se o servidor retornou erro, tratar como erro
       if (data && data.error) {
-        return { data: null, error: new Error(data.error), count: 0 };
+        return { data: null, error: apiError(response, data, 'Erro ao carregar dados'), count: 0 };
+      }
+
+      // Total exato enviado pelo servidor no header Content-Range ("0-24/123")
+      const total = response.headers.get('Content-Range')?.match(/\/(\d+)$/);
+      const count = total ? parseInt(total[1], 10) : undefined;
+
+      if (this.isHead) {
+        return { data: null, error: null, count: count ?? 0 };
       }
 
       // Se single(), retorna o primeiro item ou null
@@ -111,102 +469,259 @@ class QueryBuilder {
       // Garantir que data seja sempre um array para queries
       const resultData = Array.isArray(data) ? data : (data ? [data] : []);
       return {
-        data: resultData,
+        data: resultData as Result,
         error: null,
-        count: resultData.length
+        count: count ?? resultData.length
       };
     } catch (error) {
-      return { data: this.isSingle ? null : [], error: error as Error, count: 0 };
+      return { data: (this.isSingle ? null : []) as Result, error: error as Error, count: 0 };
     }
   }
 
-  async then<TResult>(
-    onfulfilled?: ((value: QueryResult) => TResult | PromiseLike<TResult>) | null
-  ): Promise<TResult> {
-    const result = await this.execute();
-    return onfulfilled ? onfulfilled(result) : result as any;
+  then<TResult1 = QueryResult<Result>, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult<Result>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+}
+
+// Envia uma escrita (POST/PATCH/DELETE) e converte erros do servidor em QueryResult
+async function mutate<R>(
+  url: string,
+  init: RequestInit,
+  fallbackMessage = 'Erro ao salvar dados'
+): Promise<QueryResult<R>> {
+  try {
+    const response = await authFetch(url, init);
+    const data = await response.json();
+    if (!response.ok || (data && data.error)) {
+      return { data: null, error: apiError(response, data, fallbackMessage) };
+    }
+    return { data, error: null };
+  } catch (error) {
+    return { data: null, error: error as Error };
+  }
+}
+
+type TransferWithItems = Row<'stock_transfers'> & { items: Row<'stock_transfer_items'>[] };
+
+function transferAction(action: string, body: object) {
+  return mutate<TransferWithItems>(
+    `${API_URL}/transfers/${action}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    },
+    'Erro ao salvar transferência'
+  );
+}
+
+type PurchaseOrderWithItems = Row<'purchase_orders'> & { items: Row<'purchase_order_items'>[] };
+
+function purchaseOrderAction(action: string, body: object) {
+  return mutate<PurchaseOrderWithItems>(
+    `${API_URL}/purchase-orders/${action}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    },
+    'Erro ao salvar pedido de compra'
+  );
+}
+
+function stocktakeAction<T>(action: string, body: object) {
+  return mutate<T>(
+    `${API_URL}/stocktakes/${action}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    },
+    'Erro ao atualizar inventário'
+  );
+}
+
+function approvalAction<T>(action: string, body: object) {
+  return mutate<T>(
+    `${API_URL}/movement-approvals/${action}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    },
+    'Erro ao revisar ajuste'
+  );
+}
+
+// insert() pode ser aguardado diretamente ou encadeado com select().single()
+class InsertBuilder<T extends TableName> implements PromiseLike<QueryResult<Row<T>>> {
+  constructor(private table: T, private values: InsertRow<T> | InsertRow<T>[]) {}
+
+  select(_columns?: string) {
+    return this;
+  }
+
+  single() {
+    return this;
+  }
+
+  then<TResult1 = QueryResult<Row<T>>, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult<Row<T>>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return mutate<Row<T>>(`${API_URL}/${this.table}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.values),
+    }).then(onfulfilled, onrejected);
   }
 }
 
 // Simula a interface do Supabase para compatibilidade
 export const db = {
-  from: (table: string) => ({
-    select: (columns = '*', options?: { count?: string }) => {
+  from: <T extends TableName>(table: T) => ({
+    select: <S extends string = '*'>(
+      columns?: SelectColumns<T, S>,
+      options?: { count?: 'exact'; head?: boolean }
+    ) => {
       const builder = new QueryBuilder(table);
       return builder.select(columns, options);
     },
 
-    insert: (values: any) => {
-      const doInsert = async () => {
-        try {
-          const response = await fetch(`${API_URL}/${table}`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(values),
-          });
-          const data = await response.json();
-          if (data && data.error) {
-            return { data: null, error: new Error(data.error) };
-          }
-          return { data, error: null };
-        } catch (error) {
-          return { data: null, error: error as Error };
-        }
-      };
+    insert: (values: InsertRow<T> | InsertRow<T>[]) => new InsertBuilder(table, values),
 
-      return {
-        select: (_columns?: string) => ({
-          single: async () => {
-            const result = await doInsert();
-            return result;
-          },
-          then: async (resolve: any) => {
-            const result = await doInsert();
-            return resolve ? resolve(result) : result;
-          },
+    update: (values: UpdateRow<T>) => ({
+      eq: <K extends ColumnName<T>>(column: K, value: Row<T>[K]) =>
+        mutate<Row<T>[]>(eqFilterUrl(table, String(column), value), {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(values),
         }),
-        single: async () => {
-          const result = await doInsert();
-          return result;
-        },
-        then: async (resolve: any) => {
-          const result = await doInsert();
-          return resolve ? resolve(result) : result;
-        },
-      };
-    },
-
-    update: (values: any) => ({
-      eq: async (column: string, value: any) => {
-        try {
-          const response = await fetch(`${API_URL}/${table}?${column}=eq.${value}`, {
-            method: 'PATCH',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(values),
-          });
-          const data = await response.json();
-          return { data, error: null };
-        } catch (error) {
-          return { data: null, error: error as Error };
-        }
-      },
     }),
 
     delete: () => ({
-      eq: async (column: string, value: any) => {
-        try {
-          const response = await fetch(`${API_URL}/${table}?${column}=eq.${value}`, {
-            method: 'DELETE',
-          });
-          const data = await response.json();
-          return { data, error: null };
-        } catch (error) {
-          return { data: null, error: error as Error };
-        }
-      },
+      eq: <K extends ColumnName<T>>(column: K, value: Row<T>[K]) =>
+        mutate<Row<T>[]>(eqFilterUrl(table, String(column), value), {
+          method: 'DELETE',
+        }),
     }),
   }),
 
+  // Movimentações são registradas pelo servidor, que calcula o estoque
+  // anterior/novo com a linha do produto travada
+  // Ajustes acima dos limites de aprovação voltam como solicitação pendente
+  movements: {
+    create: (movement: MovementInput) =>
+      mutate<Row<'stock_movements'> | Row<'movement_approvals'>>(
+        `${API_URL}/movements`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(movement),
+        },
+        'Erro ao registrar movimentação'
+      ),
+    // Contramovimentação ligada à original; cada movimentação só pode ser estornada uma vez
+    reverse: (id: string, reason?: string | null) =>
+      mutate<Row<'stock_movements'>>(
+        `${API_URL}/movements/reverse`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ id, reason }),
+        },
+        'Erro ao estornar movimentação'
+      ),
+  },
+
+  // Transferências entre locais: o servidor gera as movimentações de saída
+  // (envio) e entrada (recebimento) na mesma transação que muda o status
+  transfers: {
+    save: (transfer: TransferInput) => transferAction('save', transfer),
+    dispatch: (id: string) => transferAction('dispatch', { id }),
+    receive: (receipt: TransferReceiptInput) => transferAction('receive', receipt),
+    discard: (id: string) => transferAction('discard', { id }),
+  },
+
+  // Pedidos de compra: o recebimento gera as entradas e atualiza o custo dos
+  // produtos na mesma transação que muda o status
+  purchaseOrders: {
+    save: (order: PurchaseOrderInput) => purchaseOrderAction('save', order),
+    send: (id: string) => purchaseOrderAction('send', { id }),
+    receive: (receipt: PurchaseReceiptInput) => purchaseOrderAction('receive', receipt),
+    cancel: (id: string) => purchaseOrderAction('cancel', { id }),
+  },
+
+  // Inventário: contagem cega por local; só a aprovação movimenta o estoque
+  stocktakes: {
+    start: (stocktake: StocktakeInput) =>
+      stocktakeAction<Row<'stocktakes'> & { items: Row<'stocktake_items'>[] }>('start', stocktake),
+    count: (count: StocktakeCountInput) => stocktakeAction<Row<'stocktake_items'>>('count', count),
+    approve: (id: string, options: { zero_uncounted?: boolean } = {}) =>
+      stocktakeAction<Row<'stocktakes'> & { movements: Row<'stock_movements'>[] }>('approve', {
+        id,
+        ...options,
+      }),
+    cancel: (id: string) => stocktakeAction<Row<'stocktakes'>>('cancel', { id }),
+  },
+
+  // Aprovação de ajustes pendentes: só a aprovação movimenta o estoque
+  approvals: {
+    approve: (id: string, comment?: string | null) =>
+      approvalAction<Row<'movement_approvals'> & { movement: Row<'stock_movements'> }>('approve', {
+        id,
+        comment,
+      }),
+    reject: (id: string, comment: string) =>
+      approvalAction<Row<'movement_approvals'>>('reject', { id, comment }),
+  },
+
+  // Caixa: a venda e as saídas de cada item são gravadas na mesma transação
+  sales: {
+    checkout: (sale: SaleInput) =>
+      mutate<Row<'sales'> & { items: Row<'sale_items'>[] }>(
+        `${API_URL}/sales/checkout`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(sale),
+        },
+        'Erro ao finalizar venda'
+      ),
+  },
+
+  // Reposição: consumo médio, prazo do fornecedor e estoque de segurança
+  // calculados no servidor a partir das saídas recentes
+  replenishment: {
+    suggestions: (options: Partial<ReorderSuggestionsResult['options']> = {}) => {
+      const params = new URLSearchParams(
+        Object.entries(options).map(([key, value]) => [key, String(value)])
+      );
+      return mutate<ReorderSuggestionsResult>(
+        `${API_URL}/reorder-suggestions?${params}`,
+        { method: 'GET' },
+        'Erro ao calcular sugestões de reposição'
+      );
+    },
+  },
+
+  // Relatórios agregados no servidor
+  reports: {
+    losses: (filters: LossReportFilters = {}) => {
+      const params = new URLSearchParams(
+        Object.entries(filters).filter(([, value]) => value) as [string, string][]
+      );
+      return mutate<LossReport>(
+        `${API_URL}/reports/losses?${params}`,
+        { method: 'GET' },
+        'Erro ao carregar relatório de perdas'
+      );
+    },
+  },
+
   auth: {
     signInWithPassword: async (credentials: { username: string; password: string }) => {
       try {
@@ -216,15 +731,13 @@ export const db = {
           body: JSON.stringify(credentials),
         });
 
+        const data = await response.json();
         if (!response.ok) {
-          throw new Error('Credenciais inválidas');
+          throw new Error(data?.error || 'Credenciais inválidas');
         }
 
-        const data = await response.json();
-
         // Salvar sessão no localStorage
-        localStorage.setItem('session', JSON.stringify(data.session));
-        localStorage.setItem('user', JSON.stringify(data.user));
+        storeSession(data.session, data.user);
 
         return { data: { session: data.session, user: data.user }, error: null };
       } catch (error) {
@@ -233,26 +746,38 @@ export const db = {
     },
 
     signOut: async () => {
-      localStorage.removeItem('session');
-      localStorage.removeItem('user');
-      return { error: null };
+      try {
+        if (readSession()) {
+          await authFetch(`${API_URL}/auth/logout`, { method: 'POST' });
+        }
+        return { error: null };
+      } catch (error) {
+        return { error: error as Error };
+      } finally {
+        clearSession();
+      }
     },
 
+    // Valida a sessão no servidor; sessões expiradas ou revogadas são descartadas
     getSession: async () => {
-      const session = localStorage.getItem('session');
-      const user = localStorage.getItem('user');
-
-      if (session && user) {
-        return {
-          data: {
-            session: JSON.parse(session),
-            user: JSON.parse(user),
-          },
-          error: null,
-        };
+      const session = readSession();
+      if (!session) {
+        return { data: { session: null }, error: null };
       }
 
-      return { data: { session: null }, error: null };
+      try {
+        const response = await authFetch(`${API_URL}/auth/session`);
+        if (!response.ok) {
+          clearSession();
+          return { data: { session: null }, error: null };
+        }
+
+        const { user } = await response.json();
+        localStorage.setItem('user', JSON.stringify(user));
+        return { data: { session: { ...readSession(), user }, user }, error: null };
+      } catch (error) {
+        return { data: { session: null }, error: error as Error };
+      }
     },
 
     getUser: async () => {
@@ -0,0 +1,115 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Janela usada para produtos sem categoria
+export const DEFAULT_WARNING_DAYS = 30;
+
+export type ExpirationGroup = "vencido" | "7" | "15" | "30" | "janela";
+
+export const expirationGroups: { key: ExpirationGroup; label: string }[] = [
+  { key: "vencido", label: "Vencidos" },
+  { key: "7", label: "Até 7 dias" },
+  { key: "15", label: "8 a 15 dias" },
+  { key: "30", label: "16 a 30 dias" },
+  { key: "janela", label: "Mais de 30 dias" },
+];
+
+export interface ExpiringLot {
+  id: string;
+  product_id: string;
+  location_id: string;
+  lot_number: string | null;
+  expiration_date: string;
+  quantity: number;
+  products: {
+    name: string;
+    cost_price: number;
+    sale_price: number;
+    category_id: string | null;
+    status: string;
+  };
+  daysLeft: number;
+  warningDays: number;
+  group: ExpirationGroup;
+  valueAtRisk: number;
+}
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+    date.getDate()
+  ).padStart(2, "0")}`;
+
+// Dias corridos até a validade (negativo quando já venceu)
+export function daysUntil(expirationDate: string, today = new Date()) {
+  const start = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  const [year, month, day] = expirationDate.split("-").map(Number);
+  return Math.round((Date.UTC(year, month - 1, day) - start) / 86_400_000);
+}
+
+export function expirationGroup(daysLeft: number): ExpirationGroup {
+  if (daysLeft < 0) return "vencido";
+  if (daysLeft <= 7) return "7";
+  if (daysLeft <= 15) return "15";
+  if (daysLeft <= 30) return "30";
+  return "janela";
+}
+
+// Desconto sugerido para remarcação, maior quanto mais perto do vencimento
+export function suggestedMarkdown(daysLeft: number) {
+  if (daysLeft <= 7) return 50;
+  if (daysLeft <= 15) return 30;
+  if (daysLeft <= 30) return 15;
+  return 10;
+}
+
+/**
+ * Lotes com saldo de produtos ativos que vencem dentro da janela de alerta
+ * da categoria (ou já venceram), do que vence primeiro ao último.
+ */
+export async function fetchExpiringLots(): Promise<ExpiringLot[]> {
+  const { data: categories, error: categoriesError } = await supabase
+    .from("categories")
+    .select("id, expiration_warning_days");
+
+  if (categoriesError) throw categoriesError;
+
+  const windows = new Map(
+    (categories || []).map((category) => [category.id, category.expiration_warning_days])
+  );
+  const maxWindow = Math.max(DEFAULT_WARNING_DAYS, ...windows.values());
+
+  const limit = new Date();
+  limit.setDate(limit.getDate() + maxWindow);
+
+  const { data, error } = await supabase
+    .from("lots")
+    .select(
+      "id, product_id, location_id, lot_number, expiration_date, quantity, products (name, cost_price, sale_price, category_id, status)"
+    )
+    .gt("quantity", 0)
+    .not("expiration_date", "is", null)
+    .lte("expiration_date", toDateString(limit))
+    .order("expiration_date");
+
+  if (error) throw error;
+
+  const today = new Date();
+  return (data || []).flatMap((lot) => {
+    if (!lot.expiration_date || lot.products?.status !== "ativo") return [];
+
+    const warningDays =
+      (lot.products.category_id && windows.get(lot.products.category_id)) || DEFAULT_WARNING_DAYS;
+    const daysLeft = daysUntil(lot.expiration_date, today);
+    if (daysLeft > warningDays) return [];
+
+    return [
+      {
+        ...lot,
+        expiration_date: lot.expiration_date,
+        daysLeft,
+        warningDays,
+        group: expirationGroup(daysLeft),
+        valueAtRisk: lot.quantity * Number(lot.products.cost_price),
+      },
+    ];
+  });
+}
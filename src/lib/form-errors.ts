@@ -0,0 +1,23 @@
+import type { FieldValues, Path, UseFormReturn } from "react-hook-form";
+import { ApiError } from "@/lib/db";
+
+/**
+ * Exibe nos campos do formulário (FormMessage) os erros de validação
+ * devolvidos pela API. Retorna true se algum campo recebeu erro.
+ */
+export function applyFieldErrors<T extends FieldValues>(
+  form: UseFormReturn<T>,
+  error: unknown
+): boolean {
+  if (!(error instanceof ApiError)) return false;
+
+  const fields = Object.keys(form.getValues());
+  let applied = false;
+  for (const { field, message } of error.fieldErrors) {
+    // Campos aninhados chegam como "items.0.quantity"
+    if (!fields.includes(field.split(".")[0])) continue;
+    form.setError(field as Path<T>, { type: "server", message });
+    applied = true;
+  }
+  return applied;
+}
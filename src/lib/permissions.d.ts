@@ -0,0 +1,25 @@
+import type { UserRole } from "@/hooks/use-user-role";
+
+export type TableOperation = "select" | "insert" | "update" | "delete";
+export type PermissionAction =
+  | "movements.create"
+  | "movements.approve"
+  | "transfers.manage"
+  | "purchases.manage"
+  | "stocktakes.count"
+  | "stocktakes.approve"
+  | "sales.create"
+  | "reports.view"
+  | "users.manage";
+
+interface RolePermissions {
+  tables: Partial<Record<string, TableOperation[]>>;
+  actions: PermissionAction[];
+}
+
+export declare const permissions: Record<Exclude<UserRole, null>, RolePermissions>;
+export declare const routePermissions: Record<string, { action: PermissionAction }>;
+
+export declare function can(role: UserRole, table: string, operation: TableOperation): boolean;
+export declare function canPerform(role: UserRole, action: PermissionAction): boolean;
+export declare function canAccessRoute(role: UserRole, path: string): boolean;
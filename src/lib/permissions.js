@@ -0,0 +1,99 @@
+/**
+ * Mapa de permissões por papel (user_role).
+ * Compartilhado entre o servidor (server/authorization.js) e o cliente
+ * (useUserRole, AppSidebar), para que ambos leiam da mesma fonte.
+ */
+
+const ALL = ['select', 'insert', 'update', 'delete'];
+
+export const permissions = {
+  admin: {
+    tables: {
+      profiles: ['select', 'update'],
+      categories: ALL,
+      suppliers: ALL,
+      products: ALL,
+      warehouses: ALL,
+      locations: ALL,
+      stock_balances: ['select'],
+      lots: ['select'],
+      stock_movement_lots: ['select'],
+      stock_movements: ['select'],
+      movement_reasons: ALL,
+      movement_approvals: ['select'],
+      approval_settings: ['select', 'update'],
+      stock_transfers: ['select'],
+      stock_transfer_items: ['select'],
+      purchase_orders: ['select'],
+      purchase_order_items: ['select'],
+      stocktakes: ['select'],
+      stocktake_items: ['select'],
+      sales: ['select'],
+      sale_items: ['select'],
+      audit_logs: ['select'],
+    },
+    actions: [
+      'movements.create',
+      'movements.approve',
+      'transfers.manage',
+      'purchases.manage',
+      'stocktakes.count',
+      'stocktakes.approve',
+      'sales.create',
+      'reports.view',
+      'users.manage',
+    ],
+  },
+  gestor: {
+    tables: {
+      // Só id e nome (ver roleColumns em server/registry.js)
+      profiles: ['select'],
+      categories: ['select', 'insert', 'update'],
+      suppliers: ALL,
+      products: ALL,
+      warehouses: ['select'],
+      locations: ['select', 'insert', 'update'],
+      stock_balances: ['select'],
+      lots: ['select'],
+      stock_movement_lots: ['select'],
+      stock_movements: ['select'],
+      movement_reasons: ['select'],
+      movement_approvals: ['select'],
+      approval_settings: ['select'],
+      stock_transfers: ['select'],
+      stock_transfer_items: ['select'],
+      purchase_orders: ['select'],
+      purchase_order_items: ['select'],
+      stocktakes: ['select'],
+      stocktake_items: ['select'],
+      sales: ['select'],
+      sale_items: ['select'],
+    },
+    actions: ['movements.create', 'transfers.manage', 'purchases.manage', 'stocktakes.count', 'sales.create'],
+  },
+};
+
+// Rotas do cliente e a permissão necessária para acessá-las
+export const routePermissions = {
+  '/reorder': { action: 'purchases.manage' },
+  '/stocktakes': { action: 'stocktakes.count' },
+  '/checkout': { action: 'sales.create' },
+  '/reports': { action: 'reports.view' },
+  '/users': { action: 'users.manage' },
+};
+
+export function can(role, table, operation) {
+  const tables = permissions[role]?.tables || {};
+  return (tables[table] || []).includes(operation);
+}
+
+export function canPerform(role, action) {
+  return (permissions[role]?.actions || []).includes(action);
+}
+
+// Rotas sem regra própria ficam disponíveis para qualquer papel conhecido
+export function canAccessRoute(role, path) {
+  if (!permissions[role]) return false;
+  const rule = routePermissions[path];
+  return !rule || canPerform(role, rule.action);
+}
@@ -0,0 +1,596 @@
+/**
+ * Schemas zod das tabelas editáveis.
+ * Compartilhados entre os formulários (via src/lib/validations.ts) e o
+ * servidor (server/validation.js), que valida os corpos de POST/PATCH.
+ */
+import { z } from "zod";
+import { isGtin, isValidGtin } from "./barcodes.js";
+
+// ==================== PRODUTOS ====================
+
+export const productSchema = z.object({
+  name: z
+    .string()
+    .min(2, "Nome deve ter pelo menos 2 caracteres")
+    .max(100, "Nome deve ter no máximo 100 caracteres"),
+
+  description: z
+    .string()
+    .max(500, "Descrição deve ter no máximo 500 caracteres")
+    .optional()
+    .nullable(),
+
+  // Códigos numéricos de 8, 12, 13 ou 14 dígitos são EAN/UPC e precisam do
+  // dígito verificador correto; os demais (ex: Code 128) são livres
+  barcode: z
+    .string()
+    .max(50, "Código de barras inválido")
+    .refine((code) => !isGtin(code) || isValidGtin(code), {
+      message: "Dígito verificador inválido: confira o código EAN/UPC",
+    })
+    .optional()
+    .nullable(),
+
+  supplier_code: z
+    .string()
+    .max(50, "Código do fornecedor deve ter no máximo 50 caracteres")
+    .optional()
+    .nullable(),
+
+  category_id: z
+    .string()
+    .uuid("Categoria inválida")
+    .optional()
+    .nullable(),
+
+  supplier_id: z
+    .string()
+    .uuid("Fornecedor inválido")
+    .optional()
+    .nullable(),
+
+  cost_price: z
+    .number()
+    .min(0, "Preço de custo deve ser positivo")
+    .default(0),
+
+  sale_price: z
+    .number()
+    .min(0, "Preço de venda deve ser positivo")
+    .default(0),
+
+  minimum_stock: z
+    .number()
+    .int("Estoque mínimo deve ser um número inteiro")
+    .min(0, "Estoque mínimo não pode ser negativo")
+    .default(0),
+
+  status: z
+    .enum(["ativo", "inativo"])
+    .default("ativo"),
+
+  image_url: z
+    .string()
+    .url("URL de imagem inválida")
+    .optional()
+    .nullable(),
+});
+
+// ==================== FORNECEDORES ====================
+
+export const supplierSchema = z.object({
+  name: z
+    .string()
+    .min(2, "Nome deve ter pelo menos 2 caracteres")
+    .max(100, "Nome deve ter no máximo 100 caracteres"),
+
+  contact_name: z
+    .string()
+    .max(100, "Nome do contato deve ter no máximo 100 caracteres")
+    .optional()
+    .nullable(),
+
+  email: z
+    .string()
+    .email("Email inválido")
+    .optional()
+    .nullable()
+    .or(z.literal("")),
+
+  phone: z
+    .string()
+    .max(20, "Telefone deve ter no máximo 20 caracteres")
+    .optional()
+    .nullable(),
+
+  address: z
+    .string()
+    .max(200, "Endereço deve ter no máximo 200 caracteres")
+    .optional()
+    .nullable(),
+
+  // Dias entre o pedido e a chegada da mercadoria
+  lead_time_days: z
+    .number({ invalid_type_error: "Informe o prazo em dias" })
+    .int("Deve ser um número inteiro")
+    .min(0, "Prazo não pode ser negativo")
+    .max(365, "Máximo de 365 dias")
+    .optional(),
+});
+
+// ==================== CATEGORIAS ====================
+
+export const categorySchema = z.object({
+  name: z
+    .string()
+    .min(2, "Nome deve ter pelo menos 2 caracteres")
+    .max(50, "Nome deve ter no máximo 50 caracteres"),
+
+  description: z
+    .string()
+    .max(200, "Descrição deve ter no máximo 200 caracteres")
+    .optional()
+    .nullable(),
+
+  // Dias antes do vencimento em que os lotes passam a ser alertados
+  expiration_warning_days: z
+    .number({ invalid_type_error: "Informe o número de dias" })
+    .int("Deve ser um número inteiro")
+    .min(1, "Mínimo de 1 dia")
+    .max(365, "Máximo de 365 dias")
+    .optional(),
+});
+
+// ==================== DEPÓSITOS E LOCAIS ====================
+
+export const warehouseSchema = z.object({
+  name: z
+    .string()
+    .min(2, "Nome deve ter pelo menos 2 caracteres")
+    .max(100, "Nome deve ter no máximo 100 caracteres"),
+
+  address: z
+    .string()
+    .max(200, "Endereço deve ter no máximo 200 caracteres")
+    .optional()
+    .nullable(),
+});
+
+export const locationSchema = z.object({
+  warehouse_id: z
+    .string()
+    .uuid("Depósito inválido"),
+
+  name: z
+    .string()
+    .min(1, "Nome é obrigatório")
+    .max(100, "Nome deve ter no máximo 100 caracteres"),
+
+  description: z
+    .string()
+    .max(200, "Descrição deve ter no máximo 200 caracteres")
+    .optional()
+    .nullable(),
+});
+
+// ==================== MOVIMENTAÇÕES ====================
+
+// Tipos de movimentação em que o motivo do catálogo é obrigatório
+export const reasonRequiredTypes = ["saida", "ajuste"];
+
+export const movementSchema = z.object({
+  product_id: z
+    .string()
+    .uuid("Produto inválido"),
+
+  location_id: z
+    .string({ required_error: "Selecione um local" })
+    .uuid("Local inválido"),
+
+  type: z.enum(["entrada", "saida", "ajuste", "inventario"], {
+    errorMap: () => ({ message: "Tipo de movimentação inválido" }),
+  }),
+
+  // Em ajuste e inventário é o novo saldo do local, que pode ser zero
+  quantity: z
+    .number()
+    .int("Quantidade deve ser um número inteiro")
+    .min(0, "Quantidade não pode ser negativa"),
+
+  // Motivo do catálogo (movement_reasons) do mesmo tipo da movimentação
+  reason_id: z
+    .string()
+    .uuid("Selecione o motivo")
+    .optional()
+    .nullable()
+    .or(z.literal("")),
+
+  reason: z
+    .string()
+    .max(500, "Justificativa deve ter no máximo 500 caracteres")
+    .optional()
+    .nullable(),
+
+  // Lote de entrada (aumentos de estoque)
+  lot_number: z
+    .string()
+    .max(50, "Número de lote deve ter no máximo 50 caracteres")
+    .optional()
+    .nullable(),
+
+  expiration_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Data de validade inválida")
+    .optional()
+    .nullable()
+    .or(z.literal("")),
+
+  // Escolha manual dos lotes de saída; sem ela, o servidor aplica FEFO
+  lots: z
+    .array(
+      z.object({
+        lot_id: z.string().uuid("Lote inválido"),
+        quantity: z
+          .number()
+          .int("Quantidade deve ser um número inteiro")
+          .min(1, "Quantidade deve ser maior que zero"),
+      })
+    )
+    .refine((lots) => new Set(lots.map((lot) => lot.lot_id)).size === lots.length, {
+      message: "Cada lote só pode ser escolhido uma vez",
+    })
+    .optional()
+    .nullable(),
+}).refine(
+  (data) => !reasonRequiredTypes.includes(data.type) || !!data.reason_id,
+  { message: "Selecione o motivo", path: ["reason_id"] }
+).refine(
+  (data) => (data.type !== "entrada" && data.type !== "saida") || data.quantity >= 1,
+  { message: "Quantidade deve ser maior que zero", path: ["quantity"] }
+);
+
+// Estorno de uma movimentação; a observação é opcional
+export const movementReversalSchema = z.object({
+  id: z.string({ required_error: "Movimentação é obrigatória" }).uuid("Movimentação inválida"),
+
+  reason: z
+    .string()
+    .max(500, "Justificativa deve ter no máximo 500 caracteres")
+    .optional()
+    .nullable(),
+});
+
+// Limites acima dos quais ajustes e inventários aguardam aprovação; nulo desliga o critério
+export const approvalSettingsSchema = z.object({
+  quantity_threshold: z
+    .number()
+    .int("Quantidade deve ser um número inteiro")
+    .min(1, "Quantidade deve ser maior que zero")
+    .nullable()
+    .optional(),
+
+  value_threshold: z
+    .number()
+    .min(0.01, "Valor deve ser maior que zero")
+    .nullable()
+    .optional(),
+});
+
+// Decisão sobre um ajuste pendente; rejeições exigem o comentário
+export const approvalReviewSchema = z.object({
+  comment: z
+    .string()
+    .max(500, "Comentário deve ter no máximo 500 caracteres")
+    .optional()
+    .nullable(),
+});
+
+export const approvalRejectionSchema = z.object({
+  comment: z
+    .string({ required_error: "Informe o motivo da rejeição" })
+    .trim()
+    .min(3, "Informe o motivo da rejeição")
+    .max(500, "Comentário deve ter no máximo 500 caracteres"),
+});
+
+// Item do catálogo de motivos de movimentação
+export const movementReasonSchema = z.object({
+  movement_type: z.enum(["entrada", "saida", "ajuste", "inventario"], {
+    errorMap: () => ({ message: "Tipo de movimentação inválido" }),
+  }),
+
+  code: z
+    .string()
+    .min(2, "Código deve ter pelo menos 2 caracteres")
+    .max(30, "Código deve ter no máximo 30 caracteres")
+    .regex(/^[a-z0-9_]+$/, "Use apenas letras minúsculas, números e _"),
+
+  name: z
+    .string()
+    .min(2, "Nome deve ter pelo menos 2 caracteres")
+    .max(100, "Nome deve ter no máximo 100 caracteres"),
+
+  // Entra no relatório de perdas
+  is_loss: z.boolean().optional(),
+
+  // Motivos inativos deixam de ser oferecidos, mas continuam no histórico
+  active: z.boolean().optional(),
+});
+
+// ==================== TRANSFERÊNCIAS ====================
+
+export const transferSchema = z
+  .object({
+    origin_location_id: z
+      .string({ required_error: "Selecione a origem" })
+      .uuid("Origem inválida"),
+
+    destination_location_id: z
+      .string({ required_error: "Selecione o destino" })
+      .uuid("Destino inválido"),
+
+    notes: z
+      .string()
+      .max(500, "Observações devem ter no máximo 500 caracteres")
+      .optional()
+      .nullable(),
+
+    items: z
+      .array(
+        z.object({
+          product_id: z.string().uuid("Selecione o produto"),
+          quantity: z
+            .number()
+            .int("Quantidade deve ser um número inteiro")
+            .min(1, "Quantidade deve ser maior que zero"),
+        })
+      )
+      .min(1, "Adicione pelo menos um produto"),
+  })
+  .refine((data) => data.origin_location_id !== data.destination_location_id, {
+    message: "Destino deve ser diferente da origem",
+    path: ["destination_location_id"],
+  })
+  .refine(
+    (data) => new Set(data.items.map((item) => item.product_id)).size === data.items.length,
+    { message: "Cada produto deve aparecer uma única vez", path: ["items"] }
+  );
+
+// Recebimento (total ou parcial) de uma transferência em trânsito
+export const transferReceiptSchema = z.object({
+  items: z.array(
+    z.object({
+      item_id: z.string().uuid("Item inválido"),
+      quantity: z
+        .number()
+        .int("Quantidade deve ser um número inteiro")
+        .min(0, "Quantidade não pode ser negativa"),
+    })
+  ),
+
+  // Encerra a transferência mesmo que falte receber alguma quantidade
+  close: z.boolean().default(false),
+});
+
+// ==================== PEDIDOS DE COMPRA ====================
+
+export const purchaseOrderSchema = z
+  .object({
+    supplier_id: z
+      .string({ required_error: "Selecione o fornecedor" })
+      .uuid("Selecione o fornecedor"),
+
+    expected_date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Data de entrega inválida")
+      .optional()
+      .nullable()
+      .or(z.literal("")),
+
+    notes: z
+      .string()
+      .max(500, "Observações devem ter no máximo 500 caracteres")
+      .optional()
+      .nullable(),
+
+    items: z
+      .array(
+        z.object({
+          product_id: z.string().uuid("Selecione o produto"),
+          quantity: z
+            .number()
+            .int("Quantidade deve ser um número inteiro")
+            .min(1, "Quantidade deve ser maior que zero"),
+          unit_cost: z
+            .number({ invalid_type_error: "Custo deve ser um número" })
+            .min(0, "Custo não pode ser negativo")
+            .max(999999.99, "Custo muito alto"),
+        })
+      )
+      .min(1, "Adicione pelo menos um produto"),
+  })
+  .refine(
+    (data) => new Set(data.items.map((item) => item.product_id)).size === data.items.length,
+    { message: "Cada produto deve aparecer uma única vez", path: ["items"] }
+  );
+
+// Recebimento (total ou parcial) de um pedido enviado, no local escolhido
+export const purchaseReceiptSchema = z.object({
+  location_id: z
+    .string({ required_error: "Selecione o local de recebimento" })
+    .uuid("Selecione o local de recebimento"),
+
+  items: z.array(
+    z.object({
+      item_id: z.string().uuid("Item inválido"),
+      quantity: z
+        .number()
+        .int("Quantidade deve ser um número inteiro")
+        .min(0, "Quantidade não pode ser negativa"),
+      // Custo efetivo da nota; sem ele, vale o custo do pedido
+      unit_cost: z
+        .number({ invalid_type_error: "Custo deve ser um número" })
+        .min(0, "Custo não pode ser negativo")
+        .max(999999.99, "Custo muito alto")
+        .optional(),
+      lot_number: z
+        .string()
+        .max(50, "Número de lote deve ter no máximo 50 caracteres")
+        .optional()
+        .nullable(),
+      expiration_date: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/, "Data de validade inválida")
+        .optional()
+        .nullable()
+        .or(z.literal("")),
+    })
+  ),
+
+  // Encerra o pedido mesmo que falte receber alguma quantidade
+  close: z.boolean().default(false),
+});
+
+// Parâmetros das sugestões de reposição (chegam como query string)
+export const replenishmentOptionsSchema = z.object({
+  // Janela do histórico de saídas usada no consumo médio diário
+  history_days: z.coerce
+    .number()
+    .int("Deve ser um número inteiro")
+    .min(7, "Use pelo menos 7 dias de histórico")
+    .max(365, "Máximo de 365 dias")
+    .default(30),
+
+  // Estoque de segurança, em dias de consumo
+  safety_days: z.coerce
+    .number()
+    .int("Deve ser um número inteiro")
+    .min(0, "Não pode ser negativo")
+    .max(180, "Máximo de 180 dias")
+    .default(7),
+
+  // Quantos dias de consumo cada pedido deve cobrir após a chegada
+  coverage_days: z.coerce
+    .number()
+    .int("Deve ser um número inteiro")
+    .min(1, "Mínimo de 1 dia")
+    .max(365, "Máximo de 365 dias")
+    .default(30),
+});
+
+// Abertura de uma sessão de inventário; sem categoria, conta o local inteiro
+export const stocktakeSchema = z.object({
+  location_id: z
+    .string({ required_error: "Selecione o local" })
+    .uuid("Selecione o local"),
+
+  category_id: z
+    .string()
+    .uuid("Categoria inválida")
+    .optional()
+    .nullable()
+    .or(z.literal("")),
+
+  notes: z
+    .string()
+    .max(500, "Observações devem ter no máximo 500 caracteres")
+    .optional()
+    .nullable(),
+});
+
+// Uma leitura da contagem: "add" soma à contagem do produto, "set" a substitui
+export const stocktakeCountSchema = z.object({
+  product_id: z.string({ required_error: "Produto é obrigatório" }).uuid("Produto inválido"),
+
+  quantity: z
+    .number({ required_error: "Quantidade é obrigatória" })
+    .int("Quantidade deve ser um número inteiro")
+    .min(0, "Quantidade não pode ser negativa")
+    .max(999999, "Quantidade muito alta"),
+
+  mode: z.enum(["add", "set"]).default("add"),
+});
+
+// Aprovação: produtos do escopo não contados são ignorados, ou zerados com zero_uncounted
+export const stocktakeApprovalSchema = z.object({
+  zero_uncounted: z.boolean().default(false),
+});
+
+// ==================== VENDAS ====================
+
+// Fechamento do caixa. O preço vem do cadastro do produto (sale_price) no
+// servidor; o valor entregue só faz sentido em dinheiro, para calcular o troco.
+export const saleSchema = z
+  .object({
+    location_id: z
+      .string({ required_error: "Selecione o local do caixa" })
+      .uuid("Selecione o local do caixa"),
+
+    payment_method: z.enum(["dinheiro", "cartao_debito", "cartao_credito", "pix"], {
+      errorMap: () => ({ message: "Selecione a forma de pagamento" }),
+    }),
+
+    amount_paid: z
+      .number({ invalid_type_error: "Valor recebido deve ser um número" })
+      .min(0, "Valor recebido não pode ser negativo")
+      .max(9999999.99, "Valor recebido muito alto")
+      .optional()
+      .nullable(),
+
+    notes: z
+      .string()
+      .max(500, "Observações devem ter no máximo 500 caracteres")
+      .optional()
+      .nullable(),
+
+    items: z
+      .array(
+        z.object({
+          product_id: z.string().uuid("Produto inválido"),
+          quantity: z
+            .number()
+            .int("Quantidade deve ser um número inteiro")
+            .min(1, "Quantidade deve ser maior que zero"),
+        })
+      )
+      .min(1, "Adicione pelo menos um produto"),
+  })
+  .refine(
+    (data) => new Set(data.items.map((item) => item.product_id)).size === data.items.length,
+    { message: "Cada produto deve aparecer uma única vez", path: ["items"] }
+  );
+
+// Filtros do relatório de perdas (chegam como query string); sem datas, últimos 30 dias
+export const lossReportFiltersSchema = z
+  .object({
+    date_from: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Data inicial inválida")
+      .optional(),
+
+    date_to: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Data final inválida")
+      .optional(),
+
+    category_id: z
+      .string()
+      .uuid("Categoria inválida")
+      .optional()
+      .or(z.literal("")),
+  })
+  .refine((data) => !data.date_from || !data.date_to || data.date_from <= data.date_to, {
+    message: "A data inicial deve ser anterior à final",
+    path: ["date_to"],
+  });
+
+// Schema aplicado pelo servidor a cada tabela
+export const tableSchemas = {
+  products: productSchema,
+  suppliers: supplierSchema,
+  categories: categorySchema,
+  warehouses: warehouseSchema,
+  locations: locationSchema,
+  movement_reasons: movementReasonSchema,
+  approval_settings: approvalSettingsSchema,
+};
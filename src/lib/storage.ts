@@ -1,3 +1,5 @@
+import { authFetch } from "@/lib/db";
+
 /**
  * Upload de arquivo para o servidor
  * @param file - Arquivo a ser enviado
@@ -12,7 +14,7 @@ export async function uploadFile(
     // Converter arquivo para base64
     const base64 = await fileToBase64(file);
 
-    const response = await fetch('/api/upload', {
+    const response = await authFetch('/api/upload', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
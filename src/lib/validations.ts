@@ -1,87 +1,57 @@
 import { z } from "zod";
+import {
+  approvalRejectionSchema,
+  approvalReviewSchema,
+  approvalSettingsSchema,
+  categorySchema,
+  locationSchema,
+  lossReportFiltersSchema,
+  movementReasonSchema,
+  movementReversalSchema,
+  movementSchema,
+  productSchema,
+  purchaseOrderSchema,
+  purchaseReceiptSchema,
+  reasonRequiredTypes,
+  replenishmentOptionsSchema,
+  saleSchema,
+  stocktakeApprovalSchema,
+  stocktakeCountSchema,
+  stocktakeSchema,
+  supplierSchema,
+  transferReceiptSchema,
+  transferSchema,
+  warehouseSchema,
+} from "./schemas.js";
+
+// Schemas das tabelas vivem em schemas.js para serem usados também pelo servidor
+export {
+  approvalRejectionSchema,
+  approvalReviewSchema,
+  approvalSettingsSchema,
+  categorySchema,
+  locationSchema,
+  lossReportFiltersSchema,
+  movementReasonSchema,
+  movementReversalSchema,
+  movementSchema,
+  productSchema,
+  purchaseOrderSchema,
+  purchaseReceiptSchema,
+  reasonRequiredTypes,
+  replenishmentOptionsSchema,
+  saleSchema,
+  stocktakeApprovalSchema,
+  stocktakeCountSchema,
+  stocktakeSchema,
+  supplierSchema,
+  transferReceiptSchema,
+  transferSchema,
+  warehouseSchema,
+};
 
 // ==================== PRODUTOS ====================
 
-export const productSchema = z.object({
-  name: z
-    .string()
-    .min(2, "Nome deve ter pelo menos 2 caracteres")
-    .max(100, "Nome deve ter no máximo 100 caracteres"),
-
-  description: z
-    .string()
-    .max(500, "Descrição deve ter no máximo 500 caracteres")
-    .optional()
-    .nullable(),
-
-  barcode: z
-    .string()
-    .max(50, "Código de barras inválido")
-    .optional()
-    .nullable(),
-
-  category_id: z
-    .string()
-    .uuid("Categoria inválida")
-    .optional()
-    .nullable(),
-
-  supplier_id: z
-    .string()
-    .uuid("Fornecedor inválido")
-    .optional()
-    .nullable(),
-
-  cost_price: z
-    .number()
-    .min(0, "Preço de custo deve ser positivo")
-    .default(0),
-
-  sale_price: z
-    .number()
-    .min(0, "Preço de venda deve ser positivo")
-    .default(0),
-
-  current_stock: z
-    .number()
-    .int("Estoque deve ser um número inteiro")
-    .min(0, "Estoque não pode ser negativo")
-    .default(0),
-
-  minimum_stock: z
-    .number()
-    .int("Estoque mínimo deve ser um número inteiro")
-    .min(0, "Estoque mínimo não pode ser negativo")
-    .default(0),
-
-  location: z
-    .string()
-    .max(100, "Localização deve ter no máximo 100 caracteres")
-    .optional()
-    .nullable(),
-
-  expiration_date: z
-    .string()
-    .optional()
-    .nullable(),
-
-  batch_number: z
-    .string()
-    .max(50, "Número de lote deve ter no máximo 50 caracteres")
-    .optional()
-    .nullable(),
-
-  status: z
-    .enum(["ativo", "inativo"])
-    .default("ativo"),
-
-  image_url: z
-    .string()
-    .url("URL de imagem inválida")
-    .optional()
-    .nullable(),
-});
-
 export type ProductFormData = z.infer<typeof productSchema>;
 
 // Schema para criação (sem campos auto-gerados)
@@ -92,81 +62,22 @@ export const updateProductSchema = productSchema.partial();
 
 // ==================== FORNECEDORES ====================
 
-export const supplierSchema = z.object({
-  name: z
-    .string()
-    .min(2, "Nome deve ter pelo menos 2 caracteres")
-    .max(100, "Nome deve ter no máximo 100 caracteres"),
-
-  contact_name: z
-    .string()
-    .max(100, "Nome do contato deve ter no máximo 100 caracteres")
-    .optional()
-    .nullable(),
-
-  email: z
-    .string()
-    .email("Email inválido")
-    .optional()
-    .nullable()
-    .or(z.literal("")),
-
-  phone: z
-    .string()
-    .max(20, "Telefone deve ter no máximo 20 caracteres")
-    .optional()
-    .nullable(),
-
-  address: z
-    .string()
-    .max(200, "Endereço deve ter no máximo 200 caracteres")
-    .optional()
-    .nullable(),
-});
-
 export type SupplierFormData = z.infer<typeof supplierSchema>;
 
 // ==================== CATEGORIAS ====================
 
-export const categorySchema = z.object({
-  name: z
-    .string()
-    .min(2, "Nome deve ter pelo menos 2 caracteres")
-    .max(50, "Nome deve ter no máximo 50 caracteres"),
-
-  description: z
-    .string()
-    .max(200, "Descrição deve ter no máximo 200 caracteres")
-    .optional()
-    .nullable(),
-});
-
 export type CategoryFormData = z.infer<typeof categorySchema>;
 
-// ==================== MOVIMENTAÇÕES ====================
-
-export const movementSchema = z.object({
-  product_id: z
-    .string()
-    .uuid("Produto inválido"),
-
-  type: z.enum(["entrada", "saida", "ajuste", "inventario"], {
-    errorMap: () => ({ message: "Tipo de movimentação inválido" }),
-  }),
+// ==================== DEPÓSITOS E LOCAIS ====================
 
-  quantity: z
-    .number()
-    .int("Quantidade deve ser um número inteiro")
-    .min(1, "Quantidade deve ser maior que zero"),
+export type WarehouseFormData = z.infer<typeof warehouseSchema>;
+export type LocationFormData = z.infer<typeof locationSchema>;
 
-  reason: z
-    .string()
-    .max(500, "Justificativa deve ter no máximo 500 caracteres")
-    .optional()
-    .nullable(),
-});
+// ==================== MOVIMENTAÇÕES ====================
 
 export type MovementFormData = z.infer<typeof movementSchema>;
+export type MovementReasonFormData = z.infer<typeof movementReasonSchema>;
+export type ApprovalSettingsFormData = z.infer<typeof approvalSettingsSchema>;
 
 // Schema customizado para validação de saída (não pode ser maior que estoque)
 export const createMovementSchema = movementSchema.refine(
@@ -179,6 +90,30 @@ export const createMovementSchema = movementSchema.refine(
   }
 );
 
+// ==================== TRANSFERÊNCIAS ====================
+
+export type TransferFormData = z.infer<typeof transferSchema>;
+export type TransferReceiptFormData = z.infer<typeof transferReceiptSchema>;
+
+// ==================== PEDIDOS DE COMPRA ====================
+
+export type PurchaseOrderFormData = z.infer<typeof purchaseOrderSchema>;
+export type PurchaseReceiptFormData = z.infer<typeof purchaseReceiptSchema>;
+export type ReplenishmentOptions = z.infer<typeof replenishmentOptionsSchema>;
+
+// ==================== INVENTÁRIO ====================
+
+export type StocktakeFormData = z.infer<typeof stocktakeSchema>;
+export type StocktakeCountData = z.infer<typeof stocktakeCountSchema>;
+
+// ==================== VENDAS ====================
+
+export type SaleFormData = z.infer<typeof saleSchema>;
+
+// ==================== RELATÓRIOS ====================
+
+export type LossReportFilters = z.infer<typeof lossReportFiltersSchema>;
+
 // ==================== AUTENTICAÇÃO ====================
 
 export const loginSchema = z.object({
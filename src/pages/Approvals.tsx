@@ -0,0 +1,481 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { PaginationControls } from "@/components/shared/PaginationControls";
+import { supabase } from "@/integrations/supabase/client";
+import type { ApprovalStatus, MovementType } from "@/lib/db";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import { useUserRole } from "@/hooks/use-user-role";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Check, Loader2, Save, X } from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+interface Approval {
+  id: string;
+  product_id: string;
+  location_id: string;
+  type: MovementType;
+  quantity: number;
+  previous_stock: number;
+  unit_cost: number | null;
+  reason: string | null;
+  status: ApprovalStatus;
+  created_at: string;
+  reviewed_at: string | null;
+  review_comment: string | null;
+  products: { name: string };
+  profiles: { full_name: string } | null;
+  movement_reasons: { name: string } | null;
+}
+
+interface Settings {
+  id: string;
+  quantity_threshold: number | null;
+  value_threshold: number | null;
+}
+
+const statusConfig: Record<ApprovalStatus, { label: string; variant: "warning" | "success" | "destructive" }> = {
+  pendente: { label: "Pendente", variant: "warning" },
+  aprovado: { label: "Aprovado", variant: "success" },
+  rejeitado: { label: "Rejeitado", variant: "destructive" },
+};
+
+const formatCurrency = (value: number) =>
+  `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatSigned = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+export default function Approvals() {
+  const navigate = useNavigate();
+  const { can, canPerform } = useUserRole();
+  const { locations } = useLocations();
+  const [approvals, setApprovals] = useState<Approval[]>([]);
+  // Saldo atual de cada produto/local pendente: a aprovação aplica o estoque pedido sobre ele
+  const [balances, setBalances] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [page, setPage] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [filterStatus, setFilterStatus] = useState<ApprovalStatus | "all">("pendente");
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [thresholds, setThresholds] = useState({ quantity: "", value: "" });
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [review, setReview] = useState<{ approval: Approval; decision: "approve" | "reject" } | null>(null);
+  const [comment, setComment] = useState("");
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  const canApprove = canPerform("movements.approve");
+  const canEditSettings = can("approval_settings", "update");
+
+  useEffect(() => {
+    checkAuth();
+    loadSettings();
+  }, []);
+
+  useEffect(() => {
+    loadApprovals();
+  }, [page, filterStatus]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("approval_settings")
+        .select("id, quantity_threshold, value_threshold")
+        .limit(1);
+
+      if (error) throw error;
+      const current = data?.[0] || null;
+      setSettings(current);
+      setThresholds({
+        quantity: current?.quantity_threshold?.toString() ?? "",
+        value: current?.value_threshold?.toString() ?? "",
+      });
+    } catch (error) {
+      console.error("Erro ao carregar limites de aprovação:", error);
+    }
+  };
+
+  const loadApprovals = async () => {
+    try {
+      let query = supabase
+        .from("movement_approvals")
+        .select(
+          `id, product_id, location_id, type, quantity, previous_stock, unit_cost, reason, status,
+           created_at, reviewed_at, review_comment,
+           products (name), profiles (full_name), movement_reasons (name)`,
+          { count: "exact" }
+        )
+        .order("created_at", { ascending: filterStatus === "pendente" });
+
+      if (filterStatus !== "all") {
+        query = query.eq("status", filterStatus);
+      }
+
+      const { data, error, count } = await query.range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+      if (error) throw error;
+      setApprovals(data || []);
+      setTotal(count || 0);
+
+      const productIds = [...new Set((data || []).filter((a) => a.status === "pendente").map((a) => a.product_id))];
+      if (productIds.length === 0) {
+        setBalances({});
+        return;
+      }
+      const { data: balanceData, error: balanceError } = await supabase
+        .from("stock_balances")
+        .select("product_id, location_id, quantity")
+        .in("product_id", productIds);
+
+      if (balanceError) throw balanceError;
+      setBalances(
+        Object.fromEntries((balanceData || []).map((b) => [`${b.product_id}:${b.location_id}`, b.quantity]))
+      );
+    } catch (error) {
+      console.error("Erro ao carregar aprovações:", error);
+      toast.error("Erro ao carregar aprovações");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getLocationLabel = (id: string) => {
+    const location = locations.find((l) => l.id === id);
+    return location ? locationLabel(location) : "—";
+  };
+
+  // Pendentes comparam com o saldo de agora; revisadas, com o da solicitação
+  const currentStock = (approval: Approval) =>
+    approval.status === "pendente"
+      ? balances[`${approval.product_id}:${approval.location_id}`] ?? 0
+      : approval.previous_stock;
+
+  const handleStatusChange = (value: string) => {
+    setFilterStatus(value as ApprovalStatus | "all");
+    setPage(0);
+  };
+
+  const handleSaveSettings = async () => {
+    if (!settings) return;
+
+    setIsSavingSettings(true);
+    try {
+      const { error } = await supabase
+        .from("approval_settings")
+        .update({
+          quantity_threshold: thresholds.quantity ? parseInt(thresholds.quantity) : null,
+          value_threshold: thresholds.value ? parseFloat(thresholds.value) : null,
+        })
+        .eq("id", settings.id);
+
+      if (error) throw error;
+      toast.success("Limites de aprovação atualizados");
+      loadSettings();
+    } catch (error) {
+      console.error("Erro ao salvar limites de aprovação:", error);
+      toast.error("Erro ao salvar limites de aprovação", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const openReview = (approval: Approval, decision: "approve" | "reject") => {
+    setReview({ approval, decision });
+    setComment("");
+  };
+
+  const handleReview = async () => {
+    if (!review) return;
+
+    setIsReviewing(true);
+    try {
+      const { error } =
+        review.decision === "approve"
+          ? await supabase.approvals.approve(review.approval.id, comment || null)
+          : await supabase.approvals.reject(review.approval.id, comment);
+
+      if (error) throw error;
+      toast.success(review.decision === "approve" ? "Ajuste aprovado e estoque atualizado" : "Ajuste rejeitado");
+      setReview(null);
+      loadApprovals();
+    } catch (error) {
+      console.error("Erro ao revisar ajuste:", error);
+      toast.error("Erro ao revisar ajuste", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-full">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold">Aprovações de Ajuste</h1>
+          <p className="text-muted-foreground">
+            Ajustes e inventários acima dos limites só alteram o estoque depois de aprovados
+          </p>
+        </div>
+
+        {/* Limites */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Limites de aprovação</CardTitle>
+            <CardDescription>
+              Diferenças acima de qualquer um dos limites aguardam aprovação; deixe em branco para desligar o critério
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-3 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="quantity-threshold">Diferença em unidades</Label>
+                <Input
+                  id="quantity-threshold"
+                  type="number"
+                  min="1"
+                  value={thresholds.quantity}
+                  onChange={(e) => setThresholds((current) => ({ ...current, quantity: e.target.value }))}
+                  disabled={!canEditSettings || isSavingSettings}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="value-threshold">Diferença a custo (R$)</Label>
+                <Input
+                  id="value-threshold"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={thresholds.value}
+                  onChange={(e) => setThresholds((current) => ({ ...current, value: e.target.value }))}
+                  disabled={!canEditSettings || isSavingSettings}
+                />
+              </div>
+              {canEditSettings && (
+                <Button onClick={handleSaveSettings} disabled={isSavingSettings || !settings}>
+                  {isSavingSettings ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="mr-2 h-4 w-4" />
+                  )}
+                  Salvar Limites
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Filtro */}
+        <Card className="p-4">
+          <Select value={filterStatus} onValueChange={handleStatusChange}>
+            <SelectTrigger className="w-full sm:w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os status</SelectItem>
+              {Object.entries(statusConfig).map(([value, config]) => (
+                <SelectItem key={value} value={value}>
+                  {config.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Card>
+
+        {/* Fila */}
+        <Card>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Solicitado em</TableHead>
+                  <TableHead>Produto</TableHead>
+                  <TableHead>Local</TableHead>
+                  <TableHead className="text-right">Estoque</TableHead>
+                  <TableHead className="text-right">Diferença</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead>Solicitante</TableHead>
+                  <TableHead>Motivo</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canApprove && <TableHead className="text-right">Ações</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {approvals.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={canApprove ? 10 : 9} className="text-center text-muted-foreground py-8">
+                      Nenhuma solicitação encontrada
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  approvals.map((approval) => {
+                    const stock = currentStock(approval);
+                    const variance = approval.quantity - stock;
+                    const value = variance * Number(approval.unit_cost || 0);
+                    const status = statusConfig[approval.status];
+
+                    return (
+                      <TableRow key={approval.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(approval.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {approval.products?.name}
+                          <div className="text-xs text-muted-foreground">
+                            {approval.type === "inventario" ? "Inventário" : "Ajuste"}
+                          </div>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{getLocationLabel(approval.location_id)}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {stock} → <strong>{approval.quantity}</strong>
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-medium ${
+                            variance > 0 ? "text-success" : variance < 0 ? "text-destructive" : ""
+                          }`}
+                        >
+                          {formatSigned(variance)}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">{formatCurrency(value)}</TableCell>
+                        <TableCell className="whitespace-nowrap">{approval.profiles?.full_name || "—"}</TableCell>
+                        <TableCell className="max-w-xs">
+                          {approval.movement_reasons && (
+                            <span className="block text-sm font-medium">{approval.movement_reasons.name}</span>
+                          )}
+                          {approval.reason && (
+                            <span className="text-sm text-muted-foreground line-clamp-2">{approval.reason}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                          {approval.review_comment && (
+                            <p className="text-xs text-muted-foreground mt-1 max-w-[200px]">
+                              {approval.review_comment}
+                            </p>
+                          )}
+                        </TableCell>
+                        {canApprove && (
+                          <TableCell className="text-right">
+                            {approval.status === "pendente" && (
+                              <div className="flex justify-end gap-2">
+                                <Button size="sm" onClick={() => openReview(approval, "approve")}>
+                                  <Check className="mr-1 h-4 w-4" />
+                                  Aprovar
+                                </Button>
+                                <Button size="sm" variant="outline" onClick={() => openReview(approval, "reject")}>
+                                  <X className="mr-1 h-4 w-4" />
+                                  Rejeitar
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+
+        {total > PAGE_SIZE && (
+          <PaginationControls page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        )}
+
+        <Dialog open={!!review} onOpenChange={(open) => !open && setReview(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{review?.decision === "approve" ? "Aprovar Ajuste" : "Rejeitar Ajuste"}</DialogTitle>
+              <DialogDescription>
+                {review &&
+                  `${review.approval.products?.name}: estoque de ${currentStock(review.approval)} para ${
+                    review.approval.quantity
+                  } em ${getLocationLabel(review.approval.location_id)}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="review-comment">
+                Comentário{review?.decision === "reject" && " *"}
+              </Label>
+              <Textarea
+                id="review-comment"
+                placeholder={
+                  review?.decision === "reject" ? "Explique o motivo da rejeição..." : "Opcional"
+                }
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                disabled={isReviewing}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setReview(null)} disabled={isReviewing}>
+                Cancelar
+              </Button>
+              <Button
+                variant={review?.decision === "reject" ? "destructive" : "default"}
+                onClick={handleReview}
+                disabled={isReviewing || (review?.decision === "reject" && comment.trim().length < 3)}
+              >
+                {isReviewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {review?.decision === "approve" ? "Aprovar e Ajustar Estoque" : "Rejeitar"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+}
@@ -7,6 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { useToast } from "@/hooks/use-toast";
 import { Package, Info, ShieldCheck, Activity, Sparkles } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { supabase } from "@/integrations/supabase/client";
 
 export default function Auth() {
   const navigate = useNavigate();
@@ -17,10 +18,11 @@ export default function Auth() {
 
   useEffect(() => {
     // Verificar se já está logado
-    const session = localStorage.getItem("session");
-    if (session) {
-      navigate("/dashboard");
-    }
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session) {
+        navigate("/dashboard");
+      }
+    });
   }, [navigate]);
 
   const handleSignIn = async (e: React.FormEvent) => {
@@ -28,34 +30,13 @@ export default function Auth() {
     setLoading(true);
 
     try {
-      // Simular delay de autenticação
-      await new Promise(resolve => setTimeout(resolve, 500));
+      const { data, error } = await supabase.auth.signInWithPassword({ username, password });
 
-      // Verificar credenciais (usuários pré-definidos)
-      const users = [
-        { id: "1", username: "admin", password: "teste123", full_name: "Administrador do Sistema", role: "admin" },
-        { id: "2", username: "gestor", password: "teste123", full_name: "Gestor de Estoque", role: "gestor" }
-      ];
-
-      const user = users.find(u => u.username === username && u.password === password);
-
-      if (!user) {
-        throw new Error("Usuário ou senha inválidos");
+      if (error) {
+        throw error;
       }
 
-      // Criar sessão
-      const session = {
-        access_token: `mock-token-${user.id}`,
-        user: {
-          id: user.id,
-          username: user.username,
-          full_name: user.full_name,
-          role: user.role,
-        }
-      };
-
-      localStorage.setItem("session", JSON.stringify(session));
-      localStorage.setItem("user", JSON.stringify(session.user));
+      const user = data.user;
 
       toast({
         title: "Login realizado!",
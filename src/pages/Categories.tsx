@@ -2,7 +2,8 @@ import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
+import { categorySchema, CategoryFormData } from "@/lib/validations";
+import { applyFieldErrors } from "@/lib/form-errors";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -18,6 +19,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -35,17 +37,11 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Plus, Pencil, Trash2, Loader2, FolderTree, Search } from "lucide-react";
 
-const categorySchema = z.object({
-  name: z.string().min(2, "Nome deve ter pelo menos 2 caracteres"),
-  description: z.string().optional(),
-});
-
-type CategoryFormData = z.infer<typeof categorySchema>;
-
 interface Category {
   id: string;
   name: string;
   description: string | null;
+  expiration_warning_days: number;
   created_at: string;
 }
 
@@ -63,6 +59,7 @@ export default function Categories() {
     defaultValues: {
       name: "",
       description: "",
+      expiration_warning_days: 30,
     },
   });
 
@@ -107,12 +104,14 @@ export default function Categories() {
       form.reset({
         name: category.name,
         description: category.description || "",
+        expiration_warning_days: category.expiration_warning_days,
       });
     } else {
       setEditingCategory(null);
       form.reset({
         name: "",
         description: "",
+        expiration_warning_days: 30,
       });
     }
     setShowDialog(true);
@@ -140,7 +139,11 @@ export default function Categories() {
         // Criar
         const { error } = await supabase
           .from("categories")
-          .insert([values]);
+          .insert({
+            name: values.name,
+            description: values.description,
+            expiration_warning_days: values.expiration_warning_days,
+          });
 
         if (error) throw error;
         toast.success("Categoria criada com sucesso!");
@@ -148,9 +151,12 @@ export default function Categories() {
 
       loadCategories();
       handleCloseDialog();
-    } catch (error: any) {
+    } catch (error) {
       console.error("Erro ao salvar categoria:", error);
-      toast.error(error.message || "Erro ao salvar categoria");
+      applyFieldErrors(form, error);
+      toast.error("Erro ao salvar categoria", {
+        description: error instanceof Error ? error.message : undefined,
+      });
     } finally {
       setIsSubmitting(false);
     }
@@ -231,13 +237,14 @@ export default function Categories() {
                 <TableRow>
                   <TableHead>Nome</TableHead>
                   <TableHead>Descrição</TableHead>
+                  <TableHead>Alerta de vencimento</TableHead>
                   <TableHead className="text-right">Ações</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredCategories.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={3} className="text-center text-muted-foreground py-8">
+                    <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
                       {searchTerm
                         ? "Nenhuma categoria encontrada"
                         : "Nenhuma categoria cadastrada"}
@@ -250,6 +257,7 @@ export default function Categories() {
                       <TableCell className="text-muted-foreground">
                         {category.description || "—"}
                       </TableCell>
+                      <TableCell>{category.expiration_warning_days} dias antes</TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
                           <Button
@@ -324,6 +332,29 @@ export default function Categories() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="expiration_warning_days"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Alerta de vencimento (dias)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="1"
+                          max="365"
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Lotes desta categoria entram na central de vencimentos com esta antecedência
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="flex justify-end gap-2">
                   <Button
                     type="button"
@@ -0,0 +1,438 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { QRScanner } from "@/components/scanner/QRScanner";
+import { findProductByCode } from "@/components/scanner/findProductByCode";
+import { paymentMethodLabels } from "@/components/sales/paymentMethods";
+import { printReceipt } from "@/components/sales/printReceipt";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { PaymentMethod } from "@/lib/db";
+import { useKeyboardScanner } from "@/hooks/use-keyboard-scanner";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import { toast } from "sonner";
+import { CheckCircle2, Loader2, Minus, Plus, Printer, ShoppingCart, Trash2 } from "lucide-react";
+
+interface CartItem {
+  product_id: string;
+  name: string;
+  sale_price: number;
+  quantity: number;
+}
+
+interface CompletedSale {
+  id: string;
+  number: number;
+  total: number;
+  change: number | null;
+}
+
+const formatCurrency = (value: number) =>
+  `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function Checkout() {
+  const navigate = useNavigate();
+  const { locations } = useLocations();
+  const [locationId, setLocationId] = useState("");
+  const [cart, setCart] = useState<CartItem[]>([]);
+  // Saldo de cada produto do carrinho no local do caixa
+  const [available, setAvailable] = useState<Record<string, number>>({});
+  const [code, setCode] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("dinheiro");
+  const [amountPaid, setAmountPaid] = useState("");
+  const [isFinishing, setIsFinishing] = useState(false);
+  const [completedSale, setCompletedSale] = useState<CompletedSale | null>(null);
+
+  const productIds = cart.map((item) => item.product_id);
+  const cartKey = productIds.join(",");
+  const total = cart.reduce((acc, item) => acc + Math.round(item.sale_price * 100) * item.quantity, 0) / 100;
+  const paid = amountPaid ? parseFloat(amountPaid) : null;
+  const change = paymentMethod === "dinheiro" && paid !== null && paid >= total ? paid - total : null;
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    if (!locationId && locations.length > 0) {
+      setLocationId(locations[0].id);
+    }
+  }, [locations]);
+
+  useEffect(() => {
+    loadAvailable();
+  }, [locationId, cartKey]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadAvailable = async () => {
+    if (!locationId || productIds.length === 0) {
+      setAvailable({});
+      return;
+    }
+    try {
+      const { data, error } = await supabase
+        .from("stock_balances")
+        .select("product_id, quantity")
+        .eq("location_id", locationId)
+        .in("product_id", productIds);
+
+      if (error) throw error;
+      setAvailable(Object.fromEntries((data || []).map((balance) => [balance.product_id, balance.quantity])));
+    } catch (error) {
+      console.error("Erro ao carregar saldos:", error);
+    }
+  };
+
+  const addToCart = async (value: string) => {
+    setIsLookingUp(true);
+    try {
+      const product = await findProductByCode(value);
+      if (!product) {
+        toast.error("Produto não encontrado", { description: value });
+        return;
+      }
+      if (product.status !== "ativo") {
+        toast.error("Produto inativo", { description: product.name });
+        return;
+      }
+
+      setCompletedSale(null);
+      setCart((current) =>
+        current.some((item) => item.product_id === product.id)
+          ? current.map((item) =>
+              item.product_id === product.id ? { ...item, quantity: item.quantity + 1 } : item
+            )
+          : [
+              ...current,
+              {
+                product_id: product.id,
+                name: product.name,
+                sale_price: Number(product.sale_price),
+                quantity: 1,
+              },
+            ]
+      );
+      toast.success(product.name, { description: formatCurrency(Number(product.sale_price)) });
+    } catch (error) {
+      console.error("Erro ao buscar produto:", error);
+      toast.error("Erro ao buscar produto");
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  // Leitor USB/Bluetooth sem precisar do foco no campo de código
+  useKeyboardScanner(addToCart, !isFinishing);
+
+  const handleCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = code.trim();
+    if (!value) return;
+    setCode("");
+    addToCart(value);
+  };
+
+  const setQuantity = (productId: string, quantity: number) => {
+    if (Number.isNaN(quantity) || quantity < 1) return;
+    setCart((current) =>
+      current.map((item) => (item.product_id === productId ? { ...item, quantity } : item))
+    );
+  };
+
+  const removeItem = (productId: string) => {
+    setCart((current) => current.filter((item) => item.product_id !== productId));
+  };
+
+  const handleCancelSale = () => {
+    if (cart.length > 0 && !confirm("Descartar os itens do carrinho?")) return;
+    setCart([]);
+    setAmountPaid("");
+  };
+
+  const handleFinish = async () => {
+    if (!locationId) {
+      toast.error("Selecione o local do caixa");
+      return;
+    }
+    if (paymentMethod === "dinheiro" && paid !== null && paid < total) {
+      toast.error("Valor recebido menor que o total da venda");
+      return;
+    }
+
+    setIsFinishing(true);
+    try {
+      const { data, error } = await supabase.sales.checkout({
+        location_id: locationId,
+        payment_method: paymentMethod,
+        amount_paid: paymentMethod === "dinheiro" ? paid : null,
+        items: cart.map(({ product_id, quantity }) => ({ product_id, quantity })),
+      });
+
+      if (error) throw error;
+      setCompletedSale({ id: data!.id, number: data!.number, total, change });
+      setCart([]);
+      setAmountPaid("");
+      toast.success(`Venda #${data!.number} finalizada`, { description: formatCurrency(total) });
+    } catch (error) {
+      console.error("Erro ao finalizar venda:", error);
+      toast.error("Erro ao finalizar venda", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsFinishing(false);
+    }
+  };
+
+  const handlePrint = async (saleId: string) => {
+    try {
+      await printReceipt(saleId);
+    } catch (error) {
+      console.error("Erro ao imprimir cupom:", error);
+      toast.error("Erro ao imprimir cupom", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Caixa</h1>
+            <p className="text-muted-foreground">
+              Escaneie os produtos, confira o carrinho e finalize a venda
+            </p>
+          </div>
+          <Select value={locationId} onValueChange={setLocationId} disabled={isFinishing}>
+            <SelectTrigger className="w-full sm:w-[260px]">
+              <SelectValue placeholder="Local do caixa" />
+            </SelectTrigger>
+            <SelectContent>
+              {locations.map((location) => (
+                <SelectItem key={location.id} value={location.id}>
+                  {locationLabel(location)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="space-y-4">
+            <QRScanner onScan={addToCart} />
+
+            <Card className="p-4">
+              <form onSubmit={handleCodeSubmit} className="flex gap-2">
+                <Input
+                  placeholder="Digite o QR Code ou código de barras"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  disabled={isLookingUp}
+                />
+                <Button type="submit" disabled={isLookingUp || !code.trim()}>
+                  {isLookingUp ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                </Button>
+              </form>
+            </Card>
+          </div>
+
+          <div className="space-y-4">
+            {completedSale && (
+              <Card className="border-success">
+                <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pt-6">
+                  <div className="flex items-center gap-3">
+                    <CheckCircle2 className="h-8 w-8 text-success" />
+                    <div>
+                      <p className="font-semibold">Venda #{completedSale.number} finalizada</p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatCurrency(completedSale.total)}
+                        {completedSale.change !== null && ` · Troco: ${formatCurrency(completedSale.change)}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Button variant="outline" onClick={() => handlePrint(completedSale.id)}>
+                    <Printer className="mr-2 h-4 w-4" />
+                    Imprimir Cupom
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShoppingCart className="h-5 w-5" />
+                  Carrinho
+                </CardTitle>
+                <CardDescription>
+                  {cart.length === 0
+                    ? "Nenhum item escaneado"
+                    : `${cart.reduce((acc, item) => acc + item.quantity, 0)} unidade(s)`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {cart.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Produto</TableHead>
+                          <TableHead className="text-center">Qtd</TableHead>
+                          <TableHead className="text-right">Subtotal</TableHead>
+                          <TableHead className="w-[50px]"></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {cart.map((item) => {
+                          const stock = available[item.product_id] ?? 0;
+                          return (
+                            <TableRow key={item.product_id}>
+                              <TableCell>
+                                <p className="font-medium">{item.name}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {formatCurrency(item.sale_price)} ·{" "}
+                                  <span className={item.quantity > stock ? "text-destructive" : ""}>
+                                    Disponível: {stock}
+                                  </span>
+                                </p>
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center justify-center gap-1">
+                                  <Button
+                                    variant="outline"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => setQuantity(item.product_id, item.quantity - 1)}
+                                    disabled={isFinishing || item.quantity <= 1}
+                                  >
+                                    <Minus className="h-3 w-3" />
+                                  </Button>
+                                  <Input
+                                    type="number"
+                                    min="1"
+                                    className="h-8 w-16 text-center"
+                                    value={item.quantity}
+                                    onChange={(e) => setQuantity(item.product_id, parseInt(e.target.value))}
+                                    disabled={isFinishing}
+                                  />
+                                  <Button
+                                    variant="outline"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => setQuantity(item.product_id, item.quantity + 1)}
+                                    disabled={isFinishing}
+                                  >
+                                    <Plus className="h-3 w-3" />
+                                  </Button>
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-right whitespace-nowrap">
+                                {formatCurrency(item.sale_price * item.quantity)}
+                              </TableCell>
+                              <TableCell>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => removeItem(item.product_id)}
+                                  disabled={isFinishing}
+                                >
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                <div className="flex justify-between items-end border-t pt-4">
+                  <span className="text-muted-foreground">Total</span>
+                  <span className="text-3xl font-bold">{formatCurrency(total)}</span>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Forma de pagamento</Label>
+                    <Select
+                      value={paymentMethod}
+                      onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}
+                      disabled={isFinishing}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {paymentMethod === "dinheiro" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="amount-paid">Valor recebido (R$)</Label>
+                      <Input
+                        id="amount-paid"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder={total.toFixed(2)}
+                        value={amountPaid}
+                        onChange={(e) => setAmountPaid(e.target.value)}
+                        disabled={isFinishing}
+                      />
+                      {change !== null && (
+                        <p className="text-sm font-medium">Troco: {formatCurrency(change)}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={handleCancelSale} disabled={isFinishing || cart.length === 0}>
+                    Cancelar
+                  </Button>
+                  <Button className="flex-1" onClick={handleFinish} disabled={isFinishing || cart.length === 0}>
+                    {isFinishing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Finalizar Venda
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
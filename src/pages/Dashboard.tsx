@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Package, AlertTriangle, TrendingDown, DollarSign, ArrowUpIcon, ArrowDownIcon, Shield } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useUserRole } from "@/hooks/use-user-role";
+import { fetchExpiringLots } from "@/lib/expirations";
 import { Badge } from "@/components/ui/badge";
 import {
   BarChart,
@@ -116,16 +117,9 @@ export default function Dashboard() {
         (p) => p.current_stock <= p.minimum_stock
       ).length || 0;
 
-      // Produtos próximos ao vencimento (30 dias)
-      const thirtyDaysFromNow = new Date();
-      thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
-
-      const { count: nearExpiration } = await supabase
-        .from("products")
-        .select("*", { count: "exact", head: true })
-        .eq("status", "ativo")
-        .not("expiration_date", "is", null)
-        .lte("expiration_date", thirtyDaysFromNow.toISOString());
+      // Produtos com lotes dentro da janela de alerta da categoria (ou vencidos)
+      const expiringLots = await fetchExpiringLots();
+      const nearExpiration = new Set(expiringLots.map((lot) => lot.product_id)).size;
 
       // Valor total do estoque
       const { data: products } = await supabase
@@ -141,7 +135,7 @@ export default function Dashboard() {
       setStats({
         totalProducts: totalProducts || 0,
         lowStock,
-        nearExpiration: nearExpiration || 0,
+        nearExpiration,
         totalValue,
       });
     } catch (error) {
@@ -365,7 +359,13 @@ export default function Dashboard() {
               </p>
               <div className="flex gap-2 flex-wrap">
                 <Badge variant="destructive">Baixos: {stats.lowStock}</Badge>
-                <Badge variant="outline">Vencimento: {stats.nearExpiration}</Badge>
+                <Badge
+                  variant="outline"
+                  className="cursor-pointer"
+                  onClick={() => navigate("/expirations")}
+                >
+                  Vencimento: {stats.nearExpiration}
+                </Badge>
                 {isAdmin && (
                   <Badge variant="secondary">
                     Valor total: R$ {stats.totalValue.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}
@@ -396,7 +396,7 @@ export default function Dashboard() {
             title="Próximo ao Vencimento"
             value={stats.nearExpiration}
             icon={AlertTriangle}
-            helper="Itens vencendo em 30 dias"
+            helper="Na janela de alerta da categoria"
             variant="danger"
           />
           {/* Valor Total - Apenas Admin */}
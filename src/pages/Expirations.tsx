@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MarkdownDialog } from "@/components/expirations/MarkdownDialog";
+import { WriteOffDialog } from "@/components/expirations/WriteOffDialog";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  expirationGroups,
+  fetchExpiringLots,
+  type ExpirationGroup,
+  type ExpiringLot,
+} from "@/lib/expirations";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import { useUserRole } from "@/hooks/use-user-role";
+import { toast } from "sonner";
+import { CalendarClock, Loader2, PackageX, Tag } from "lucide-react";
+
+const formatCurrency = (value: number) =>
+  `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}`;
+
+// Ação sugerida: lote vencido só pode ser baixado; perto do vencimento, remarcar
+const suggestedAction = (lot: ExpiringLot) => {
+  if (lot.daysLeft < 0) return "Dar baixa";
+  if (lot.daysLeft <= 3) return "Remarcar ou dar baixa";
+  return "Remarcar";
+};
+
+export default function Expirations() {
+  const navigate = useNavigate();
+  const { can, canPerform } = useUserRole();
+  const { locations } = useLocations();
+  const [lots, setLots] = useState<ExpiringLot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [markdownLot, setMarkdownLot] = useState<ExpiringLot | null>(null);
+  const [writeOffLot, setWriteOffLot] = useState<ExpiringLot | null>(null);
+
+  const canMarkdown = can("products", "update");
+  const canWriteOff = canPerform("movements.create");
+
+  useEffect(() => {
+    checkAuth();
+    loadLots();
+  }, []);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadLots = async () => {
+    try {
+      setLots(await fetchExpiringLots());
+    } catch (error) {
+      console.error("Erro ao carregar vencimentos:", error);
+      toast.error("Erro ao carregar vencimentos");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getLocationLabel = (id: string) => {
+    const location = locations.find((l) => l.id === id);
+    return location ? locationLabel(location) : "—";
+  };
+
+  const lotsByGroup = (group: ExpirationGroup) => lots.filter((lot) => lot.group === group);
+  const sumValue = (list: ExpiringLot[]) => list.reduce((acc, lot) => acc + lot.valueAtRisk, 0);
+  const groups = expirationGroups.filter(({ key }) => key !== "janela" || lotsByGroup(key).length > 0);
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-full">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold">Vencimentos</h1>
+          <p className="text-muted-foreground">
+            Lotes vencidos ou dentro da janela de alerta de cada categoria
+          </p>
+        </div>
+
+        {/* Resumo por faixa */}
+        <div className="grid gap-4 grid-cols-2 lg:grid-cols-5">
+          {groups.map(({ key, label }) => {
+            const groupLots = lotsByGroup(key);
+            return (
+              <Card key={key} className={key === "vencido" ? "border-destructive/40" : ""}>
+                <CardContent className="p-4 space-y-1">
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                  <p className="text-2xl font-bold">{groupLots.length}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(sumValue(groupLots))} em risco
+                  </p>
+                </CardContent>
+              </Card>
+            );
+          })}
+          <Card className="border-primary/20">
+            <CardContent className="p-4 space-y-1">
+              <p className="text-sm text-muted-foreground">Valor total em risco</p>
+              <p className="text-2xl font-bold">{formatCurrency(sumValue(lots))}</p>
+              <p className="text-xs text-muted-foreground">Pelo preço de custo</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {lots.length === 0 && (
+          <Card>
+            <CardContent className="p-8 text-center text-muted-foreground">
+              Nenhum lote vencido ou próximo do vencimento
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Lotes por faixa */}
+        {groups.map(({ key, label }) => {
+          const groupLots = lotsByGroup(key);
+          if (groupLots.length === 0) return null;
+
+          return (
+            <Card key={key}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarClock className="h-5 w-5" />
+                  {label}
+                </CardTitle>
+                <CardDescription>
+                  {groupLots.length} lote(s) · {formatCurrency(sumValue(groupLots))} em risco
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Produto</TableHead>
+                        <TableHead>Lote</TableHead>
+                        <TableHead>Local</TableHead>
+                        <TableHead>Validade</TableHead>
+                        <TableHead className="text-right">Saldo</TableHead>
+                        <TableHead className="text-right">Valor em risco</TableHead>
+                        <TableHead>Sugestão</TableHead>
+                        <TableHead className="text-right">Ações</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {groupLots.map((lot) => (
+                        <TableRow key={lot.id}>
+                          <TableCell>
+                            <button
+                              className="font-medium hover:underline text-left"
+                              onClick={() => navigate(`/products/${lot.product_id}`)}
+                            >
+                              {lot.products.name}
+                            </button>
+                          </TableCell>
+                          <TableCell>{lot.lot_number || "Sem lote"}</TableCell>
+                          <TableCell>{getLocationLabel(lot.location_id)}</TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {new Date(`${lot.expiration_date}T00:00:00`).toLocaleDateString("pt-BR")}
+                            <span
+                              className={`block text-xs ${
+                                lot.daysLeft < 0 ? "text-destructive" : "text-muted-foreground"
+                              }`}
+                            >
+                              {lot.daysLeft < 0
+                                ? `Venceu há ${-lot.daysLeft} dia(s)`
+                                : lot.daysLeft === 0
+                                  ? "Vence hoje"
+                                  : `Faltam ${lot.daysLeft} dia(s)`}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">{lot.quantity}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {formatCurrency(lot.valueAtRisk)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={lot.daysLeft < 0 ? "destructive" : "outline"}>
+                              {suggestedAction(lot)}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              {canMarkdown && lot.daysLeft >= 0 && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Remarcar preço"
+                                  onClick={() => setMarkdownLot(lot)}
+                                >
+                                  <Tag className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {canWriteOff && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Dar baixa"
+                                  onClick={() => setWriteOffLot(lot)}
+                                >
+                                  <PackageX className="h-4 w-4 text-destructive" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        <MarkdownDialog
+          lot={markdownLot}
+          onOpenChange={(open) => !open && setMarkdownLot(null)}
+          onSuccess={loadLots}
+        />
+        <WriteOffDialog
+          lot={writeOffLot}
+          onOpenChange={(open) => !open && setWriteOffLot(null)}
+          onSuccess={loadLots}
+        />
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,524 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  locationSchema,
+  LocationFormData,
+  warehouseSchema,
+  WarehouseFormData,
+} from "@/lib/validations";
+import { applyFieldErrors } from "@/lib/form-errors";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/use-user-role";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, Loader2, Warehouse as WarehouseIcon, MapPin } from "lucide-react";
+
+interface Warehouse {
+  id: string;
+  name: string;
+  address: string | null;
+}
+
+interface Location {
+  id: string;
+  warehouse_id: string;
+  name: string;
+  description: string | null;
+}
+
+export default function Locations() {
+  const navigate = useNavigate();
+  const { can } = useUserRole();
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [showWarehouseDialog, setShowWarehouseDialog] = useState(false);
+  const [editingWarehouse, setEditingWarehouse] = useState<Warehouse | null>(null);
+  const [showLocationDialog, setShowLocationDialog] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+
+  const warehouseForm = useForm<WarehouseFormData>({
+    resolver: zodResolver(warehouseSchema),
+    defaultValues: { name: "", address: "" },
+  });
+
+  const locationForm = useForm<LocationFormData>({
+    resolver: zodResolver(locationSchema),
+    defaultValues: { warehouse_id: "", name: "", description: "" },
+  });
+
+  useEffect(() => {
+    checkAuth();
+    loadData();
+  }, []);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      const [warehousesResult, locationsResult] = await Promise.all([
+        supabase.from("warehouses").select("id, name, address").order("name"),
+        supabase.from("locations").select("id, warehouse_id, name, description").order("name"),
+      ]);
+
+      if (warehousesResult.error) throw warehousesResult.error;
+      if (locationsResult.error) throw locationsResult.error;
+      setWarehouses(warehousesResult.data || []);
+      setLocations(locationsResult.data || []);
+    } catch (error) {
+      console.error("Erro ao carregar locais:", error);
+      toast.error("Erro ao carregar locais de estoque");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // ==================== DEPÓSITOS ====================
+
+  const handleOpenWarehouseDialog = (warehouse?: Warehouse) => {
+    setEditingWarehouse(warehouse || null);
+    warehouseForm.reset({
+      name: warehouse?.name || "",
+      address: warehouse?.address || "",
+    });
+    setShowWarehouseDialog(true);
+  };
+
+  const handleCloseWarehouseDialog = () => {
+    setShowWarehouseDialog(false);
+    setEditingWarehouse(null);
+    warehouseForm.reset();
+  };
+
+  const handleWarehouseSubmit = async (values: WarehouseFormData) => {
+    setIsSubmitting(true);
+    try {
+      const data = { name: values.name, address: values.address || null };
+
+      if (editingWarehouse) {
+        const { error } = await supabase
+          .from("warehouses")
+          .update(data)
+          .eq("id", editingWarehouse.id);
+
+        if (error) throw error;
+        toast.success("Depósito atualizado com sucesso!");
+      } else {
+        const { error } = await supabase.from("warehouses").insert(data);
+
+        if (error) throw error;
+        toast.success("Depósito criado com sucesso!");
+      }
+
+      loadData();
+      handleCloseWarehouseDialog();
+    } catch (error) {
+      console.error("Erro ao salvar depósito:", error);
+      applyFieldErrors(warehouseForm, error);
+      toast.error("Erro ao salvar depósito", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteWarehouse = async (id: string) => {
+    if (!confirm("Tem certeza que deseja excluir este depósito e seus locais?")) return;
+
+    try {
+      const { error } = await supabase
+        .from("warehouses")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+      toast.success("Depósito excluído com sucesso!");
+      loadData();
+    } catch (error) {
+      console.error("Erro ao excluir depósito:", error);
+      toast.error("Erro ao excluir depósito", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  // ==================== LOCAIS ====================
+
+  const handleOpenLocationDialog = (warehouseId: string, location?: Location) => {
+    setEditingLocation(location || null);
+    locationForm.reset({
+      warehouse_id: warehouseId,
+      name: location?.name || "",
+      description: location?.description || "",
+    });
+    setShowLocationDialog(true);
+  };
+
+  const handleCloseLocationDialog = () => {
+    setShowLocationDialog(false);
+    setEditingLocation(null);
+    locationForm.reset();
+  };
+
+  const handleLocationSubmit = async (values: LocationFormData) => {
+    setIsSubmitting(true);
+    try {
+      const data = {
+        warehouse_id: values.warehouse_id,
+        name: values.name,
+        description: values.description || null,
+      };
+
+      if (editingLocation) {
+        const { error } = await supabase
+          .from("locations")
+          .update(data)
+          .eq("id", editingLocation.id);
+
+        if (error) throw error;
+        toast.success("Local atualizado com sucesso!");
+      } else {
+        const { error } = await supabase.from("locations").insert(data);
+
+        if (error) throw error;
+        toast.success("Local criado com sucesso!");
+      }
+
+      loadData();
+      handleCloseLocationDialog();
+    } catch (error) {
+      console.error("Erro ao salvar local:", error);
+      applyFieldErrors(locationForm, error);
+      toast.error("Erro ao salvar local", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Locais com movimentações não podem ser excluídos (o servidor responde 409)
+  const handleDeleteLocation = async (id: string) => {
+    if (!confirm("Tem certeza que deseja excluir este local?")) return;
+
+    try {
+      const { error } = await supabase
+        .from("locations")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+      toast.success("Local excluído com sucesso!");
+      loadData();
+    } catch (error) {
+      console.error("Erro ao excluir local:", error);
+      toast.error("Erro ao excluir local", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-full">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Locais de Estoque</h1>
+            <p className="text-muted-foreground">
+              Depósitos e os locais onde os produtos ficam guardados
+            </p>
+          </div>
+          {can("warehouses", "insert") && (
+            <Button onClick={() => handleOpenWarehouseDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Novo Depósito
+            </Button>
+          )}
+        </div>
+
+        {warehouses.length === 0 && (
+          <Card className="p-12 text-center text-muted-foreground">
+            Nenhum depósito cadastrado
+          </Card>
+        )}
+
+        {warehouses.map((warehouse) => {
+          const warehouseLocations = locations.filter((l) => l.warehouse_id === warehouse.id);
+
+          return (
+            <Card key={warehouse.id}>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center gap-2">
+                    <WarehouseIcon className="h-5 w-5" />
+                    {warehouse.name}
+                  </CardTitle>
+                  <CardDescription>
+                    {warehouse.address || "Sem endereço"} · {warehouseLocations.length} local(is)
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  {can("locations", "insert") && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleOpenLocationDialog(warehouse.id)}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Novo Local
+                    </Button>
+                  )}
+                  {can("warehouses", "update") && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleOpenWarehouseDialog(warehouse)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {can("warehouses", "delete") && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDeleteWarehouse(warehouse.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Local</TableHead>
+                      <TableHead>Descrição</TableHead>
+                      <TableHead className="text-right">Ações</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {warehouseLocations.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={3} className="text-center text-muted-foreground py-8">
+                          Nenhum local cadastrado neste depósito
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      warehouseLocations.map((location) => (
+                        <TableRow key={location.id}>
+                          <TableCell className="font-medium">
+                            <span className="flex items-center gap-2">
+                              <MapPin className="h-4 w-4 text-muted-foreground" />
+                              {location.name}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {location.description || "—"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              {can("locations", "update") && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleOpenLocationDialog(warehouse.id, location)}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {can("locations", "delete") && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleDeleteLocation(location.id)}
+                                >
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        {/* Dialog de Depósito */}
+        <Dialog open={showWarehouseDialog} onOpenChange={handleCloseWarehouseDialog}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {editingWarehouse ? "Editar Depósito" : "Novo Depósito"}
+              </DialogTitle>
+              <DialogDescription>
+                Lojas, filiais ou centros de distribuição
+              </DialogDescription>
+            </DialogHeader>
+
+            <Form {...warehouseForm}>
+              <form onSubmit={warehouseForm.handleSubmit(handleWarehouseSubmit)} className="space-y-4">
+                <FormField
+                  control={warehouseForm.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nome *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Ex: Loja Centro" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={warehouseForm.control}
+                  name="address"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Endereço</FormLabel>
+                      <FormControl>
+                        <Textarea rows={2} {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleCloseWarehouseDialog}
+                    disabled={isSubmitting}
+                  >
+                    Cancelar
+                  </Button>
+                  <Button type="submit" disabled={isSubmitting}>
+                    {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Salvar
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+
+        {/* Dialog de Local */}
+        <Dialog open={showLocationDialog} onOpenChange={handleCloseLocationDialog}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {editingLocation ? "Editar Local" : "Novo Local"}
+              </DialogTitle>
+              <DialogDescription>
+                Corredor, prateleira ou área dentro do depósito
+              </DialogDescription>
+            </DialogHeader>
+
+            <Form {...locationForm}>
+              <form onSubmit={locationForm.handleSubmit(handleLocationSubmit)} className="space-y-4">
+                <FormField
+                  control={locationForm.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nome *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Ex: Corredor 3, Prateleira A" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={locationForm.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Descrição</FormLabel>
+                      <FormControl>
+                        <Textarea rows={2} {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleCloseLocationDialog}
+                    disabled={isSubmitting}
+                  >
+                    Cancelar
+                  </Button>
+                  <Button type="submit" disabled={isSubmitting}>
+                    {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Salvar
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,450 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { movementReasonSchema, MovementReasonFormData } from "@/lib/validations";
+import { applyFieldErrors } from "@/lib/form-errors";
+import type { MovementType } from "@/lib/db";
+import { Layout } from "@/components/Layout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserRole } from "@/hooks/use-user-role";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, Loader2, Tags } from "lucide-react";
+
+interface MovementReason {
+  id: string;
+  movement_type: MovementType;
+  code: string;
+  name: string;
+  is_loss: boolean;
+  active: boolean;
+}
+
+const typeLabels: Record<MovementType, string> = {
+  entrada: "Entrada",
+  saida: "Saída",
+  ajuste: "Ajuste",
+  inventario: "Inventário",
+};
+
+const emptyReason: MovementReasonFormData = {
+  movement_type: "saida",
+  code: "",
+  name: "",
+  is_loss: false,
+  active: true,
+};
+
+export default function MovementReasons() {
+  const navigate = useNavigate();
+  const { can } = useUserRole();
+  const [reasons, setReasons] = useState<MovementReason[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filterType, setFilterType] = useState<MovementType | "all">("all");
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingReason, setEditingReason] = useState<MovementReason | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<MovementReasonFormData>({
+    resolver: zodResolver(movementReasonSchema),
+    defaultValues: emptyReason,
+  });
+
+  useEffect(() => {
+    checkAuth();
+    loadReasons();
+  }, []);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadReasons = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("movement_reasons")
+        .select("id, movement_type, code, name, is_loss, active")
+        .order("movement_type")
+        .order("name");
+
+      if (error) throw error;
+      setReasons(data || []);
+    } catch (error) {
+      console.error("Erro ao carregar motivos:", error);
+      toast.error("Erro ao carregar motivos");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const filteredReasons =
+    filterType === "all" ? reasons : reasons.filter((reason) => reason.movement_type === filterType);
+
+  const handleOpenDialog = (reason?: MovementReason) => {
+    setEditingReason(reason || null);
+    form.reset(
+      reason
+        ? {
+            movement_type: reason.movement_type,
+            code: reason.code,
+            name: reason.name,
+            is_loss: reason.is_loss,
+            active: reason.active,
+          }
+        : emptyReason
+    );
+    setShowDialog(true);
+  };
+
+  const handleCloseDialog = () => {
+    setShowDialog(false);
+    setEditingReason(null);
+    form.reset(emptyReason);
+  };
+
+  const handleSubmit = async (values: MovementReasonFormData) => {
+    setIsSubmitting(true);
+    try {
+      if (editingReason) {
+        // O tipo não muda: as movimentações já registradas continuam coerentes
+        const { error } = await supabase
+          .from("movement_reasons")
+          .update({
+            code: values.code,
+            name: values.name,
+            is_loss: values.is_loss,
+            active: values.active,
+          })
+          .eq("id", editingReason.id);
+
+        if (error) throw error;
+        toast.success("Motivo atualizado com sucesso!");
+      } else {
+        const { error } = await supabase.from("movement_reasons").insert({
+          movement_type: values.movement_type,
+          code: values.code,
+          name: values.name,
+          is_loss: values.is_loss,
+          active: values.active,
+        });
+
+        if (error) throw error;
+        toast.success("Motivo criado com sucesso!");
+      }
+
+      loadReasons();
+      handleCloseDialog();
+    } catch (error) {
+      console.error("Erro ao salvar motivo:", error);
+      applyFieldErrors(form, error);
+      toast.error("Erro ao salvar motivo", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Tem certeza que deseja excluir este motivo?")) return;
+
+    try {
+      const { error } = await supabase.from("movement_reasons").delete().eq("id", id);
+
+      if (error) throw error;
+      toast.success("Motivo excluído com sucesso!");
+      loadReasons();
+    } catch (error) {
+      console.error("Erro ao excluir motivo:", error);
+      toast.error("Erro ao excluir motivo", {
+        description: "Motivos usados em movimentações não podem ser excluídos; desative-os",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-full">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Motivos de Movimentação</h1>
+            <p className="text-muted-foreground">
+              Motivos oferecidos em cada tipo de movimentação; os de perda entram no relatório de perdas
+            </p>
+          </div>
+          {can("movement_reasons", "insert") && (
+            <Button onClick={() => handleOpenDialog()} className="w-full sm:w-auto">
+              <Plus className="h-4 w-4 mr-2" />
+              Novo Motivo
+            </Button>
+          )}
+        </div>
+
+        {/* Filtro */}
+        <Card className="p-4">
+          <Select value={filterType} onValueChange={(value) => setFilterType(value as MovementType | "all")}>
+            <SelectTrigger className="w-full sm:w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os tipos</SelectItem>
+              {Object.entries(typeLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Card>
+
+        {/* Tabela */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Tags className="h-5 w-5" />
+              Catálogo de Motivos
+            </CardTitle>
+            <CardDescription>{filteredReasons.length} motivo(s) encontrado(s)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Código</TableHead>
+                    <TableHead>Perda</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredReasons.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                        Nenhum motivo cadastrado
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredReasons.map((reason) => (
+                      <TableRow key={reason.id}>
+                        <TableCell>{typeLabels[reason.movement_type]}</TableCell>
+                        <TableCell className="font-medium">{reason.name}</TableCell>
+                        <TableCell className="font-mono text-sm text-muted-foreground">
+                          {reason.code}
+                        </TableCell>
+                        <TableCell>
+                          {reason.is_loss ? <Badge variant="destructive">Perda</Badge> : "—"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={reason.active ? "success" : "muted"}>
+                            {reason.active ? "Ativo" : "Inativo"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            {can("movement_reasons", "update") && (
+                              <Button variant="ghost" size="icon" onClick={() => handleOpenDialog(reason)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can("movement_reasons", "delete") && (
+                              <Button variant="ghost" size="icon" onClick={() => handleDelete(reason.id)}>
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Dialog de Criar/Editar */}
+        <Dialog open={showDialog} onOpenChange={handleCloseDialog}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingReason ? "Editar Motivo" : "Novo Motivo"}</DialogTitle>
+              <DialogDescription>
+                {editingReason
+                  ? "Atualize as informações do motivo"
+                  : "Preencha os dados do novo motivo"}
+              </DialogDescription>
+            </DialogHeader>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="movement_type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tipo de Movimentação *</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                        disabled={isSubmitting || !!editingReason}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(typeLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nome *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Ex: Avaria no transporte" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="code"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Código *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Ex: avaria_transporte" {...field} />
+                      </FormControl>
+                      <FormDescription>Único por tipo; usado em integrações e relatórios</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="is_loss"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={!!field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">Conta como perda</FormLabel>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="active"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={!!field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">Ativo</FormLabel>
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleCloseDialog}
+                    disabled={isSubmitting}
+                  >
+                    Cancelar
+                  </Button>
+                  <Button type="submit" disabled={isSubmitting}>
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Salvando...
+                      </>
+                    ) : (
+                      "Salvar"
+                    )}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+}
@@ -16,6 +16,8 @@ export default function Movements() {
   const [prefilledData, setPrefilledData] = useState<{
     productId?: string;
     type?: "entrada" | "saida" | "ajuste" | "inventario";
+    lotNumber?: string;
+    expirationDate?: string;
   }>({});
 
   useEffect(() => {
@@ -23,9 +25,9 @@ export default function Movements() {
 
     // Verificar se há dados pré-preenchidos do state da navegação
     if (location.state) {
-      const { productId, type } = location.state as any;
+      const { productId, type, lotNumber, expirationDate } = location.state as any;
       if (productId || type) {
-        setPrefilledData({ productId, type });
+        setPrefilledData({ productId, type, lotNumber, expirationDate });
         setShowDialog(true);
       }
     }
@@ -156,6 +158,8 @@ export default function Movements() {
             <MovementForm
               productId={prefilledData.productId}
               movementType={prefilledData.type}
+              lotNumber={prefilledData.lotNumber}
+              expirationDate={prefilledData.expirationDate}
               onSuccess={handleSuccess}
               onCancel={handleCancel}
             />
@@ -8,8 +8,6 @@ import {
   Trash2,
   Package,
   DollarSign,
-  MapPin,
-  Calendar,
   Hash,
   Loader2,
   Plus,
@@ -30,6 +28,9 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Layout } from "@/components/Layout";
+import { StockByLocation, type StockBalance } from "@/components/products/StockByLocation";
+import { ProductLots, type ProductLot } from "@/components/products/ProductLots";
+import { useLocations } from "@/hooks/use-locations";
 
 export default function ProductDetails() {
   const { id } = useParams<{ id: string }>();
@@ -38,6 +39,9 @@ export default function ProductDetails() {
   const [isLoading, setIsLoading] = useState(true);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [balances, setBalances] = useState<StockBalance[]>([]);
+  const [lots, setLots] = useState<ProductLot[]>([]);
+  const { locations } = useLocations();
 
   useEffect(() => {
     checkAuth();
@@ -79,6 +83,24 @@ export default function ProductDetails() {
       }
 
       setProduct(data);
+
+      const [balanceResult, lotsResult] = await Promise.all([
+        supabase
+          .from("stock_balances")
+          .select("location_id, quantity")
+          .eq("product_id", data.id),
+        supabase
+          .from("lots")
+          .select("id, location_id, lot_number, expiration_date, quantity")
+          .eq("product_id", data.id)
+          .gt("quantity", 0)
+          .order("expiration_date"),
+      ]);
+
+      if (balanceResult.error) throw balanceResult.error;
+      if (lotsResult.error) throw lotsResult.error;
+      setBalances(balanceResult.data || []);
+      setLots(lotsResult.data || []);
     } catch (error) {
       console.error("Erro ao carregar produto:", error);
       toast.error("Erro ao carregar produto");
@@ -229,30 +251,13 @@ export default function ProductDetails() {
                     <p className="font-mono font-medium">{product.barcode}</p>
                   </div>
                 )}
-                {product.location && (
-                  <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground flex items-center gap-1">
-                      <MapPin className="h-4 w-4" />
-                      Localização
-                    </p>
-                    <p className="font-medium">{product.location}</p>
-                  </div>
-                )}
-                {product.batch_number && (
-                  <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground">Lote</p>
-                    <p className="font-medium">{product.batch_number}</p>
-                  </div>
-                )}
-                {product.expiration_date && (
+                {product.supplier_code && (
                   <div className="space-y-1">
                     <p className="text-sm text-muted-foreground flex items-center gap-1">
-                      <Calendar className="h-4 w-4" />
-                      Validade
-                    </p>
-                    <p className="font-medium">
-                      {new Date(product.expiration_date).toLocaleDateString("pt-BR")}
+                      <Hash className="h-4 w-4" />
+                      Código do Fornecedor
                     </p>
+                    <p className="font-mono font-medium">{product.supplier_code}</p>
                   </div>
                 )}
               </CardContent>
@@ -269,7 +274,7 @@ export default function ProductDetails() {
               <CardContent className="space-y-4">
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground">Estoque Atual</p>
+                    <p className="text-sm text-muted-foreground">Estoque Total</p>
                     <p className="text-2xl font-bold">{product.current_stock}</p>
                   </div>
                   <div className="space-y-1">
@@ -277,6 +282,10 @@ export default function ProductDetails() {
                     <p className="text-2xl font-bold">{product.minimum_stock}</p>
                   </div>
                 </div>
+                <div className="space-y-2 border-t pt-4">
+                  <p className="text-sm font-medium">Estoque por local</p>
+                  <StockByLocation balances={balances} locations={locations} />
+                </div>
                 <div className="flex gap-2 pt-2">
                   <Button
                     variant="outline"
@@ -298,6 +307,9 @@ export default function ProductDetails() {
               </CardContent>
             </Card>
 
+            {/* Lotes */}
+            <ProductLots lots={lots} locations={locations} />
+
             {/* Preços */}
             <Card>
               <CardHeader>
@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { escapeLike, quoteFilterValue } from "@/lib/db";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -15,6 +16,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { BulkQRPrint } from "@/components/products/BulkQRPrint";
+import { StockByLocation, type StockBalance } from "@/components/products/StockByLocation";
+import { useLocations } from "@/hooks/use-locations";
+import { PaginationControls } from "@/components/shared/PaginationControls";
+import { useDebounce } from "@/hooks/use-debounce";
+
+const PAGE_SIZE = 24;
 
 interface Product {
   id: string;
@@ -46,18 +53,30 @@ export default function Products() {
   const [categories, setCategories] = useState<Category[]>([]);
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingProducts, setLoadingProducts] = useState(false);
+  const [balances, setBalances] = useState<Record<string, StockBalance[]>>({});
+  const { locations } = useLocations();
+
+  // Paginação
+  const [page, setPage] = useState(0);
+  const [totalProducts, setTotalProducts] = useState(0);
 
   // Filtros
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
   const [selectedSupplier, setSelectedSupplier] = useState<string>("all");
   const [selectedStatus, setSelectedStatus] = useState<string>("all");
+  const debouncedSearch = useDebounce(searchTerm.trim());
 
   useEffect(() => {
     checkAuth();
     loadData();
   }, []);
 
+  useEffect(() => {
+    loadProducts();
+  }, [page, debouncedSearch, selectedCategory, selectedSupplier, selectedStatus]);
+
   const checkAuth = async () => {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session) {
@@ -69,7 +88,6 @@ export default function Products() {
     setLoading(true);
     try {
       await Promise.all([
-        loadProducts(),
         loadCategories(),
         loadSuppliers(),
       ]);
@@ -79,8 +97,9 @@ export default function Products() {
   };
 
   const loadProducts = async () => {
+    setLoadingProducts(true);
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from("products")
         .select(`
           id,
@@ -94,13 +113,60 @@ export default function Products() {
           barcode,
           categories (id, name),
           suppliers (id, name)
-        `)
+        `, { count: "exact" })
         .order("name");
 
+      // Filtros aplicados no servidor para que a contagem seja exata
+      if (debouncedSearch) {
+        const pattern = quoteFilterValue(`*${escapeLike(debouncedSearch)}*`);
+        query = query.or(`name.ilike.${pattern},barcode.ilike.${pattern}`);
+      }
+      if (selectedCategory !== "all") {
+        query = query.eq("category_id", selectedCategory);
+      }
+      if (selectedSupplier !== "all") {
+        query = query.eq("supplier_id", selectedSupplier);
+      }
+      if (selectedStatus !== "all") {
+        query = query.eq("status", selectedStatus);
+      }
+
+      const { data, error, count } = await query.range(
+        page * PAGE_SIZE,
+        (page + 1) * PAGE_SIZE - 1
+      );
+
       if (error) throw error;
       setProducts(data || []);
+      setTotalProducts(count || 0);
+      await loadBalances((data || []).map((p) => p.id));
     } catch (error) {
       console.error("Erro ao carregar produtos:", error);
+    } finally {
+      setLoadingProducts(false);
+    }
+  };
+
+  // Saldos por local dos produtos da página atual
+  const loadBalances = async (productIds: string[]) => {
+    if (productIds.length === 0) {
+      setBalances({});
+      return;
+    }
+    try {
+      const { data, error } = await supabase
+        .from("stock_balances")
+        .select("product_id, location_id, quantity")
+        .in("product_id", productIds);
+
+      if (error) throw error;
+      const byProduct: Record<string, StockBalance[]> = {};
+      for (const balance of data || []) {
+        (byProduct[balance.product_id] ||= []).push(balance);
+      }
+      setBalances(byProduct);
+    } catch (error) {
+      console.error("Erro ao carregar saldos por local:", error);
     }
   };
 
@@ -132,35 +198,33 @@ export default function Products() {
     }
   };
 
-  const filteredProducts = products.filter((product) => {
-    // Busca por nome
-    const matchesSearch = product.name
-      .toLowerCase()
-      .includes(searchTerm.toLowerCase());
-
-    // Filtro por categoria
-    const matchesCategory =
-      selectedCategory === "all" ||
-      product.categories?.id === selectedCategory;
+  // Filtros do servidor voltam para a primeira página
+  const handleSearchChange = (value: string) => {
+    setSearchTerm(value);
+    setPage(0);
+  };
 
-    // Filtro por fornecedor
-    const matchesSupplier =
-      selectedSupplier === "all" ||
-      product.suppliers?.id === selectedSupplier;
+  const handleCategoryChange = (value: string) => {
+    setSelectedCategory(value);
+    setPage(0);
+  };
 
-    // Filtro por status
-    const matchesStatus =
-      selectedStatus === "all" ||
-      product.status === selectedStatus;
+  const handleSupplierChange = (value: string) => {
+    setSelectedSupplier(value);
+    setPage(0);
+  };
 
-    return matchesSearch && matchesCategory && matchesSupplier && matchesStatus;
-  });
+  const handleStatusChange = (value: string) => {
+    setSelectedStatus(value);
+    setPage(0);
+  };
 
   const clearFilters = () => {
     setSearchTerm("");
     setSelectedCategory("all");
     setSelectedSupplier("all");
     setSelectedStatus("all");
+    setPage(0);
   };
 
   const hasActiveFilters =
@@ -201,11 +265,11 @@ export default function Products() {
               </p>
               <h1 className="text-3xl font-semibold">Produtos</h1>
               <p className="text-muted-foreground">
-                Gerencie seu catálogo de produtos ({filteredProducts.length} produtos visíveis)
+                Gerencie seu catálogo de produtos ({totalProducts} produtos)
               </p>
             </div>
             <div className="flex gap-2 flex-wrap">
-              <BulkQRPrint products={filteredProducts} />
+              <BulkQRPrint products={products} />
               <Button onClick={() => navigate("/products/new")}>
                 <Plus className="mr-2 h-4 w-4" />
                 Novo Produto
@@ -221,16 +285,16 @@ export default function Products() {
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Buscar produtos..."
+                placeholder="Buscar por nome ou código de barras..."
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                onChange={(e) => handleSearchChange(e.target.value)}
                 className="pl-10"
               />
             </div>
 
             {/* Filtros avançados */}
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
-              <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+              <Select value={selectedCategory} onValueChange={handleCategoryChange}>
                 <SelectTrigger>
                   <SelectValue placeholder="Categoria" />
                 </SelectTrigger>
@@ -244,7 +308,7 @@ export default function Products() {
                 </SelectContent>
               </Select>
 
-              <Select value={selectedSupplier} onValueChange={setSelectedSupplier}>
+              <Select value={selectedSupplier} onValueChange={handleSupplierChange}>
                 <SelectTrigger>
                   <SelectValue placeholder="Fornecedor" />
                 </SelectTrigger>
@@ -258,7 +322,7 @@ export default function Products() {
                 </SelectContent>
               </Select>
 
-              <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+              <Select value={selectedStatus} onValueChange={handleStatusChange}>
                 <SelectTrigger>
                   <SelectValue placeholder="Status" />
                 </SelectTrigger>
@@ -281,7 +345,7 @@ export default function Products() {
 
         {/* Lista de Produtos */}
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {filteredProducts.map((product) => (
+          {products.map((product) => (
             <Card
               key={product.id}
               className="overflow-hidden hover:shadow-xl shadow-md border-primary/10 transition-all cursor-pointer rounded-2xl"
@@ -322,8 +386,14 @@ export default function Products() {
                   )}
                 </div>
 
+                <StockByLocation
+                  balances={balances[product.id] || []}
+                  locations={locations}
+                  compact
+                />
+
                 <div className="flex justify-between items-center pt-2 border-t">
-                  <span className="text-sm">Estoque: {product.current_stock}</span>
+                  <span className="text-sm">Estoque total: {product.current_stock}</span>
                   <span className="font-semibold text-lg text-primary">
                     R$ {Number(product.sale_price).toFixed(2)}
                   </span>
@@ -339,8 +409,18 @@ export default function Products() {
           ))}
         </div>
 
+        {totalProducts > PAGE_SIZE && (
+          <PaginationControls
+            page={page}
+            pageSize={PAGE_SIZE}
+            total={totalProducts}
+            onPageChange={setPage}
+            disabled={loadingProducts}
+          />
+        )}
+
         {/* Estado Vazio */}
-        {filteredProducts.length === 0 && (
+        {products.length === 0 && !loadingProducts && (
           <Card className="p-12">
             <div className="text-center text-muted-foreground space-y-4">
               <Package className="h-16 w-16 mx-auto opacity-50" />
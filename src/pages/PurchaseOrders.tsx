@@ -0,0 +1,424 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PaginationControls } from "@/components/shared/PaginationControls";
+import {
+  PurchaseOrderForm,
+  type PurchaseOrderDraft,
+} from "@/components/purchases/PurchaseOrderForm";
+import {
+  PurchaseReceiveDialog,
+  type ReceivableOrderItem,
+} from "@/components/purchases/PurchaseReceiveDialog";
+import {
+  PurchaseOrderStatusBadge,
+  purchaseOrderStatusLabels,
+} from "@/components/purchases/PurchaseOrderStatusBadge";
+import { printPurchaseOrder } from "@/components/purchases/printPurchaseOrder";
+import { supabase } from "@/integrations/supabase/client";
+import type { PurchaseOrderStatus } from "@/lib/db";
+import { useUserRole } from "@/hooks/use-user-role";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Ban, Loader2, PackageCheck, PackagePlus, Pencil, Plus, Printer, Send } from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+interface PurchaseOrder {
+  id: string;
+  number: number;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  expected_date: string | null;
+  notes: string | null;
+  created_at: string;
+  suppliers: { name: string };
+}
+
+interface PurchaseOrderItem extends ReceivableOrderItem {
+  order_id: string;
+  product_id: string;
+}
+
+const formatCurrency = (value: number) =>
+  `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}`;
+
+export default function PurchaseOrders() {
+  const navigate = useNavigate();
+  const { canPerform } = useUserRole();
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [items, setItems] = useState<Record<string, PurchaseOrderItem[]>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [page, setPage] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [filterStatus, setFilterStatus] = useState<PurchaseOrderStatus | "all">("all");
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrderDraft | null>(null);
+  const [receivingId, setReceivingId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const canManage = canPerform("purchases.manage");
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    loadOrders();
+  }, [page, filterStatus]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadOrders = async () => {
+    try {
+      let query = supabase
+        .from("purchase_orders")
+        .select("id, number, supplier_id, status, expected_date, notes, created_at, suppliers (name)", {
+          count: "exact",
+        })
+        .order("created_at", { ascending: false });
+
+      if (filterStatus !== "all") {
+        query = query.eq("status", filterStatus);
+      }
+
+      const { data, error, count } = await query.range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+      if (error) throw error;
+      setOrders(data || []);
+      setTotal(count || 0);
+
+      const ids = (data || []).map((o) => o.id);
+      if (ids.length === 0) {
+        setItems({});
+        return;
+      }
+
+      const { data: itemData, error: itemError } = await supabase
+        .from("purchase_order_items")
+        .select("id, order_id, product_id, quantity, unit_cost, received_quantity, products (name)")
+        .in("order_id", ids);
+
+      if (itemError) throw itemError;
+      const byOrder: Record<string, PurchaseOrderItem[]> = {};
+      for (const item of itemData || []) {
+        (byOrder[item.order_id] ||= []).push(item);
+      }
+      setItems(byOrder);
+    } catch (error) {
+      console.error("Erro ao carregar pedidos de compra:", error);
+      toast.error("Erro ao carregar pedidos de compra");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStatusChange = (value: string) => {
+    setFilterStatus(value as PurchaseOrderStatus | "all");
+    setPage(0);
+  };
+
+  const handleNew = () => {
+    setEditingOrder(null);
+    setShowForm(true);
+  };
+
+  const handleEdit = (order: PurchaseOrder) => {
+    setEditingOrder({
+      id: order.id,
+      supplier_id: order.supplier_id,
+      expected_date: order.expected_date,
+      notes: order.notes,
+      items: (items[order.id] || []).map(({ product_id, quantity, unit_cost }) => ({
+        product_id,
+        quantity,
+        unit_cost: Number(unit_cost),
+      })),
+    });
+    setShowForm(true);
+  };
+
+  const handleFormSuccess = () => {
+    setShowForm(false);
+    setEditingOrder(null);
+    loadOrders();
+  };
+
+  const runAction = async (
+    order: PurchaseOrder,
+    action: "send" | "cancel",
+    confirmation: string,
+    success: string
+  ) => {
+    if (!confirm(confirmation)) return;
+
+    setBusyId(order.id);
+    try {
+      const { error } = await supabase.purchaseOrders[action](order.id);
+      if (error) throw error;
+      toast.success(success);
+      loadOrders();
+    } catch (error) {
+      console.error("Erro ao atualizar pedido de compra:", error);
+      toast.error("Erro ao atualizar pedido de compra", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePrint = async (order: PurchaseOrder) => {
+    try {
+      await printPurchaseOrder(order.id);
+    } catch (error) {
+      console.error("Erro ao imprimir pedido:", error);
+      toast.error("Erro ao imprimir pedido", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const summarizeItems = (orderId: string) => {
+    const list = items[orderId] || [];
+    const ordered = list.reduce((acc, item) => acc + item.quantity, 0);
+    const received = list.reduce((acc, item) => acc + item.received_quantity, 0);
+    const value = list.reduce((acc, item) => acc + item.quantity * Number(item.unit_cost), 0);
+    return { count: list.length, ordered, received, value };
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-full">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Pedidos de Compra</h1>
+            <p className="text-muted-foreground">
+              Compras aos fornecedores e recebimento da mercadoria
+            </p>
+          </div>
+          {canManage && (
+            <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+              <Button variant="outline" onClick={() => navigate("/reorder")}>
+                <PackagePlus className="mr-2 h-4 w-4" />
+                Sugestões de Reposição
+              </Button>
+              <Button onClick={handleNew}>
+                <Plus className="mr-2 h-4 w-4" />
+                Novo Pedido
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Filtro */}
+        <Card className="p-4">
+          <Select value={filterStatus} onValueChange={handleStatusChange}>
+            <SelectTrigger className="w-full sm:w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os status</SelectItem>
+              {Object.entries(purchaseOrderStatusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Card>
+
+        {/* Lista */}
+        <Card>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nº</TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Fornecedor</TableHead>
+                  <TableHead>Previsão</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead className="text-right">Recebido</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                      Nenhum pedido de compra encontrado
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  orders.map((order) => {
+                    const summary = summarizeItems(order.id);
+                    const isBusy = busyId === order.id;
+
+                    return (
+                      <TableRow key={order.id}>
+                        <TableCell className="font-medium">#{order.number}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(order.created_at), "dd/MM/yyyy", { locale: ptBR })}
+                        </TableCell>
+                        <TableCell>{order.suppliers?.name}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {order.expected_date
+                            ? format(new Date(`${order.expected_date}T00:00:00`), "dd/MM/yyyy", {
+                                locale: ptBR,
+                              })
+                            : "—"}
+                        </TableCell>
+                        <TableCell>
+                          <PurchaseOrderStatusBadge status={order.status} />
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {formatCurrency(summary.value)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {order.status === "rascunho" || order.status === "cancelado"
+                            ? "—"
+                            : `${summary.received}/${summary.ordered}`}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Imprimir / PDF"
+                              onClick={() => handlePrint(order)}
+                            >
+                              <Printer className="h-4 w-4" />
+                            </Button>
+                            {canManage && order.status === "rascunho" && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Editar"
+                                  onClick={() => handleEdit(order)}
+                                  disabled={isBusy}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Marcar como enviado"
+                                  onClick={() =>
+                                    runAction(
+                                      order,
+                                      "send",
+                                      "Marcar o pedido como enviado ao fornecedor? Ele não poderá mais ser editado.",
+                                      "Pedido enviado!"
+                                    )
+                                  }
+                                  disabled={isBusy}
+                                >
+                                  <Send className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
+                            {canManage && (order.status === "rascunho" || order.status === "enviado") && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Cancelar pedido"
+                                onClick={() =>
+                                  runAction(order, "cancel", "Cancelar este pedido de compra?", "Pedido cancelado")
+                                }
+                                disabled={isBusy}
+                              >
+                                <Ban className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                            {canManage &&
+                              (order.status === "enviado" || order.status === "parcialmente_recebido") && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setReceivingId(order.id)}
+                                >
+                                  <PackageCheck className="mr-2 h-4 w-4" />
+                                  Receber
+                                </Button>
+                              )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+
+        {total > PAGE_SIZE && (
+          <PaginationControls page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        )}
+
+        {/* Dialog de Criar/Editar */}
+        <Dialog open={showForm} onOpenChange={setShowForm}>
+          <DialogContent className="w-[95vw] sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingOrder ? "Editar Pedido de Compra" : "Novo Pedido de Compra"}</DialogTitle>
+              <DialogDescription>
+                O estoque e o custo dos produtos só mudam quando a mercadoria é recebida
+              </DialogDescription>
+            </DialogHeader>
+            <PurchaseOrderForm
+              key={editingOrder?.id || "new"}
+              order={editingOrder}
+              onSuccess={handleFormSuccess}
+              onCancel={() => setShowForm(false)}
+            />
+          </DialogContent>
+        </Dialog>
+
+        <PurchaseReceiveDialog
+          orderId={receivingId}
+          items={receivingId ? items[receivingId] || [] : []}
+          onOpenChange={(open) => !open && setReceivingId(null)}
+          onSuccess={loadOrders}
+        />
+      </div>
+    </Layout>
+  );
+}
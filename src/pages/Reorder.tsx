@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { ReorderSuggestionsResult, SupplierReorderSuggestions } from "@/lib/db";
+import { useUserRole } from "@/hooks/use-user-role";
+import { toast } from "sonner";
+import { ClipboardList, Loader2, RefreshCw, ShoppingCart, Truck } from "lucide-react";
+
+type Options = ReorderSuggestionsResult["options"];
+
+const DEFAULT_OPTIONS: Options = { history_days: 30, safety_days: 7, coverage_days: 30 };
+
+const formatCurrency = (value: number) =>
+  `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}`;
+
+const formatNumber = (value: number) =>
+  value.toLocaleString("pt-BR", { maximumFractionDigits: 2 });
+
+export default function Reorder() {
+  const navigate = useNavigate();
+  const { canPerform } = useUserRole();
+  const [options, setOptions] = useState<Options>(DEFAULT_OPTIONS);
+  const [groups, setGroups] = useState<SupplierReorderSuggestions[]>([]);
+  // Quantidades ajustadas pelo usuário, por produto
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [creatingFor, setCreatingFor] = useState<string | null>(null);
+
+  const canManage = canPerform("purchases.manage");
+
+  useEffect(() => {
+    checkAuth();
+    loadSuggestions();
+  }, []);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadSuggestions = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.replenishment.suggestions(options);
+      if (error) throw error;
+      setGroups(data?.suppliers || []);
+      setQuantities(
+        Object.fromEntries(
+          (data?.suppliers || []).flatMap((group) =>
+            group.items.map((item) => [item.product_id, item.quantity])
+          )
+        )
+      );
+    } catch (error) {
+      console.error("Erro ao calcular sugestões de reposição:", error);
+      toast.error("Erro ao calcular sugestões de reposição", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateOption = (key: keyof Options, value: string) =>
+    setOptions((current) => ({ ...current, [key]: parseInt(value) || 0 }));
+
+  const groupTotal = (group: SupplierReorderSuggestions) =>
+    group.items.reduce(
+      (acc, item) => acc + (quantities[item.product_id] || 0) * item.unit_cost,
+      0
+    );
+
+  const handleCreateOrder = async (group: SupplierReorderSuggestions) => {
+    if (!group.supplier_id) return;
+
+    const items = group.items
+      .filter((item) => (quantities[item.product_id] || 0) > 0)
+      .map((item) => ({
+        product_id: item.product_id,
+        quantity: quantities[item.product_id],
+        unit_cost: item.unit_cost,
+      }));
+
+    if (items.length === 0) {
+      toast.error("Informe ao menos uma quantidade para o pedido");
+      return;
+    }
+
+    setCreatingFor(group.supplier_id);
+    try {
+      const { error } = await supabase.purchaseOrders.save({
+        supplier_id: group.supplier_id,
+        notes: "Gerado a partir das sugestões de reposição",
+        items,
+      });
+      if (error) throw error;
+
+      toast.success(`Rascunho de pedido criado para ${group.supplier_name}`, {
+        action: { label: "Ver pedidos", onClick: () => navigate("/purchase-orders") },
+      });
+      // O pedido novo passa a contar como estoque a caminho
+      loadSuggestions();
+    } catch (error) {
+      console.error("Erro ao criar pedido de compra:", error);
+      toast.error("Erro ao criar pedido de compra", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setCreatingFor(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Sugestões de Reposição</h1>
+            <p className="text-muted-foreground">
+              Calculadas pelo consumo médio, prazo de entrega do fornecedor e estoque de segurança
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => navigate("/purchase-orders")}>
+            <ClipboardList className="mr-2 h-4 w-4" />
+            Pedidos de Compra
+          </Button>
+        </div>
+
+        {/* Parâmetros */}
+        <Card className="p-4">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="history_days">Histórico de consumo (dias)</Label>
+              <Input
+                id="history_days"
+                type="number"
+                min="7"
+                max="365"
+                value={options.history_days}
+                onChange={(e) => updateOption("history_days", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="safety_days">Estoque de segurança (dias)</Label>
+              <Input
+                id="safety_days"
+                type="number"
+                min="0"
+                max="180"
+                value={options.safety_days}
+                onChange={(e) => updateOption("safety_days", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="coverage_days">Cobertura do pedido (dias)</Label>
+              <Input
+                id="coverage_days"
+                type="number"
+                min="1"
+                max="365"
+                value={options.coverage_days}
+                onChange={(e) => updateOption("coverage_days", e.target.value)}
+              />
+            </div>
+            <Button onClick={loadSuggestions} disabled={isLoading}>
+              {isLoading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              Recalcular
+            </Button>
+          </div>
+        </Card>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : groups.length === 0 ? (
+          <Card className="p-8 text-center text-muted-foreground">
+            Nenhum produto precisa de reposição no momento
+          </Card>
+        ) : (
+          groups.map((group) => (
+            <Card key={group.supplier_id ?? "sem-fornecedor"}>
+              <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Truck className="h-5 w-5" />
+                    {group.supplier_name || "Sem fornecedor"}
+                  </CardTitle>
+                  <CardDescription>
+                    {group.supplier_id
+                      ? `Prazo de entrega: ${group.lead_time_days} dias · Total sugerido: ${formatCurrency(groupTotal(group))}`
+                      : "Vincule um fornecedor a estes produtos para gerar pedidos de compra"}
+                  </CardDescription>
+                </div>
+                {canManage && group.supplier_id && (
+                  <Button
+                    onClick={() => handleCreateOrder(group)}
+                    disabled={creatingFor !== null}
+                    className="w-full sm:w-auto"
+                  >
+                    {creatingFor === group.supplier_id ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <ShoppingCart className="mr-2 h-4 w-4" />
+                    )}
+                    Criar Pedido
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Produto</TableHead>
+                        <TableHead className="text-right">Estoque</TableHead>
+                        <TableHead className="text-right">A caminho</TableHead>
+                        <TableHead className="text-right">Consumo/dia</TableHead>
+                        <TableHead className="text-right">Dura (dias)</TableHead>
+                        <TableHead className="text-right">Segurança</TableHead>
+                        <TableHead className="text-right">Ponto de pedido</TableHead>
+                        <TableHead className="text-right">Quantidade</TableHead>
+                        <TableHead className="text-right">Custo</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.items.map((item) => {
+                        const quantity = quantities[item.product_id] || 0;
+                        return (
+                          <TableRow key={item.product_id}>
+                            <TableCell className="font-medium">{item.name}</TableCell>
+                            <TableCell className="text-right">{item.current_stock}</TableCell>
+                            <TableCell className="text-right">{item.on_order || "—"}</TableCell>
+                            <TableCell className="text-right">
+                              {formatNumber(item.daily_consumption)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {item.days_of_stock ?? "—"}
+                            </TableCell>
+                            <TableCell className="text-right">{item.safety_stock}</TableCell>
+                            <TableCell className="text-right">{item.reorder_point}</TableCell>
+                            <TableCell className="text-right">
+                              {canManage && group.supplier_id ? (
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  className="w-24 ml-auto text-right"
+                                  value={quantity}
+                                  onChange={(e) =>
+                                    setQuantities((current) => ({
+                                      ...current,
+                                      [item.product_id]: Math.max(parseInt(e.target.value) || 0, 0),
+                                    }))
+                                  }
+                                  title={`Sugerido: ${item.quantity}`}
+                                />
+                              ) : (
+                                item.quantity
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right whitespace-nowrap">
+                              {formatCurrency(quantity * item.unit_cost)}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -1,33 +1,290 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, subDays } from "date-fns";
 import { Layout } from "@/components/Layout";
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Download, BarChart3 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { LossReport, LossTotals } from "@/lib/db";
+import { toast } from "sonner";
+import { Download, Loader2, RefreshCw } from "lucide-react";
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+const formatCurrency = (value: number) =>
+  `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const typeLabels: Record<string, string> = {
+  entrada: "Entrada",
+  saida: "Saída",
+  ajuste: "Ajuste",
+  inventario: "Inventário",
+};
+
+// "2025-03" → "03/2025"
+const formatMonth = (month: string) => month.split("-").reverse().join("/");
+
+// Campos entre aspas, separados por ";" para abrir direto no Excel em pt-BR
+const toCsv = (rows: (string | number)[][]) =>
+  rows
+    .map((row) =>
+      row
+        .map((cell) =>
+          typeof cell === "number"
+            ? cell.toLocaleString("pt-BR", { maximumFractionDigits: 2, useGrouping: false })
+            : `"${cell.replace(/"/g, '""')}"`
+        )
+        .join(";")
+    )
+    .join("\n");
+
+interface LossTableProps {
+  title: string;
+  label: string;
+  rows: (LossTotals & { key: string; name: string })[];
+  total: number;
+}
+
+function LossTable({ title, label, rows, total }: LossTableProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{label}</TableHead>
+                <TableHead className="text-right">Qtd</TableHead>
+                <TableHead className="text-right">Custo</TableHead>
+                <TableHead className="text-right">%</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                    Nenhuma perda no período
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((row) => (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell className="text-right">{row.quantity}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatCurrency(row.cost)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {total > 0 ? `${Math.round((row.cost / total) * 100)}%` : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function Reports() {
+  const navigate = useNavigate();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [dateFrom, setDateFrom] = useState(format(subDays(new Date(), 30), "yyyy-MM-dd"));
+  const [dateTo, setDateTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [categoryId, setCategoryId] = useState("all");
+  const [report, setReport] = useState<LossReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    checkAuth();
+    loadCategories();
+    loadReport();
+  }, []);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadCategories = async () => {
+    try {
+      const { data, error } = await supabase.from("categories").select("id, name").order("name");
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error("Erro ao carregar categorias:", error);
+    }
+  };
+
+  const loadReport = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.reports.losses({
+        date_from: dateFrom,
+        date_to: dateTo,
+        category_id: categoryId === "all" ? undefined : categoryId,
+      });
+      if (error) throw error;
+      setReport(data);
+    } catch (error) {
+      console.error("Erro ao carregar relatório de perdas:", error);
+      toast.error("Erro ao carregar relatório de perdas", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const byReason = (report?.by_reason || []).map((row) => ({
+    ...row,
+    key: row.reason_id || "inventario",
+    name: `${row.reason_name} (${typeLabels[row.movement_type]})`,
+  }));
+  const byCategory = (report?.by_category || []).map((row) => ({
+    ...row,
+    key: row.category_id || "none",
+    name: row.category_name || "Sem categoria",
+  }));
+  const byMonth = (report?.by_month || []).map((row) => ({
+    ...row,
+    key: row.month,
+    name: formatMonth(row.month),
+  }));
+
+  const handleExport = () => {
+    if (!report) return;
+
+    const section = (title: string, rows: (LossTotals & { name: string })[]) => [
+      [title, "Quantidade", "Custo"],
+      ...rows.map((row) => [row.name, row.quantity, row.cost]),
+      [],
+    ];
+    const csv = toCsv([
+      ["Perdas de", report.filters.date_from, "a", report.filters.date_to],
+      [],
+      ...section("Motivo", byReason),
+      ...section("Categoria", byCategory),
+      ...section("Mês", byMonth),
+      ["Total", report.total_quantity, report.total_cost],
+    ]);
+
+    // BOM para o Excel reconhecer UTF-8
+    const blob = new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `perdas-${report.filters.date_from}-${report.filters.date_to}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
   return (
     <Layout>
-      <div className="space-y-6 max-w-5xl mx-auto">
-        <Card className="border-primary/10 shadow-lg shadow-primary/10 bg-gradient-to-r from-primary/10 via-white to-accent/10">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <BarChart3 className="h-5 w-5" />
-              Relatórios
-            </CardTitle>
-            <CardDescription>
-              Área reservada para relatórios. Em breve traremos exportações e dashboards adicionais.
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="flex gap-3 flex-wrap">
-            <Button variant="secondary" disabled>
-              <Download className="h-4 w-4 mr-2" />
-              Exportar CSV (em breve)
-            </Button>
-            <Button variant="outline" disabled>
-              <BarChart3 className="h-4 w-4 mr-2" />
-              Visualizar dashboard (em breve)
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Relatório de Perdas</h1>
+            <p className="text-muted-foreground">
+              Saídas e ajustes com motivo de perda, valorizados pelo custo na data da movimentação
+            </p>
+          </div>
+          <Button variant="outline" onClick={handleExport} disabled={!report || isLoading}>
+            <Download className="mr-2 h-4 w-4" />
+            Exportar CSV
+          </Button>
+        </div>
+
+        {/* Filtros */}
+        <Card className="p-4">
+          <div className="grid gap-4 sm:grid-cols-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="date-from">De</Label>
+              <Input id="date-from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="date-to">Até</Label>
+              <Input id="date-to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Categoria</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas as categorias</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={loadReport} disabled={isLoading}>
+              {isLoading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              Atualizar
             </Button>
-          </CardContent>
+          </div>
         </Card>
+
+        {isLoading && !report ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          report && (
+            <>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Card className="p-4">
+                  <p className="text-sm text-muted-foreground">Unidades perdidas</p>
+                  <p className="text-2xl font-bold">{report.total_quantity}</p>
+                </Card>
+                <Card className="p-4">
+                  <p className="text-sm text-muted-foreground">Perda a custo</p>
+                  <p className="text-2xl font-bold text-destructive">{formatCurrency(report.total_cost)}</p>
+                </Card>
+              </div>
+
+              <div className="grid gap-6 lg:grid-cols-2">
+                <LossTable title="Por motivo" label="Motivo" rows={byReason} total={report.total_cost} />
+                <LossTable title="Por categoria" label="Categoria" rows={byCategory} total={report.total_cost} />
+              </div>
+
+              <LossTable title="Por mês" label="Mês" rows={byMonth} total={report.total_cost} />
+            </>
+          )
+        )}
       </div>
     </Layout>
   );
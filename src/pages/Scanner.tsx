@@ -4,8 +4,14 @@ import { Layout } from "@/components/Layout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { BatchScanner } from "@/components/scanner/BatchScanner";
 import { QRScanner } from "@/components/scanner/QRScanner";
+import { findProductByCode } from "@/components/scanner/findProductByCode";
 import { supabase } from "@/integrations/supabase/client";
+import { parseGs1 } from "@/lib/barcodes";
+import { useKeyboardScanner } from "@/hooks/use-keyboard-scanner";
+import { useUserRole } from "@/hooks/use-user-role";
 import { toast } from "sonner";
 import {
   Package,
@@ -15,6 +21,8 @@ import {
   Minus,
   Eye,
   Info,
+  Store,
+  CalendarClock,
 } from "lucide-react";
 
 interface ScannedProduct {
@@ -31,9 +39,17 @@ interface ScannedProduct {
   suppliers?: { name: string };
 }
 
+// Lote e validade lidos de um código GS1, levados para a entrada
+interface ScannedLot {
+  lot_number: string | null;
+  expiration_date: string | null;
+}
+
 export default function Scanner() {
   const navigate = useNavigate();
+  const { canPerform } = useUserRole();
   const [scannedProduct, setScannedProduct] = useState<ScannedProduct | null>(null);
+  const [scannedLot, setScannedLot] = useState<ScannedLot | null>(null);
   const [isLoadingProduct, setIsLoadingProduct] = useState(false);
 
   useEffect(() => {
@@ -47,10 +63,25 @@ export default function Scanner() {
     }
   };
 
-  const handleScan = async (qrCode: string) => {
+  const handleScan = async (code: string) => {
     setIsLoadingProduct(true);
+    const gs1 = parseGs1(code);
+    setScannedLot(
+      gs1 && (gs1.lot_number || gs1.expiration_date)
+        ? { lot_number: gs1.lot_number, expiration_date: gs1.expiration_date }
+        : null
+    );
 
     try {
+      const found = await findProductByCode(code);
+      if (!found) {
+        toast.error("Produto não encontrado", {
+          description: "Este código não está cadastrado no sistema",
+        });
+        setScannedProduct(null);
+        return;
+      }
+
       const { data, error } = await supabase
         .from("products")
         .select(`
@@ -58,20 +89,10 @@ export default function Scanner() {
           categories (name),
           suppliers (name)
         `)
-        .eq("qr_code", qrCode)
+        .eq("id", found.id)
         .single();
 
-      if (error) {
-        if (error.code === "PGRST116") {
-          toast.error("Produto não encontrado", {
-            description: "Este QR Code não está cadastrado no sistema",
-          });
-        } else {
-          throw error;
-        }
-        setScannedProduct(null);
-        return;
-      }
+      if (error) throw error;
 
       setScannedProduct(data);
       toast.success("Produto encontrado!", {
@@ -86,6 +107,9 @@ export default function Scanner() {
     }
   };
 
+  // Leitor USB/Bluetooth: na aba "Em lote" quem recebe é o BatchScanner
+  useKeyboardScanner(handleScan);
+
   const handleError = (errorMessage: string) => {
     console.error("Scanner error:", errorMessage);
   };
@@ -108,202 +132,249 @@ export default function Scanner() {
     <Layout>
       <div className="space-y-6">
         {/* Header */}
-        <div>
-          <h1 className="text-3xl font-bold">Scanner QR Code</h1>
-          <p className="text-muted-foreground">
-            Escaneie produtos para consulta rápida e movimentações
-          </p>
-        </div>
-
-        <div className="grid gap-6 lg:grid-cols-2">
-          {/* Scanner */}
-          <div className="space-y-4">
-            <QRScanner onScan={handleScan} onError={handleError} />
-
-            {/* Card de Instruções */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Info className="h-5 w-5" />
-                  Funcionalidades
-                </CardTitle>
-                <CardDescription>O que você pode fazer com o scanner</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
-                    <li>Consulta rápida de informações do produto</li>
-                    <li>Registro de entrada/saída de estoque</li>
-                    <li>Verificação de validade e lote</li>
-                    <li>Acesso direto aos detalhes completos</li>
-                  </ul>
-                </div>
-                <div className="space-y-2 pt-4 border-t">
-                  <h4 className="font-semibold text-sm">Dicas:</h4>
-                  <ul className="list-disc list-inside space-y-1 text-xs text-muted-foreground">
-                    <li>Mantenha o código QR limpo e visível</li>
-                    <li>Use boa iluminação para melhor leitura</li>
-                    <li>Posicione o QR Code dentro da área marcada</li>
-                  </ul>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-
-          {/* Resultado do Scan */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <div>
-            {isLoadingProduct && (
-              <Card className="p-8">
-                <div className="text-center text-muted-foreground">
-                  <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-current border-r-transparent mb-4"></div>
-                  <p>Buscando produto...</p>
-                </div>
-              </Card>
-            )}
+            <h1 className="text-3xl font-bold">Scanner QR Code</h1>
+            <p className="text-muted-foreground">
+              Escaneie produtos para consulta rápida e movimentações
+            </p>
+          </div>
+          {canPerform("sales.create") && (
+            <Button variant="outline" onClick={() => navigate("/checkout")}>
+              <Store className="mr-2 h-4 w-4" />
+              Modo Caixa
+            </Button>
+          )}
+        </div>
 
-            {!isLoadingProduct && !scannedProduct && (
-              <Card className="p-12">
-                <div className="text-center text-muted-foreground space-y-3">
-                  <Package className="h-16 w-16 mx-auto opacity-50" />
-                  <div>
-                    <p className="text-lg font-medium">Nenhum produto escaneado</p>
-                    <p className="text-sm">
-                      Ative o scanner e aponte para um QR Code
-                    </p>
-                  </div>
-                </div>
-              </Card>
-            )}
+        <Tabs defaultValue="lookup">
+          <TabsList>
+            <TabsTrigger value="lookup">Consulta</TabsTrigger>
+            {canPerform("movements.create") && <TabsTrigger value="batch">Em lote</TabsTrigger>}
+          </TabsList>
+          <TabsContent value="lookup" className="mt-6">
+            <div className="grid gap-6 lg:grid-cols-2">
+              {/* Scanner */}
+              <div className="space-y-4">
+                <QRScanner onScan={handleScan} onError={handleError} />
 
-            {!isLoadingProduct && scannedProduct && (
-              <Card className="overflow-hidden">
-                <CardHeader className="pb-3">
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="flex-1">
-                      <CardTitle className="text-2xl mb-2">
-                        {scannedProduct.name}
-                      </CardTitle>
-                      {scannedProduct.description && (
-                        <CardDescription className="text-sm">
-                          {scannedProduct.description}
-                        </CardDescription>
-                      )}
+                {/* Card de Instruções */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Info className="h-5 w-5" />
+                      Funcionalidades
+                    </CardTitle>
+                    <CardDescription>O que você pode fazer com o scanner</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
+                        <li>Consulta rápida de informações do produto</li>
+                        <li>Registro de entrada/saída de estoque</li>
+                        <li>Verificação de validade e lote</li>
+                        <li>Acesso direto aos detalhes completos</li>
+                      </ul>
                     </div>
-                    <div className="flex flex-col gap-2">
-                      {stockStatus && (
-                        <Badge variant={stockStatus.variant}>
-                          {stockStatus.label}
-                        </Badge>
-                      )}
-                      <Badge variant={scannedProduct.status === "ativo" ? "default" : "secondary"}>
-                        {scannedProduct.status === "ativo" ? "Ativo" : "Inativo"}
-                      </Badge>
+                    <div className="space-y-2 pt-4 border-t">
+                      <h4 className="font-semibold text-sm">Dicas:</h4>
+                      <ul className="list-disc list-inside space-y-1 text-xs text-muted-foreground">
+                        <li>Mantenha o código QR limpo e visível</li>
+                        <li>Use boa iluminação para melhor leitura</li>
+                        <li>Posicione o QR Code dentro da área marcada</li>
+                      </ul>
                     </div>
-                  </div>
-                </CardHeader>
+                  </CardContent>
+                </Card>
+              </div>
 
-                {scannedProduct.image_url && (
-                  <div className="aspect-video bg-muted overflow-hidden">
-                    <img
-                      src={scannedProduct.image_url}
-                      alt={scannedProduct.name}
-                      className="w-full h-full object-cover"
-                    />
-                  </div>
-                )}
-
-                <CardContent className="space-y-6 pt-6">
-                  {/* Informações Gerais */}
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <p className="text-sm text-muted-foreground">Categoria</p>
-                      <p className="font-medium">
-                        {scannedProduct.categories?.name || "Não definida"}
-                      </p>
-                    </div>
-                    <div>
-                      <p className="text-sm text-muted-foreground">Fornecedor</p>
-                      <p className="font-medium">
-                        {scannedProduct.suppliers?.name || "Não definido"}
-                      </p>
+              {/* Resultado do Scan */}
+              <div>
+                {isLoadingProduct && (
+                  <Card className="p-8">
+                    <div className="text-center text-muted-foreground">
+                      <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-current border-r-transparent mb-4"></div>
+                      <p>Buscando produto...</p>
                     </div>
-                  </div>
+                  </Card>
+                )}
 
-                  {/* Estoque */}
-                  <div className="space-y-2 p-4 bg-muted rounded-lg">
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <Package className="h-4 w-4" />
-                      <span>Estoque</span>
-                    </div>
-                    <div className="flex justify-between items-end">
+                {!isLoadingProduct && !scannedProduct && (
+                  <Card className="p-12">
+                    <div className="text-center text-muted-foreground space-y-3">
+                      <Package className="h-16 w-16 mx-auto opacity-50" />
                       <div>
-                        <p className="text-3xl font-bold">
-                          {scannedProduct.current_stock}
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          Mínimo: {scannedProduct.minimum_stock}
+                        <p className="text-lg font-medium">Nenhum produto escaneado</p>
+                        <p className="text-sm">
+                          Ative o scanner e aponte para um QR Code
                         </p>
                       </div>
                     </div>
-                  </div>
+                  </Card>
+                )}
 
-                  {/* Preços */}
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-1">
-                      <p className="text-sm text-muted-foreground flex items-center gap-1">
-                        <DollarSign className="h-4 w-4" />
-                        Preço de Custo
-                      </p>
-                      <p className="text-xl font-bold">
-                        R$ {scannedProduct.cost_price.toFixed(2)}
-                      </p>
-                    </div>
-                    <div className="space-y-1">
-                      <p className="text-sm text-muted-foreground flex items-center gap-1">
-                        <DollarSign className="h-4 w-4" />
-                        Preço de Venda
-                      </p>
-                      <p className="text-xl font-bold text-green-600">
-                        R$ {Number(scannedProduct.sale_price).toFixed(2)}
-                      </p>
-                    </div>
-                  </div>
+                {!isLoadingProduct && scannedProduct && (
+                  <Card className="overflow-hidden">
+                    <CardHeader className="pb-3">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex-1">
+                          <CardTitle className="text-2xl mb-2">
+                            {scannedProduct.name}
+                          </CardTitle>
+                          {scannedProduct.description && (
+                            <CardDescription className="text-sm">
+                              {scannedProduct.description}
+                            </CardDescription>
+                          )}
+                        </div>
+                        <div className="flex flex-col gap-2">
+                          {stockStatus && (
+                            <Badge variant={stockStatus.variant}>
+                              {stockStatus.label}
+                            </Badge>
+                          )}
+                          <Badge variant={scannedProduct.status === "ativo" ? "default" : "secondary"}>
+                            {scannedProduct.status === "ativo" ? "Ativo" : "Inativo"}
+                          </Badge>
+                        </div>
+                      </div>
+                    </CardHeader>
 
-                  {/* Ações */}
-                  <div className="space-y-2 pt-4 border-t">
-                    <Button
-                      onClick={() => navigate(`/products/${scannedProduct.id}`)}
-                      className="w-full"
-                    >
-                      <Eye className="mr-2 h-4 w-4" />
-                      Ver Detalhes Completos
-                    </Button>
-                    <div className="grid grid-cols-2 gap-2">
-                      <Button
-                        onClick={() => navigate("/movements", {
-                          state: { productId: scannedProduct.id, type: "entrada" }
-                        })}
-                        variant="outline"
-                      >
-                        <Plus className="mr-2 h-4 w-4" />
-                        Entrada
-                      </Button>
-                      <Button
-                        onClick={() => navigate("/movements", {
-                          state: { productId: scannedProduct.id, type: "saida" }
-                        })}
-                        variant="outline"
-                      >
-                        <Minus className="mr-2 h-4 w-4" />
-                        Saída
-                      </Button>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            )}
-          </div>
-        </div>
+                    {scannedProduct.image_url && (
+                      <div className="aspect-video bg-muted overflow-hidden">
+                        <img
+                          src={scannedProduct.image_url}
+                          alt={scannedProduct.name}
+                          className="w-full h-full object-cover"
+                        />
+                      </div>
+                    )}
+
+                    <CardContent className="space-y-6 pt-6">
+                      {/* Informações Gerais */}
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <p className="text-sm text-muted-foreground">Categoria</p>
+                          <p className="font-medium">
+                            {scannedProduct.categories?.name || "Não definida"}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground">Fornecedor</p>
+                          <p className="font-medium">
+                            {scannedProduct.suppliers?.name || "Não definido"}
+                          </p>
+                        </div>
+                      </div>
+
+                      {/* Estoque */}
+                      <div className="space-y-2 p-4 bg-muted rounded-lg">
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Package className="h-4 w-4" />
+                          <span>Estoque</span>
+                        </div>
+                        <div className="flex justify-between items-end">
+                          <div>
+                            <p className="text-3xl font-bold">
+                              {scannedProduct.current_stock}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              Mínimo: {scannedProduct.minimum_stock}
+                            </p>
+                          </div>
+                        </div>
+                      </div>
+
+                      {/* Lote e validade do código GS1 */}
+                      {scannedLot && (
+                        <div className="grid grid-cols-2 gap-4 p-4 border rounded-lg">
+                          <div>
+                            <p className="text-sm text-muted-foreground">Lote</p>
+                            <p className="font-medium">{scannedLot.lot_number || "-"}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-muted-foreground flex items-center gap-1">
+                              <CalendarClock className="h-4 w-4" />
+                              Validade
+                            </p>
+                            <p className="font-medium">
+                              {scannedLot.expiration_date
+                                ? new Date(`${scannedLot.expiration_date}T00:00:00`).toLocaleDateString("pt-BR")
+                                : "-"}
+                            </p>
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Preços */}
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-1">
+                          <p className="text-sm text-muted-foreground flex items-center gap-1">
+                            <DollarSign className="h-4 w-4" />
+                            Preço de Custo
+                          </p>
+                          <p className="text-xl font-bold">
+                            R$ {scannedProduct.cost_price.toFixed(2)}
+                          </p>
+                        </div>
+                        <div className="space-y-1">
+                          <p className="text-sm text-muted-foreground flex items-center gap-1">
+                            <DollarSign className="h-4 w-4" />
+                            Preço de Venda
+                          </p>
+                          <p className="text-xl font-bold text-green-600">
+                            R$ {Number(scannedProduct.sale_price).toFixed(2)}
+                          </p>
+                        </div>
+                      </div>
+
+                      {/* Ações */}
+                      <div className="space-y-2 pt-4 border-t">
+                        <Button
+                          onClick={() => navigate(`/products/${scannedProduct.id}`)}
+                          className="w-full"
+                        >
+                          <Eye className="mr-2 h-4 w-4" />
+                          Ver Detalhes Completos
+                        </Button>
+                        <div className="grid grid-cols-2 gap-2">
+                          <Button
+                            onClick={() => navigate("/movements", {
+                              state: {
+                                productId: scannedProduct.id,
+                                type: "entrada",
+                                lotNumber: scannedLot?.lot_number || undefined,
+                                expirationDate: scannedLot?.expiration_date || undefined,
+                              }
+                            })}
+                            variant="outline"
+                          >
+                            <Plus className="mr-2 h-4 w-4" />
+                            Entrada
+                          </Button>
+                          <Button
+                            onClick={() => navigate("/movements", {
+                              state: { productId: scannedProduct.id, type: "saida" }
+                            })}
+                            variant="outline"
+                          >
+                            <Minus className="mr-2 h-4 w-4" />
+                            Saída
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+          {canPerform("movements.create") && (
+            <TabsContent value="batch" className="mt-6">
+              <BatchScanner />
+            </TabsContent>
+          )}
+        </Tabs>
       </div>
     </Layout>
   );
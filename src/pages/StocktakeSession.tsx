@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { StocktakeCounter, type StocktakeItem } from "@/components/stocktakes/StocktakeCounter";
+import { StocktakeReview } from "@/components/stocktakes/StocktakeReview";
+import { StocktakeStatusBadge } from "@/components/stocktakes/StocktakeStatusBadge";
+import { supabase } from "@/integrations/supabase/client";
+import type { StocktakeStatus } from "@/lib/db";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import { useUserRole } from "@/hooks/use-user-role";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ArrowLeft, Ban, Loader2 } from "lucide-react";
+
+interface Stocktake {
+  id: string;
+  number: number;
+  location_id: string;
+  status: StocktakeStatus;
+  notes: string | null;
+  created_at: string;
+  approved_at: string | null;
+  categories: { name: string } | null;
+}
+
+export default function StocktakeSession() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { canPerform } = useUserRole();
+  const { locations } = useLocations();
+  const [stocktake, setStocktake] = useState<Stocktake | null>(null);
+  const [items, setItems] = useState<StocktakeItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const canCount = canPerform("stocktakes.count");
+  const canApprove = canPerform("stocktakes.approve");
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    if (id) loadStocktake();
+  }, [id]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadStocktake = async () => {
+    try {
+      const [stocktakeResult, itemsResult] = await Promise.all([
+        supabase
+          .from("stocktakes")
+          .select("id, number, location_id, status, notes, created_at, approved_at, categories (name)")
+          .eq("id", id!)
+          .single(),
+        supabase
+          .from("stocktake_items")
+          .select("id, product_id, counted_quantity, counted_at, products (name, cost_price)")
+          .eq("stocktake_id", id!),
+      ]);
+
+      if (stocktakeResult.error) throw stocktakeResult.error;
+      if (itemsResult.error) throw itemsResult.error;
+      setStocktake(stocktakeResult.data);
+      setItems(itemsResult.data || []);
+    } catch (error) {
+      console.error("Erro ao carregar inventário:", error);
+      toast.error("Erro ao carregar inventário");
+      navigate("/stocktakes");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCounted = (counted: { id: string; counted_quantity: number | null; counted_at: string | null }) =>
+    setItems((current) =>
+      current.map((item) =>
+        item.id === counted.id
+          ? { ...item, counted_quantity: counted.counted_quantity, counted_at: counted.counted_at }
+          : item
+      )
+    );
+
+  const handleCancel = async () => {
+    if (!stocktake || !confirm("Cancelar este inventário? As contagens serão descartadas.")) return;
+
+    setIsCancelling(true);
+    try {
+      const { error } = await supabase.stocktakes.cancel(stocktake.id);
+      if (error) throw error;
+      toast.success("Inventário cancelado");
+      loadStocktake();
+    } catch (error) {
+      console.error("Erro ao cancelar inventário:", error);
+      toast.error("Erro ao cancelar inventário", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  if (isLoading || !stocktake) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-full">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  const location = locations.find((l) => l.id === stocktake.location_id);
+  const isOpen = stocktake.status === "em_contagem";
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div className="space-y-1">
+            <Button variant="ghost" size="sm" className="-ml-2" onClick={() => navigate("/stocktakes")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Inventários
+            </Button>
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              Inventário #{stocktake.number}
+              <StocktakeStatusBadge status={stocktake.status} />
+            </h1>
+            <p className="text-muted-foreground">
+              {location ? locationLabel(location) : "—"} · {stocktake.categories?.name || "Todas as categorias"} ·
+              aberto em {format(new Date(stocktake.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+            </p>
+            {stocktake.notes && <p className="text-sm text-muted-foreground">{stocktake.notes}</p>}
+          </div>
+          {isOpen && canCount && (
+            <Button variant="outline" onClick={handleCancel} disabled={isCancelling}>
+              {isCancelling ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Ban className="mr-2 h-4 w-4" />
+              )}
+              Cancelar Inventário
+            </Button>
+          )}
+        </div>
+
+        {/* Quem só conta não vê a revisão: a contagem continua cega */}
+        {isOpen && canCount && !canApprove ? (
+          <StocktakeCounter stocktakeId={stocktake.id} items={items} onCounted={handleCounted} />
+        ) : isOpen && canCount ? (
+          <Tabs defaultValue="count">
+            <TabsList>
+              <TabsTrigger value="count">Contagem</TabsTrigger>
+              <TabsTrigger value="review">Revisão</TabsTrigger>
+            </TabsList>
+            <TabsContent value="count" className="mt-6">
+              <StocktakeCounter stocktakeId={stocktake.id} items={items} onCounted={handleCounted} />
+            </TabsContent>
+            <TabsContent value="review" className="mt-6">
+              <StocktakeReview
+                stocktake={stocktake}
+                items={items}
+                canApprove={canApprove}
+                onApproved={loadStocktake}
+              />
+            </TabsContent>
+          </Tabs>
+        ) : stocktake.status === "aprovado" ? (
+          <StocktakeReview stocktake={stocktake} items={items} canApprove={canApprove} />
+        ) : (
+          <Card className="p-8 text-center text-muted-foreground">
+            {isOpen
+              ? "Você não tem permissão para contar este inventário"
+              : "Inventário cancelado: as contagens foram descartadas e o estoque não foi alterado"}
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
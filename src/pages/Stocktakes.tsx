@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PaginationControls } from "@/components/shared/PaginationControls";
+import { StocktakeForm } from "@/components/stocktakes/StocktakeForm";
+import {
+  StocktakeStatusBadge,
+  stocktakeStatusLabels,
+} from "@/components/stocktakes/StocktakeStatusBadge";
+import { supabase } from "@/integrations/supabase/client";
+import type { StocktakeStatus } from "@/lib/db";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import { useUserRole } from "@/hooks/use-user-role";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ClipboardCheck, Loader2, Plus } from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+interface Stocktake {
+  id: string;
+  number: number;
+  status: StocktakeStatus;
+  created_at: string;
+  approved_at: string | null;
+  location_id: string;
+  categories: { name: string } | null;
+}
+
+export default function Stocktakes() {
+  const navigate = useNavigate();
+  const { canPerform } = useUserRole();
+  const { locations } = useLocations();
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [progress, setProgress] = useState<Record<string, { counted: number; total: number }>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [page, setPage] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [filterStatus, setFilterStatus] = useState<StocktakeStatus | "all">("all");
+  const [showForm, setShowForm] = useState(false);
+
+  const canCount = canPerform("stocktakes.count");
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    loadStocktakes();
+  }, [page, filterStatus]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadStocktakes = async () => {
+    try {
+      let query = supabase
+        .from("stocktakes")
+        .select("id, number, location_id, status, created_at, approved_at, categories (name)", {
+          count: "exact",
+        })
+        .order("created_at", { ascending: false });
+
+      if (filterStatus !== "all") {
+        query = query.eq("status", filterStatus);
+      }
+
+      const { data, error, count } = await query.range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+      if (error) throw error;
+      setStocktakes(data || []);
+      setTotal(count || 0);
+
+      const ids = (data || []).map((s) => s.id);
+      if (ids.length === 0) {
+        setProgress({});
+        return;
+      }
+
+      const { data: itemData, error: itemError } = await supabase
+        .from("stocktake_items")
+        .select("stocktake_id, counted_quantity")
+        .in("stocktake_id", ids);
+
+      if (itemError) throw itemError;
+      const byStocktake: Record<string, { counted: number; total: number }> = {};
+      for (const item of itemData || []) {
+        const entry = (byStocktake[item.stocktake_id] ||= { counted: 0, total: 0 });
+        entry.total += 1;
+        if (item.counted_quantity !== null) entry.counted += 1;
+      }
+      setProgress(byStocktake);
+    } catch (error) {
+      console.error("Erro ao carregar inventários:", error);
+      toast.error("Erro ao carregar inventários");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getLocationLabel = (id: string) => {
+    const location = locations.find((l) => l.id === id);
+    return location ? locationLabel(location) : "—";
+  };
+
+  const handleStatusChange = (value: string) => {
+    setFilterStatus(value as StocktakeStatus | "all");
+    setPage(0);
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-full">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Inventário</h1>
+            <p className="text-muted-foreground">
+              Contagens físicas por local, com revisão das diferenças antes de ajustar o estoque
+            </p>
+          </div>
+          {canCount && (
+            <Button onClick={() => setShowForm(true)} className="w-full sm:w-auto">
+              <Plus className="mr-2 h-4 w-4" />
+              Novo Inventário
+            </Button>
+          )}
+        </div>
+
+        {/* Filtro */}
+        <Card className="p-4">
+          <Select value={filterStatus} onValueChange={handleStatusChange}>
+            <SelectTrigger className="w-full sm:w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os status</SelectItem>
+              {Object.entries(stocktakeStatusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Card>
+
+        {/* Lista */}
+        <Card>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nº</TableHead>
+                  <TableHead>Aberto em</TableHead>
+                  <TableHead>Local</TableHead>
+                  <TableHead>Categoria</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Contados</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stocktakes.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      Nenhum inventário encontrado
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  stocktakes.map((stocktake) => {
+                    const summary = progress[stocktake.id] || { counted: 0, total: 0 };
+                    return (
+                      <TableRow key={stocktake.id}>
+                        <TableCell className="font-medium">#{stocktake.number}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(stocktake.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                        </TableCell>
+                        <TableCell>{getLocationLabel(stocktake.location_id)}</TableCell>
+                        <TableCell>{stocktake.categories?.name || "Todas"}</TableCell>
+                        <TableCell>
+                          <StocktakeStatusBadge status={stocktake.status} />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {summary.counted}/{summary.total}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => navigate(`/stocktakes/${stocktake.id}`)}
+                          >
+                            <ClipboardCheck className="mr-2 h-4 w-4" />
+                            {stocktake.status === "em_contagem" ? "Contar" : "Ver"}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+
+        {total > PAGE_SIZE && (
+          <PaginationControls page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        )}
+
+        <Dialog open={showForm} onOpenChange={setShowForm}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Novo Inventário</DialogTitle>
+              <DialogDescription>
+                A contagem é cega: quem conta não vê o saldo do sistema
+              </DialogDescription>
+            </DialogHeader>
+            <StocktakeForm
+              onSuccess={(id) => navigate(`/stocktakes/${id}`)}
+              onCancel={() => setShowForm(false)}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+}
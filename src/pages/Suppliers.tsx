@@ -3,6 +3,7 @@ import { useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { supplierSchema, SupplierFormData } from "@/lib/validations";
+import { applyFieldErrors } from "@/lib/form-errors";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -17,6 +18,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -41,6 +43,7 @@ interface Supplier {
   email: string | null;
   phone: string | null;
   address: string | null;
+  lead_time_days: number;
   created_at: string;
 }
 
@@ -61,6 +64,7 @@ export default function Suppliers() {
       email: "",
       phone: "",
       address: "",
+      lead_time_days: 7,
     },
   });
 
@@ -108,6 +112,7 @@ export default function Suppliers() {
       email: "",
       phone: "",
       address: "",
+      lead_time_days: 7,
     });
     setShowDialog(true);
   };
@@ -120,6 +125,7 @@ export default function Suppliers() {
       email: supplier.email || "",
       phone: supplier.phone || "",
       address: supplier.address || "",
+      lead_time_days: supplier.lead_time_days,
     });
     setShowDialog(true);
   };
@@ -151,6 +157,7 @@ export default function Suppliers() {
     try {
       const supplierData = {
         ...data,
+        name: data.name,
         contact_name: data.contact_name || null,
         email: data.email || null,
         phone: data.phone || null,
@@ -181,7 +188,10 @@ export default function Suppliers() {
       form.reset();
     } catch (error) {
       console.error("Erro ao salvar fornecedor:", error);
-      toast.error("Erro ao salvar fornecedor");
+      applyFieldErrors(form, error);
+      toast.error("Erro ao salvar fornecedor", {
+        description: error instanceof Error ? error.message : undefined,
+      });
     } finally {
       setIsSubmitting(false);
     }
@@ -243,13 +253,14 @@ export default function Suppliers() {
                   <TableHead>Contato</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Telefone</TableHead>
+                  <TableHead>Prazo de entrega</TableHead>
                   <TableHead className="text-right">Ações</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredSuppliers.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
                       {searchTerm
                         ? "Nenhum fornecedor encontrado"
                         : "Nenhum fornecedor cadastrado"}
@@ -262,6 +273,7 @@ export default function Suppliers() {
                       <TableCell>{supplier.contact_name || "-"}</TableCell>
                       <TableCell>{supplier.email || "-"}</TableCell>
                       <TableCell>{supplier.phone || "-"}</TableCell>
+                      <TableCell>{supplier.lead_time_days} dias</TableCell>
                       <TableCell className="text-right">
                         <div className="flex gap-2 justify-end">
                           <Button
@@ -376,6 +388,29 @@ export default function Suppliers() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="lead_time_days"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Prazo de entrega (dias)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="365"
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Usado nas sugestões de reposição para calcular quando pedir
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="flex gap-4 justify-end pt-4">
                   <Button
                     type="button"
@@ -0,0 +1,397 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PaginationControls } from "@/components/shared/PaginationControls";
+import { TransferForm, type TransferDraft } from "@/components/transfers/TransferForm";
+import { TransferDetails } from "@/components/transfers/TransferDetails";
+import { TransferReceiveDialog, type ReceivableItem } from "@/components/transfers/TransferReceiveDialog";
+import { TransferStatusBadge, transferStatusLabels } from "@/components/transfers/TransferStatusBadge";
+import { supabase } from "@/integrations/supabase/client";
+import type { TransferStatus } from "@/lib/db";
+import { locationLabel, useLocations } from "@/hooks/use-locations";
+import { useUserRole } from "@/hooks/use-user-role";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ArrowRight, Eye, Loader2, PackageCheck, Pencil, Plus, Send, Trash2 } from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+interface Transfer {
+  id: string;
+  origin_location_id: string;
+  destination_location_id: string;
+  status: TransferStatus;
+  notes: string | null;
+  created_at: string;
+}
+
+interface TransferItem extends ReceivableItem {
+  transfer_id: string;
+  product_id: string;
+}
+
+export default function Transfers() {
+  const navigate = useNavigate();
+  const { canPerform } = useUserRole();
+  const { locations } = useLocations();
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [items, setItems] = useState<Record<string, TransferItem[]>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [page, setPage] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [filterStatus, setFilterStatus] = useState<TransferStatus | "all">("all");
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingTransfer, setEditingTransfer] = useState<TransferDraft | null>(null);
+  const [receivingId, setReceivingId] = useState<string | null>(null);
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const canManage = canPerform("transfers.manage");
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [page, filterStatus]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  };
+
+  const loadTransfers = async () => {
+    try {
+      let query = supabase
+        .from("stock_transfers")
+        .select("id, origin_location_id, destination_location_id, status, notes, created_at", {
+          count: "exact",
+        })
+        .order("created_at", { ascending: false });
+
+      if (filterStatus !== "all") {
+        query = query.eq("status", filterStatus);
+      }
+
+      const { data, error, count } = await query.range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+      if (error) throw error;
+      setTransfers(data || []);
+      setTotal(count || 0);
+
+      const ids = (data || []).map((t) => t.id);
+      if (ids.length === 0) {
+        setItems({});
+        return;
+      }
+
+      const { data: itemData, error: itemError } = await supabase
+        .from("stock_transfer_items")
+        .select("id, transfer_id, product_id, quantity, received_quantity, products (name)")
+        .in("transfer_id", ids);
+
+      if (itemError) throw itemError;
+      const byTransfer: Record<string, TransferItem[]> = {};
+      for (const item of itemData || []) {
+        (byTransfer[item.transfer_id] ||= []).push(item);
+      }
+      setItems(byTransfer);
+    } catch (error) {
+      console.error("Erro ao carregar transferências:", error);
+      toast.error("Erro ao carregar transferências");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getLocationLabel = (id: string) => {
+    const location = locations.find((l) => l.id === id);
+    return location ? locationLabel(location) : "—";
+  };
+
+  const handleStatusChange = (value: string) => {
+    setFilterStatus(value as TransferStatus | "all");
+    setPage(0);
+  };
+
+  const handleNew = () => {
+    setEditingTransfer(null);
+    setShowForm(true);
+  };
+
+  const handleEdit = (transfer: Transfer) => {
+    setEditingTransfer({
+      id: transfer.id,
+      origin_location_id: transfer.origin_location_id,
+      destination_location_id: transfer.destination_location_id,
+      notes: transfer.notes,
+      items: (items[transfer.id] || []).map(({ product_id, quantity }) => ({ product_id, quantity })),
+    });
+    setShowForm(true);
+  };
+
+  const handleFormSuccess = () => {
+    setShowForm(false);
+    setEditingTransfer(null);
+    loadTransfers();
+  };
+
+  const handleDispatch = async (transfer: Transfer) => {
+    if (!confirm("Enviar a transferência? Os itens saem do estoque da origem agora.")) return;
+
+    setBusyId(transfer.id);
+    try {
+      const { error } = await supabase.transfers.dispatch(transfer.id);
+      if (error) throw error;
+      toast.success("Transferência enviada!");
+      loadTransfers();
+    } catch (error) {
+      console.error("Erro ao enviar transferência:", error);
+      toast.error("Erro ao enviar transferência", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (transfer: Transfer) => {
+    if (!confirm("Excluir este rascunho de transferência?")) return;
+
+    setBusyId(transfer.id);
+    try {
+      const { error } = await supabase.transfers.discard(transfer.id);
+      if (error) throw error;
+      toast.success("Rascunho excluído");
+      loadTransfers();
+    } catch (error) {
+      console.error("Erro ao excluir transferência:", error);
+      toast.error("Erro ao excluir transferência", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const summarizeItems = (transferId: string) => {
+    const list = items[transferId] || [];
+    const sent = list.reduce((acc, item) => acc + item.quantity, 0);
+    const received = list.reduce((acc, item) => acc + item.received_quantity, 0);
+    return { count: list.length, sent, received };
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-full">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Transferências</h1>
+            <p className="text-muted-foreground">
+              Movimente produtos entre prateleiras e filiais
+            </p>
+          </div>
+          {canManage && (
+            <Button onClick={handleNew} className="w-full sm:w-auto">
+              <Plus className="mr-2 h-4 w-4" />
+              Nova Transferência
+            </Button>
+          )}
+        </div>
+
+        {/* Filtro */}
+        <Card className="p-4">
+          <Select value={filterStatus} onValueChange={handleStatusChange}>
+            <SelectTrigger className="w-full sm:w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os status</SelectItem>
+              {Object.entries(transferStatusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Card>
+
+        {/* Lista */}
+        <Card>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Origem → Destino</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Itens</TableHead>
+                  <TableHead className="text-right">Recebido</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transfers.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                      Nenhuma transferência encontrada
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  transfers.map((transfer) => {
+                    const summary = summarizeItems(transfer.id);
+                    const isBusy = busyId === transfer.id;
+
+                    return (
+                      <TableRow key={transfer.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(transfer.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                        </TableCell>
+                        <TableCell>
+                          <span className="flex items-center gap-2 text-sm">
+                            {getLocationLabel(transfer.origin_location_id)}
+                            <ArrowRight className="h-4 w-4 text-muted-foreground shrink-0" />
+                            {getLocationLabel(transfer.destination_location_id)}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <TransferStatusBadge status={transfer.status} />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {summary.count} ({summary.sent} un.)
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {transfer.status === "rascunho" ? "—" : `${summary.received}/${summary.sent}`}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Ver detalhes"
+                              onClick={() => setDetailsId(transfer.id)}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            {canManage && transfer.status === "rascunho" && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Editar"
+                                  onClick={() => handleEdit(transfer)}
+                                  disabled={isBusy}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Enviar"
+                                  onClick={() => handleDispatch(transfer)}
+                                  disabled={isBusy}
+                                >
+                                  <Send className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Excluir"
+                                  onClick={() => handleDiscard(transfer)}
+                                  disabled={isBusy}
+                                >
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </>
+                            )}
+                            {canManage && transfer.status === "em_transito" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setReceivingId(transfer.id)}
+                              >
+                                <PackageCheck className="mr-2 h-4 w-4" />
+                                Receber
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+
+        {total > PAGE_SIZE && (
+          <PaginationControls page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        )}
+
+        {/* Dialog de Criar/Editar */}
+        <Dialog open={showForm} onOpenChange={setShowForm}>
+          <DialogContent className="w-[95vw] sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingTransfer ? "Editar Transferência" : "Nova Transferência"}</DialogTitle>
+              <DialogDescription>
+                O rascunho não altera o estoque: os itens saem da origem quando a transferência é enviada
+              </DialogDescription>
+            </DialogHeader>
+            <TransferForm
+              key={editingTransfer?.id || "new"}
+              transfer={editingTransfer}
+              onSuccess={handleFormSuccess}
+              onCancel={() => setShowForm(false)}
+            />
+          </DialogContent>
+        </Dialog>
+
+        <TransferReceiveDialog
+          transferId={receivingId}
+          items={receivingId ? items[receivingId] || [] : []}
+          onOpenChange={(open) => !open && setReceivingId(null)}
+          onSuccess={loadTransfers}
+        />
+
+        <TransferDetails
+          transferId={detailsId}
+          onOpenChange={(open) => !open && setDetailsId(null)}
+        />
+      </div>
+    </Layout>
+  );
+}
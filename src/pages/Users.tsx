@@ -39,7 +39,8 @@ interface UserProfile {
 
 export default function Users() {
   const navigate = useNavigate();
-  const { isAdmin, isLoading: roleLoading } = useUserRole();
+  const { canPerform, isLoading: roleLoading } = useUserRole();
+  const isAdmin = canPerform("users.manage");
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");